@@ -0,0 +1,12 @@
+// Upstream time budgets per route. Each deadline leaves headroom under the
+// route's maxDuration in vercel.json, so a slow upstream ends in the route's
+// own error or fallback response instead of a platform timeout.
+
+export const UPSTREAM_BUDGETS = {
+  // api/coverage.js and api/coverage-batch.js, maxDuration 30 s
+  coverage: { timeout: 8000, retries: 2, deadline: 25000 },
+  // api/tiles/**, maxDuration 10 s
+  tiles: { timeout: 4000, retries: 1, deadline: 7000 },
+  // api/legend.js, maxDuration 10 s; the map shows the bundled legend once it fails
+  legend: { timeout: 3000, retries: 1, deadline: 6000 }
+};
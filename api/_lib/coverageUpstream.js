@@ -0,0 +1,211 @@
+// Upstream MTN coverage lookups shared by /api/coverage and /api/coverage-batch:
+// URL building, the response cache and the resilience policy.
+
+import { UPSTREAM_BUDGETS } from './budgets.js';
+import { FeatureInfoError, parseFeatureInfoText } from './featureInfo.js';
+import { upstreamFetch } from './fixtureStore.js';
+import { ResilientFetcher } from '../../src/shared/resilience.js';
+import { createResponseCache } from './responseCache.js';
+import { mtnEndpoints } from '../../src/shared/upstreams.js';
+import { baseUrlsFromEnv } from './upstreams.js';
+
+// Shared across invocations while the function instance stays warm
+export const cache = createResponseCache();
+const upstream = new ResilientFetcher({ ...UPSTREAM_BUDGETS.coverage, fetchImpl: upstreamFetch });
+
+export const TECHNOLOGIES = ['2G', '3G', '4G', '5G', 'UNCAPPED_WIRELESS', 'FIBRE', 'LICENSED_WIRELESS', 'FIXED_LTE'];
+
+// Handle both GetFeatureInfo (coverage checking) and GetMap (overlay images)
+const layerMap = {
+  'ALL': 'EBU-RBUS-ALL',
+  '2G': 'EBU-RBUS-ALL',
+  '3G': 'EBU-RBUS-ALL',
+  '4G': 'EBU-RBUS-ALL',
+  '5G': 'EBU-RBUS-ALL',
+  'UNCAPPED_WIRELESS': 'UncappedWirelessEBU',
+  'FIBRE': 'FTTBCoverage',
+  'LICENSED_WIRELESS': 'PMPCoverage',
+  'FIXED_LTE': 'FLTECoverageEBU'
+};
+
+const headers = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
+  'Accept': '*/*',
+  'Accept-Language': 'en-US,en;q=0.9',
+  'Cache-Control': 'no-cache',
+};
+
+/**
+ * Build the upstream URL for a request, or null for an unknown type
+ */
+export function buildCoverageUrl({ technology, type, latitude, longitude, image }) {
+  const endpoints = mtnEndpoints(baseUrlsFromEnv());
+
+  if (type === 'wms') {
+    const mlid = layerMap[technology] || 'EBU-RBUS-ALL';
+
+    if (image) {
+      // GetMap request for overlay images
+      const buffer = 0.05; // 5km buffer around point
+
+      const params = new URLSearchParams({
+        'mlid': mlid,
+        'SERVICE': 'WMS',
+        'VERSION': '1.1.1',
+        'REQUEST': 'GetMap',
+        'FORMAT': 'image/png',
+        'TRANSPARENT': 'true',
+        'LAYERS': mlid,
+        'SRS': 'EPSG:4326',
+        'WIDTH': image.width.toString(),
+        'HEIGHT': image.height.toString(),
+        'BBOX': `${longitude-buffer},${latitude-buffer},${longitude+buffer},${latitude+buffer}`
+      });
+
+      return `${endpoints.geoserver}?${params.toString()}`;
+    }
+
+    // GetFeatureInfo request for coverage checking
+    const params = new URLSearchParams({
+      'mlid': mlid,
+      'SERVICE': 'WMS',
+      'VERSION': '1.1.1',
+      'REQUEST': 'GetFeatureInfo',
+      'FORMAT': 'image/png',
+      'TRANSPARENT': 'true',
+      'QUERY_LAYERS': mlid,
+      'LAYERS': mlid,
+      'exceptions': 'application/vnd.ogc.se_inimage',
+      'INFO_FORMAT': 'text/plain',
+      'FEATURE_COUNT': '50',
+      'X': '50',
+      'Y': '50',
+      'SRS': 'EPSG:4326',
+      'WIDTH': '101',
+      'HEIGHT': '101',
+      'BBOX': `${longitude-0.01},${latitude-0.01},${longitude+0.01},${latitude+0.01}`
+    });
+
+    return `${endpoints.geoserver}?${params.toString()}`;
+  }
+
+  if (type === 'point') {
+    // Coverage API point endpoint
+    return `${endpoints.coveragePoint}?lat=${latitude}&lng=${longitude}`;
+  }
+
+  if (type === 'public') {
+    // Public coverage query
+    return `${endpoints.publicCoverageApi}?lat=${latitude}&lng=${longitude}`;
+  }
+
+  return null;
+}
+
+/**
+ * Look up one technology through the response cache. Resolves to
+ * { response, status, age, key }, or null for an unknown type; timeouts and
+ * open breakers reject with a ResilienceError.
+ */
+export async function fetchCoverage({ technology = 'ALL', type = 'wms', lat, lng, image = null, bypass = false }) {
+  // Upstream always gets the exact point; only the cache key is snapped to
+  // the grid (~110m by default), so nearby clicks share an entry
+  const url = buildCoverageUrl({ technology, type, latitude: lat, longitude: lng, image });
+  if (!url) return null;
+
+  const key = cache.key({
+    technology,
+    type,
+    lat,
+    lng,
+    variant: image ? `${image.width}x${image.height}` : ''
+  });
+
+  const result = await cache.fetch(
+    key,
+    () => fetchUpstream(`${type}:${technology}`, url, { technology, latitude: lat, longitude: lng, image: Boolean(image) }),
+    { bypass }
+  );
+
+  return { ...result, key };
+}
+
+/**
+ * Fetch from MTN and shape the result into a cacheable record:
+ * { status, contentType, body, encoding? }
+ */
+async function fetchUpstream(endpoint, url, { technology, latitude, longitude, image }) {
+  console.log(`Proxying request to: ${url}`);
+
+  // Times out, retries and trips the breaker for this type/technology pair
+  const response = await upstream.fetch(endpoint, url, { headers });
+
+  if (!response.ok) {
+    console.error(`MTN API error: ${response.status} ${response.statusText}`);
+    return {
+      status: response.status,
+      contentType: 'application/json',
+      body: {
+        error: `MTN API error: ${response.status} ${response.statusText}`,
+        url: url.replace(/([?&])(lat|lng|X|Y|BBOX)=[^&]*/g, '$1$2=***') // Hide sensitive data in logs
+      }
+    };
+  }
+
+  const contentType = response.headers.get('content-type');
+
+  // For GetMap requests (image overlays), return the image directly
+  if (image && contentType && contentType.includes('image')) {
+    const buffer = await response.arrayBuffer();
+    return { status: 200, contentType, body: Buffer.from(buffer).toString('base64'), encoding: 'base64' };
+  }
+
+  // For other requests, return JSON
+  if (contentType && contentType.includes('application/json')) {
+    return { status: 200, contentType: 'application/json', body: await response.json() };
+  }
+
+  // GetFeatureInfo text/plain dumps are parsed into structured features
+  if (contentType && contentType.includes('text/')) {
+    const text = await response.text();
+
+    try {
+      return {
+        status: 200,
+        contentType: 'application/json',
+        body: {
+          type: 'features',
+          features: parseFeatureInfoText(text),
+          technology,
+          coordinates: { lat: latitude, lng: longitude }
+        }
+      };
+    } catch (error) {
+      if (!(error instanceof FeatureInfoError)) throw error;
+      console.error(error.message);
+      return { status: 502, contentType: 'application/json', body: { error: error.message } };
+    }
+  }
+
+  // Handle binary data (like images) for other cases
+  const buffer = await response.arrayBuffer();
+  return {
+    status: 200,
+    contentType: 'application/json',
+    body: {
+      type: 'binary',
+      content: Buffer.from(buffer).toString('base64'),
+      contentType: contentType || 'application/octet-stream',
+      technology,
+      coordinates: { lat: latitude, lng: longitude }
+    }
+  };
+}
+
+/**
+ * Whether the caller asked to skip the response cache
+ */
+export function wantsBypass(req) {
+  const { refresh } = req.query;
+  return refresh === '1' || refresh === 'true' || /no-cache/.test(req.headers['cache-control'] || '');
+}
@@ -0,0 +1,87 @@
+// Parser for GeoServer's INFO_FORMAT=text/plain GetFeatureInfo output:
+//
+//   Results for FeatureType 'mtnsi:MTNSA-Coverage-4G':
+//   --------------------------------------------
+//   fid = MTNSA-Coverage-4G.1042
+//   signal = Good
+//   --------------------------------------------
+//
+// or "no features were found" when the point has no coverage.
+
+const HEADER = /^Results for FeatureType '([^']*)':\s*$/;
+const SEPARATOR = /^-{5,}\s*$/;
+const ATTRIBUTE = /^([^=]+?)\s*=\s?(.*)$/;
+const ID_KEYS = ['fid', 'FID', 'id', 'ID', 'gml:id'];
+
+/**
+ * Thrown when GeoServer answers with a service exception instead of features
+ */
+export class FeatureInfoError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'FeatureInfoError';
+  }
+}
+
+function parseValue(raw) {
+  const value = raw.trim();
+  if (value !== '' && /^-?\d+(\.\d+)?$/.test(value)) {
+    return Number(value);
+  }
+  return value;
+}
+
+/**
+ * Parse the plain-text dump into [{ layer, id, attributes }].
+ * Geometry attributes are skipped; they only ever say "[GEOMETRY (...) with N points]".
+ */
+export function parseFeatureInfoText(text) {
+  const trimmed = (text || '').trim();
+
+  if (trimmed.startsWith('<')) {
+    const message = trimmed.match(/<ServiceException(?:\s[^>]*)?>([\s\S]*?)<\/ServiceException>/);
+    throw new FeatureInfoError(`GeoServer exception: ${message ? message[1].trim() : 'unparseable XML response'}`);
+  }
+
+  const features = [];
+  let layer = null;
+  let current = null;
+
+  const finish = () => {
+    if (current && Object.keys(current.attributes).length > 0) {
+      const idKey = ID_KEYS.find(key => key in current.attributes);
+      current.id = idKey ? String(current.attributes[idKey]) : `${current.layer}.${features.length + 1}`;
+      if (idKey) delete current.attributes[idKey];
+      features.push(current);
+    }
+    current = null;
+  };
+
+  for (const line of trimmed.split(/\r?\n/)) {
+    const header = line.match(HEADER);
+    if (header) {
+      finish();
+      layer = header[1];
+      continue;
+    }
+
+    if (SEPARATOR.test(line)) {
+      // Separators both open and close a feature block
+      finish();
+      if (layer) current = { layer, id: '', attributes: {} };
+      continue;
+    }
+
+    const attribute = line.match(ATTRIBUTE);
+    if (attribute && layer) {
+      const value = attribute[2];
+      if (/^\[GEOMETRY/.test(value)) continue;
+
+      current = current || { layer, id: '', attributes: {} };
+      current.attributes[attribute[1].trim()] = parseValue(value);
+    }
+  }
+
+  finish();
+  return features;
+}
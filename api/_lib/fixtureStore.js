@@ -0,0 +1,66 @@
+// File-backed fixture store for recording the proxy's upstream calls, and the
+// fetch the proxy's upstream clients use. UPSTREAM_MODE selects live (default),
+// record or replay; UPSTREAM_FIXTURES_DIR is where fixtures are kept, one JSON
+// file per exchange named after its fixture id.
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { RECORDING_MODES, createRecordingFetch } from '../../src/shared/recording.js';
+
+export const DEFAULT_FIXTURES_DIR = 'fixtures/upstream';
+
+/**
+ * Store reading and writing <dir>/<id>.json
+ */
+export function createFileFixtureStore(dir = DEFAULT_FIXTURES_DIR) {
+  const fileFor = id => path.join(dir, `${id}.json`);
+
+  return {
+    dir,
+
+    async get(id) {
+      try {
+        return JSON.parse(await readFile(fileFor(id), 'utf8'));
+      } catch (error) {
+        if (error.code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    async put(fixture) {
+      await mkdir(dir, { recursive: true });
+      await writeFile(fileFor(fixture.id), `${JSON.stringify(fixture, null, 2)}\n`);
+    }
+  };
+}
+
+const recorders = new Map();
+
+/**
+ * The recording fetch for the current environment, reused while the
+ * settings stay the same
+ */
+export function recordingFetchFromEnv(env = process.env) {
+  const mode = (env.UPSTREAM_MODE || 'live').toLowerCase();
+  if (!RECORDING_MODES.includes(mode)) {
+    throw new Error(`UPSTREAM_MODE must be one of ${RECORDING_MODES.join(', ')}`);
+  }
+
+  const dir = env.UPSTREAM_FIXTURES_DIR || DEFAULT_FIXTURES_DIR;
+  const settings = `${mode}:${dir}`;
+  if (!recorders.has(settings)) {
+    recorders.set(settings, createRecordingFetch({
+      mode,
+      store: mode === 'live' ? undefined : createFileFixtureStore(dir)
+    }));
+  }
+  return recorders.get(settings);
+}
+
+/**
+ * fetchImpl for the proxy's ResilientFetchers. The mode is read per request,
+ * so tests and `vercel dev` can switch it without reloading modules.
+ */
+export function upstreamFetch(url, init) {
+  return recordingFetchFromEnv()(url, init);
+}
@@ -0,0 +1,90 @@
+// GetLegendGraphic support for the legend proxy. GeoServer's JSON legend
+// format lists the style's rules with their symbolizers:
+//
+//   { "Legend": [{ "layerName": "...", "rules": [
+//     { "title": "Good", "symbolizers": [{ "Polygon": { "fill": "#00A651", "fill-opacity": "0.6" } }] }
+//   ] }] }
+//
+// Raster styles carry a colour map instead, one entry per class.
+
+import { WMS_LAYERS } from '../../src/shared/tiles.js';
+import { mtnEndpoints } from '../../src/shared/upstreams.js';
+
+/**
+ * Thrown when GeoServer answers with something other than a JSON legend
+ */
+export class LegendError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'LegendError';
+  }
+}
+
+/**
+ * GetLegendGraphic URL for a technology's layer and style, or null if unknown
+ */
+export function buildLegendUrl(technology, geoserver = mtnEndpoints().geoserver) {
+  const config = WMS_LAYERS[technology];
+  if (!config) return null;
+
+  const params = new URLSearchParams({
+    mlid: config.mlid,
+    SERVICE: 'WMS',
+    REQUEST: 'GetLegendGraphic',
+    VERSION: '1.1.1',
+    LAYER: config.layer,
+    STYLE: config.style,
+    FORMAT: 'application/json'
+  });
+
+  return `${geoserver}?${params.toString()}`;
+}
+
+function toOpacity(value) {
+  const opacity = parseFloat(value);
+  return Number.isFinite(opacity) ? Math.min(1, Math.max(0, opacity)) : 1;
+}
+
+function symbolizerEntries(symbolizer, label) {
+  if (symbolizer.Polygon) {
+    const { fill, stroke } = symbolizer.Polygon;
+    const color = fill || stroke;
+    return color ? [{ label, color, opacity: toOpacity(fill ? symbolizer.Polygon['fill-opacity'] : symbolizer.Polygon['stroke-opacity']) }] : [];
+  }
+  if (symbolizer.Line && symbolizer.Line.stroke) {
+    return [{ label, color: symbolizer.Line.stroke, opacity: toOpacity(symbolizer.Line['stroke-opacity']) }];
+  }
+  if (symbolizer.Point) {
+    const graphic = (symbolizer.Point.graphics || [])[0] || {};
+    return graphic.fill ? [{ label, color: graphic.fill, opacity: toOpacity(graphic['fill-opacity']) }] : [];
+  }
+  if (symbolizer.Raster) {
+    const entries = symbolizer.Raster.colormap?.entries || [];
+    return entries
+      .filter(entry => entry.color && toOpacity(entry.opacity) > 0)
+      .map(entry => ({
+        label: entry.label || entry.quantity || label,
+        color: entry.color,
+        opacity: toOpacity(entry.opacity)
+      }));
+  }
+  return [];
+}
+
+/**
+ * Flatten a JSON legend into [{ label, color, opacity }], one per visible class
+ */
+export function parseLegendGraphic(json) {
+  if (!json || !Array.isArray(json.Legend)) {
+    throw new LegendError('Legend response has no Legend array');
+  }
+
+  return json.Legend.flatMap(layer =>
+    (layer.rules || []).flatMap(rule => {
+      const label = rule.title || rule.name || layer.title || layer.layerName || 'Coverage';
+      // Only the first symbolizer with a colour describes the rule
+      const symbolizer = (rule.symbolizers || []).find(item => symbolizerEntries(item, label).length > 0);
+      return symbolizer ? symbolizerEntries(symbolizer, label) : [];
+    })
+  );
+}
@@ -0,0 +1,209 @@
+// Server-side response cache for the coverage proxy.
+// Entries are fresh for `ttl` seconds, then served stale for up to `staleTtl`
+// more seconds while a single background request refreshes them.
+
+import { waitUntil } from '@vercel/functions';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+
+/**
+ * In-memory backend. Lives as long as the (warm) serverless instance.
+ */
+export class MemoryCacheBackend {
+  constructor({ maxEntries = 1000 } = {}) {
+    this.entries = new Map();
+    this.maxEntries = maxEntries;
+  }
+
+  async get(key) {
+    return this.entries.get(key) || null;
+  }
+
+  async set(key, entry) {
+    // Map keeps insertion order, so re-inserting moves the key to the end
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value);
+    }
+  }
+
+  async delete(key) {
+    this.entries.delete(key);
+  }
+
+  async clear() {
+    this.entries.clear();
+  }
+}
+
+/**
+ * File backend, one JSON file per key. A local stand-in for a shared store
+ * such as SQLite or Redis; survives restarts of `vercel dev`.
+ */
+export class FileCacheBackend {
+  constructor({ directory = path.join(os.tmpdir(), 'mtn-coverage-cache') } = {}) {
+    this.directory = directory;
+  }
+
+  fileFor(key) {
+    const hash = crypto.createHash('sha1').update(key).digest('hex');
+    return path.join(this.directory, `${hash}.json`);
+  }
+
+  async get(key) {
+    try {
+      const entry = JSON.parse(await fs.readFile(this.fileFor(key), 'utf8'));
+      return entry.key === key ? entry : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async set(key, entry) {
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.fileFor(key), JSON.stringify({ ...entry, key }));
+  }
+
+  async delete(key) {
+    await fs.rm(this.fileFor(key), { force: true });
+  }
+
+  async clear() {
+    await fs.rm(this.directory, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Snap a coordinate to the cache grid so nearby clicks share an entry
+ */
+export function snapToGrid(value, grid) {
+  const decimals = Math.max(0, Math.ceil(-Math.log10(grid)));
+  return Number((Math.round(value / grid) * grid).toFixed(decimals));
+}
+
+export class ResponseCache {
+  constructor({
+    backend = new MemoryCacheBackend(),
+    ttl = 3600,
+    staleTtl = 86400,
+    grid = 0.001,
+    now = Date.now,
+    keepAlive = waitUntil
+  } = {}) {
+    this.backend = backend;
+    this.ttl = ttl;
+    this.staleTtl = staleTtl;
+    this.grid = grid;
+    this.now = now;
+    this.keepAlive = keepAlive;
+    this.revalidating = new Map();
+  }
+
+  /**
+   * Cache key from technology, request type and the snapped coordinates
+   */
+  key({ technology, type, lat, lng, variant = '' }) {
+    return [type, technology, snapToGrid(lat, this.grid), snapToGrid(lng, this.grid), variant].join(':');
+  }
+
+  /**
+   * Serve `key` from cache, fetching on a miss. `fetcher` resolves to
+   * { status, contentType, body }; only 2xx responses are stored.
+   * Returns { response, status: 'HIT' | 'STALE' | 'MISS' | 'BYPASS', age }.
+   */
+  async fetch(key, fetcher, { bypass = false } = {}) {
+    const now = this.now();
+    const entry = bypass ? null : await this.read(key);
+
+    if (entry && now < entry.freshUntil) {
+      return { response: entry.response, status: 'HIT', age: this.age(entry, now) };
+    }
+
+    if (entry && now < entry.staleUntil) {
+      // Vercel freezes the function once the response is sent; waitUntil keeps
+      // it running until the refresh is stored (a no-op off the platform)
+      this.keepAlive(this.revalidate(key, fetcher));
+      return { response: entry.response, status: 'STALE', age: this.age(entry, now) };
+    }
+
+    const response = await fetcher();
+    await this.store(key, response);
+    return { response, status: bypass ? 'BYPASS' : 'MISS', age: 0 };
+  }
+
+  /**
+   * Refresh an entry in the background. Concurrent requests for the same key
+   * share one upstream call; failures keep the stale entry.
+   */
+  revalidate(key, fetcher) {
+    if (this.revalidating.has(key)) {
+      return this.revalidating.get(key);
+    }
+
+    const pending = fetcher()
+      .then(response => this.store(key, response))
+      .catch(error => console.warn(`Cache revalidation failed for ${key}:`, error.message))
+      .finally(() => this.revalidating.delete(key));
+
+    this.revalidating.set(key, pending);
+    return pending;
+  }
+
+  /**
+   * Wait for any background revalidation to finish
+   */
+  async settle() {
+    await Promise.all(this.revalidating.values());
+  }
+
+  async read(key) {
+    try {
+      return await this.backend.get(key);
+    } catch (error) {
+      console.warn('Cache read failed:', error.message);
+      return null;
+    }
+  }
+
+  async store(key, response) {
+    if (response.status < 200 || response.status >= 300) return;
+
+    const storedAt = this.now();
+    try {
+      await this.backend.set(key, {
+        response,
+        storedAt,
+        freshUntil: storedAt + this.ttl * 1000,
+        staleUntil: storedAt + (this.ttl + this.staleTtl) * 1000
+      });
+    } catch (error) {
+      console.warn('Cache write failed:', error.message);
+    }
+  }
+
+  age(entry, now) {
+    return Math.max(0, Math.round((now - entry.storedAt) / 1000));
+  }
+}
+
+/**
+ * Build the proxy cache from environment variables:
+ * COVERAGE_CACHE_BACKEND (memory | file), COVERAGE_CACHE_DIR,
+ * COVERAGE_CACHE_TTL and COVERAGE_CACHE_STALE_TTL (seconds), COVERAGE_CACHE_GRID (degrees)
+ */
+export function createResponseCache(env = process.env) {
+  const backend = env.COVERAGE_CACHE_BACKEND === 'file'
+    ? new FileCacheBackend(env.COVERAGE_CACHE_DIR ? { directory: env.COVERAGE_CACHE_DIR } : {})
+    : new MemoryCacheBackend();
+
+  return new ResponseCache({
+    backend,
+    ttl: Number(env.COVERAGE_CACHE_TTL) || 3600,
+    staleTtl: Number(env.COVERAGE_CACHE_STALE_TTL) || 86400,
+    grid: Number(env.COVERAGE_CACHE_GRID) || 0.001
+  });
+}
@@ -0,0 +1,16 @@
+// MTN base URLs from the server environment. The URL handling itself is
+// shared with the browser client in src/shared/upstreams.js.
+
+import { resolveBaseUrls } from '../../src/shared/upstreams.js';
+
+/**
+ * Base URLs from MTN_GIS_BASE_URL, MTN_API_BASE_URL and MTN_WEB_BASE_URL.
+ * Read per call, so changing the environment takes effect without a restart.
+ */
+export function baseUrlsFromEnv(env = process.env) {
+  return resolveBaseUrls({
+    gis: env.MTN_GIS_BASE_URL,
+    api: env.MTN_API_BASE_URL,
+    web: env.MTN_WEB_BASE_URL
+  });
+}
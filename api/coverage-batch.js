@@ -0,0 +1,80 @@
+// Vercel API route to check several technologies for one point in a single call.
+// Runs the upstream lookups in parallel and returns one result per technology.
+
+import { TECHNOLOGIES, fetchCoverage, wantsBypass } from './_lib/coverageUpstream.js';
+import { FixtureMissingError } from '../src/shared/recording.js';
+import { ResilienceError } from '../src/shared/resilience.js';
+
+export default async function handler(req, res) {
+  // Enable CORS for your frontend
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { lat, lng, technologies } = req.query;
+
+  if (!lat || !lng) {
+    return res.status(400).json({ error: 'Missing required parameters: lat, lng' });
+  }
+
+  const latitude = parseFloat(lat);
+  const longitude = parseFloat(lng);
+
+  if (isNaN(latitude) || isNaN(longitude)) {
+    return res.status(400).json({ error: 'Invalid coordinates' });
+  }
+
+  // Defaults to every technology; duplicates are dropped
+  const requested = technologies
+    ? Array.from(new Set(String(technologies).split(',').map(tech => tech.trim()).filter(Boolean)))
+    : TECHNOLOGIES;
+
+  const unknown = requested.filter(tech => tech !== 'ALL' && !TECHNOLOGIES.includes(tech));
+  if (unknown.length > 0) {
+    return res.status(400).json({ error: `Unknown technologies: ${unknown.join(', ')}` });
+  }
+
+  const bypass = wantsBypass(req);
+  const settled = await Promise.allSettled(requested.map(technology =>
+    fetchCoverage({ technology, type: 'wms', lat: latitude, lng: longitude, bypass })
+  ));
+
+  const results = {};
+  settled.forEach((outcome, index) => {
+    const technology = requested[index];
+
+    if (outcome.status === 'rejected') {
+      const error = outcome.reason;
+      console.error(`Batch lookup failed for ${technology}:`, error);
+      results[technology] = {
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        ...(error instanceof ResilienceError || error instanceof FixtureMissingError ? { code: error.code } : {})
+      };
+      return;
+    }
+
+    const { response, status } = outcome.value;
+    results[technology] = response.status >= 200 && response.status < 300
+      ? { status: 'ok', cache: status, data: response.body }
+      : { status: 'error', cache: status, error: response.body?.error || `MTN API error: ${response.status}` };
+  });
+
+  // Cached answers (fresh or stale) out of everything requested
+  const hits = Object.values(results).filter(item => item.cache === 'HIT' || item.cache === 'STALE').length;
+  res.setHeader('X-Cache-Hits', `${hits}/${requested.length}`);
+
+  res.status(200).json({
+    coordinates: { lat: latitude, lng: longitude },
+    results
+  });
+}
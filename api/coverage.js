@@ -1,6 +1,10 @@
 // Vercel API route to proxy MTN coverage API calls
 // This bypasses CORS restrictions by making server-side requests
 
+import { cache, fetchCoverage, wantsBypass } from './_lib/coverageUpstream.js';
+import { FixtureMissingError } from '../src/shared/recording.js';
+import { CircuitOpenError, ResilienceError } from '../src/shared/resilience.js';
+
 export default async function handler(req, res) {
   // Enable CORS for your frontend
   res.setHeader('Access-Control-Allow-Origin', '*');
@@ -31,141 +35,55 @@ export default async function handler(req, res) {
       return res.status(400).json({ error: 'Invalid coordinates' });
     }
 
-    let url;
-    let headers = {
-      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-      'Accept': '*/*',
-      'Accept-Language': 'en-US,en;q=0.9',
-      'Cache-Control': 'no-cache',
-    };
-
-    // Build the appropriate URL based on request type
-    if (type === 'wms') {
-      // Handle both GetFeatureInfo (coverage checking) and GetMap (overlay images)
-      const layerMap = {
-        'ALL': 'EBU-RBUS-ALL',
-        '2G': 'EBU-RBUS-ALL',
-        '3G': 'EBU-RBUS-ALL',
-        '4G': 'EBU-RBUS-ALL',
-        '5G': 'EBU-RBUS-ALL',
-        'UNCAPPED_WIRELESS': 'UncappedWirelessEBU',
-        'FIBRE': 'FTTBCoverage',
-        'LICENSED_WIRELESS': 'PMPCoverage',
-        'FIXED_LTE': 'FLTECoverageEBU'
-      };
-
-      const mlid = layerMap[technology] || 'EBU-RBUS-ALL';
-
-      if (width && height && format === 'image/png') {
-        // GetMap request for overlay images
-        const mapWidth = parseInt(width) || 800;
-        const mapHeight = parseInt(height) || 600;
-        const buffer = 0.05; // 5km buffer around point
-
-        const params = new URLSearchParams({
-          'mlid': mlid,
-          'SERVICE': 'WMS',
-          'VERSION': '1.1.1',
-          'REQUEST': 'GetMap',
-          'FORMAT': 'image/png',
-          'TRANSPARENT': 'true',
-          'LAYERS': mlid,
-          'SRS': 'EPSG:4326',
-          'WIDTH': mapWidth.toString(),
-          'HEIGHT': mapHeight.toString(),
-          'BBOX': `${longitude-buffer},${latitude-buffer},${longitude+buffer},${latitude+buffer}`
-        });
-
-        url = `https://mtnsi.mtn.co.za/cache/geoserver/wms?${params.toString()}`;
-      } else {
-        // GetFeatureInfo request for coverage checking
-        const params = new URLSearchParams({
-          'mlid': mlid,
-          'SERVICE': 'WMS',
-          'VERSION': '1.1.1',
-          'REQUEST': 'GetFeatureInfo',
-          'FORMAT': 'image/png',
-          'TRANSPARENT': 'true',
-          'QUERY_LAYERS': mlid,
-          'LAYERS': mlid,
-          'exceptions': 'application/vnd.ogc.se_inimage',
-          'INFO_FORMAT': 'text/plain',
-          'FEATURE_COUNT': '50',
-          'X': '50',
-          'Y': '50',
-          'SRS': 'EPSG:4326',
-          'WIDTH': '101',
-          'HEIGHT': '101',
-          'BBOX': `${longitude-0.01},${latitude-0.01},${longitude+0.01},${latitude+0.01}`
-        });
-
-        url = `https://mtnsi.mtn.co.za/cache/geoserver/wms?${params.toString()}`;
-      }
-    } else if (type === 'point') {
-      // Coverage API point endpoint
-      url = `https://mtnsi.mtn.co.za/coverage/api/point?lat=${latitude}&lng=${longitude}`;
-    } else if (type === 'public') {
-      // Public coverage query
-      url = `https://mtnsi.mtn.co.za/coverage/api/public/coverage?lat=${latitude}&lng=${longitude}`;
-    } else {
+    const image = width && height && format === 'image/png'
+      ? { width: parseInt(width) || 800, height: parseInt(height) || 600 }
+      : null;
+
+    const result = await fetchCoverage({
+      technology,
+      type,
+      lat: latitude,
+      lng: longitude,
+      image,
+      bypass: wantsBypass(req)
+    });
+
+    if (!result) {
       return res.status(400).json({ error: 'Invalid type parameter' });
     }
 
-    console.log(`Proxying request to: ${url}`);
+    const { response, status, age, key } = result;
 
-    const response = await fetch(url, {
-      headers,
-      timeout: 10000, // 10 second timeout
-    });
-
-    if (!response.ok) {
-      console.error(`MTN API error: ${response.status} ${response.statusText}`);
-      return res.status(response.status).json({
-        error: `MTN API error: ${response.status} ${response.statusText}`,
-        url: url.replace(/([?&])(lat|lng|X|Y|BBOX)=[^&]*/g, '$1$2=***') // Hide sensitive data in logs
-      });
+    res.setHeader('X-Cache', status);
+    res.setHeader('X-Cache-Key', key);
+    res.setHeader('Age', String(age));
+    if (response.status >= 200 && response.status < 300) {
+      res.setHeader('Cache-Control', `public, s-maxage=${cache.ttl}, stale-while-revalidate=${cache.staleTtl}`);
     }
 
-    const contentType = response.headers.get('content-type');
-
-    // For GetMap requests (image overlays), return the image directly
-    if (width && height && format === 'image/png' && contentType && contentType.includes('image')) {
-      const buffer = await response.arrayBuffer();
-      res.setHeader('Content-Type', contentType);
-      res.status(200).send(Buffer.from(buffer));
+    if (response.encoding === 'base64') {
+      res.setHeader('Content-Type', response.contentType);
+      res.status(response.status).send(Buffer.from(response.body, 'base64'));
       return;
     }
 
-    // For other requests, return JSON
-    if (contentType && contentType.includes('application/json')) {
-      const data = await response.json();
-      res.status(200).json(data);
-    } else if (contentType && contentType.includes('text/')) {
-      const text = await response.text();
-      res.status(200).json({
-        type: 'text',
-        content: text,
-        technology,
-        coordinates: { lat: latitude, lng: longitude }
-      });
-    } else {
-      // Handle binary data (like images) for other cases
-      const buffer = await response.arrayBuffer();
-      const base64 = Buffer.from(buffer).toString('base64');
-      res.status(200).json({
-        type: 'binary',
-        content: base64,
-        contentType: contentType || 'application/octet-stream',
-        technology,
-        coordinates: { lat: latitude, lng: longitude }
-      });
-    }
+    res.status(response.status).json(response.body);
 
   } catch (error) {
     console.error('Proxy error:', error);
 
-    if (error.name === 'AbortError' || error.message.includes('timeout')) {
-      return res.status(504).json({ error: 'Request timeout - MTN API too slow' });
+    if (error instanceof CircuitOpenError) {
+      res.setHeader('Retry-After', String(Math.max(1, Math.ceil((error.retryAt - Date.now()) / 1000))));
+      return res.status(503).json({ error: error.message, code: error.code });
+    }
+
+    if (error instanceof ResilienceError) {
+      return res.status(504).json({ error: 'Request timeout - MTN API too slow', code: error.code });
+    }
+
+    // Replay mode without a recording of this request
+    if (error instanceof FixtureMissingError) {
+      return res.status(502).json({ error: error.message, code: error.code });
     }
 
     return res.status(500).json({
@@ -173,4 +91,4 @@ export default async function handler(req, res) {
       details: error.message
     });
   }
-}
\ No newline at end of file
+}
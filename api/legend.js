@@ -0,0 +1,81 @@
+// Vercel API route returning the map legend for one technology's layer/style,
+// taken from GeoServer's GetLegendGraphic
+
+import { UPSTREAM_BUDGETS } from './_lib/budgets.js';
+import { upstreamFetch } from './_lib/fixtureStore.js';
+import { LegendError, buildLegendUrl, parseLegendGraphic } from './_lib/legend.js';
+import { FixtureMissingError } from '../src/shared/recording.js';
+import { CircuitOpenError, ResilienceError, ResilientFetcher } from '../src/shared/resilience.js';
+import { createResponseCache } from './_lib/responseCache.js';
+import { WMS_LAYERS } from '../src/shared/tiles.js';
+import { baseUrlsFromEnv } from './_lib/upstreams.js';
+import { mtnEndpoints } from '../src/shared/upstreams.js';
+
+// Styles change far less often than coverage, so keep legends for a day
+const cache = createResponseCache({ ...process.env, COVERAGE_CACHE_TTL: process.env.LEGEND_CACHE_TTL || '86400' });
+const upstream = new ResilientFetcher({ ...UPSTREAM_BUDGETS.legend, fetchImpl: upstreamFetch });
+
+export default async function handler(req, res) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { technology } = req.query;
+  const url = buildLegendUrl(technology, mtnEndpoints(baseUrlsFromEnv()).geoserver);
+
+  if (!url) {
+    return res.status(400).json({ error: `Unknown technology: ${technology}` });
+  }
+
+  try {
+    const { response, status } = await cache.fetch(`legend:${technology}`, async () => {
+      const upstreamResponse = await upstream.fetch(`legend:${technology}`, url, { headers: { 'Accept': 'application/json' } });
+      if (!upstreamResponse.ok) {
+        return { status: upstreamResponse.status, contentType: 'application/json', body: { error: `MTN legend request failed: ${upstreamResponse.status}` } };
+      }
+
+      // Service exceptions come back as XML with a 200 status, which JSON.parse rejects
+      const text = await upstreamResponse.text();
+      let json;
+      try {
+        json = JSON.parse(text);
+      } catch {
+        throw new LegendError('MTN returned a non-JSON legend');
+      }
+
+      const { layer, style } = WMS_LAYERS[technology];
+      return {
+        status: 200,
+        contentType: 'application/json',
+        body: { technology, layer, style, entries: parseLegendGraphic(json) }
+      };
+    });
+
+    res.setHeader('X-Cache', status);
+    if (response.status !== 200) {
+      return res.status(502).json(response.body);
+    }
+
+    res.setHeader('Cache-Control', `public, max-age=3600, s-maxage=${cache.ttl}, stale-while-revalidate=${cache.staleTtl}`);
+    res.status(200).json(response.body);
+  } catch (error) {
+    console.error('Legend proxy error:', error);
+
+    if (error instanceof LegendError) {
+      return res.status(502).json({ error: error.message });
+    }
+    if (error instanceof CircuitOpenError) {
+      res.setHeader('Retry-After', String(Math.max(1, Math.ceil((error.retryAt - Date.now()) / 1000))));
+      return res.status(503).json({ error: error.message, code: error.code });
+    }
+    if (error instanceof ResilienceError) {
+      return res.status(504).json({ error: 'Legend request timed out', code: error.code });
+    }
+    if (error instanceof FixtureMissingError) {
+      return res.status(502).json({ error: error.message, code: error.code });
+    }
+    return res.status(500).json({ error: 'Failed to fetch legend', details: error.message });
+  }
+}
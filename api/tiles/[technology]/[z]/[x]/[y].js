@@ -0,0 +1,87 @@
+// Vercel API route serving MTN coverage as XYZ map tiles:
+// /api/tiles/{technology}/{z}/{x}/{y}.png -> WMS GetMap in EPSG:900913
+
+import { UPSTREAM_BUDGETS } from '../../../../_lib/budgets.js';
+import { upstreamFetch } from '../../../../_lib/fixtureStore.js';
+import { FixtureMissingError } from '../../../../../src/shared/recording.js';
+import { CircuitOpenError, ResilienceError, ResilientFetcher } from '../../../../../src/shared/resilience.js';
+import { createResponseCache } from '../../../../_lib/responseCache.js';
+import { WMS_LAYERS, buildTileUrl, parseTile, tileIntersectsCoverage } from '../../../../../src/shared/tiles.js';
+import { baseUrlsFromEnv } from '../../../../_lib/upstreams.js';
+import { mtnEndpoints } from '../../../../../src/shared/upstreams.js';
+
+// Tiles are immutable between MTN layer publishes, so cache them for a day
+const cache = createResponseCache({ ...process.env, COVERAGE_CACHE_TTL: process.env.TILE_CACHE_TTL || '86400' });
+const upstream = new ResilientFetcher({ ...UPSTREAM_BUDGETS.tiles, fetchImpl: upstreamFetch });
+
+// 1x1 transparent PNG for tiles outside the coverage extent
+const EMPTY_TILE = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
+  'base64'
+);
+
+export default async function handler(req, res) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { technology, z, x, y } = req.query;
+  const tile = parseTile(z, x, y);
+
+  if (!WMS_LAYERS[technology]) {
+    return res.status(400).json({ error: `Unknown technology: ${technology}` });
+  }
+  if (!tile) {
+    return res.status(400).json({ error: 'Invalid tile coordinates' });
+  }
+
+  const sendTile = (body, cacheStatus) => {
+    res.setHeader('Content-Type', 'image/png');
+    res.setHeader('Cache-Control', `public, max-age=3600, s-maxage=${cache.ttl}, stale-while-revalidate=${cache.staleTtl}`);
+    res.setHeader('X-Cache', cacheStatus);
+    res.status(200).send(body);
+  };
+
+  // No point asking GeoServer for tiles over the ocean or other countries
+  if (!tileIntersectsCoverage(tile.z, tile.x, tile.y)) {
+    return sendTile(EMPTY_TILE, 'EMPTY');
+  }
+
+  try {
+    const url = buildTileUrl(technology, tile.z, tile.x, tile.y, mtnEndpoints(baseUrlsFromEnv()).geoserver);
+    const { response, status } = await cache.fetch(`tile:${technology}:${tile.z}/${tile.x}/${tile.y}`, async () => {
+      const upstreamResponse = await upstream.fetch(`tiles:${technology}`, url, { headers: { 'Accept': 'image/png' } });
+      const contentType = upstreamResponse.headers.get('content-type') || '';
+
+      // GeoServer reports WMS errors as XML with a 200 status
+      if (!upstreamResponse.ok || !contentType.includes('image')) {
+        return { status: upstreamResponse.ok ? 502 : upstreamResponse.status, contentType, body: '' };
+      }
+
+      const buffer = await upstreamResponse.arrayBuffer();
+      return { status: 200, contentType, body: Buffer.from(buffer).toString('base64') };
+    });
+
+    if (response.status !== 200) {
+      return res.status(502).json({ error: `MTN tile request failed: ${response.status}` });
+    }
+
+    sendTile(Buffer.from(response.body, 'base64'), status);
+  } catch (error) {
+    console.error('Tile proxy error:', error);
+
+    if (error instanceof CircuitOpenError) {
+      res.setHeader('Retry-After', String(Math.max(1, Math.ceil((error.retryAt - Date.now()) / 1000))));
+      return res.status(503).json({ error: error.message, code: error.code });
+    }
+    if (error instanceof ResilienceError) {
+      return res.status(504).json({ error: 'Tile request timed out', code: error.code });
+    }
+    if (error instanceof FixtureMissingError) {
+      return res.status(502).json({ error: error.message, code: error.code });
+    }
+    return res.status(500).json({ error: 'Failed to fetch coverage tile', details: error.message });
+  }
+}
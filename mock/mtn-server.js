@@ -0,0 +1,441 @@
+// Local stand-in for MTN's coverage services, for offline development and
+// tests. Answers from fixture polygons (WGS84 GeoJSON with a `technology`,
+// `signal` and `quality` per feature):
+//
+//   /cache/geoserver/wms          WMS GetCapabilities, GetFeatureInfo, GetMap, GetLegendGraphic
+//   /coverage/api/point           coverage point API (GET ?lat&lng or POST { location })
+//   /coverage/api/public/coverage public coverage API
+//   /coverage/v1/availability     consumer availability API
+//   /coverage/v1/signal           consumer signal API
+//   /home/coverage/query          website coverage query
+//
+// Run it with `npm run mock:mtn -- --port 8787 --fixtures <file>` and point
+// MTN_*_BASE_URL (proxy) or VITE_MTN_*_BASE_URL (client) at it.
+
+import http from 'node:http';
+import { readFileSync } from 'node:fs';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import zlib from 'node:zlib';
+import { WMS_LAYERS } from '../src/shared/tiles.js';
+
+export const DEFAULT_FIXTURES = fileURLToPath(new URL('./fixtures/coverage.geojson', import.meta.url));
+
+const TECHNOLOGIES = ['2G', '3G', '4G', '5G', 'UNCAPPED_WIRELESS', 'FIBRE', 'LICENSED_WIRELESS', 'FIXED_LTE'];
+const CELLULAR = ['2G', '3G', '4G', '5G'];
+const ORIGIN_SHIFT = Math.PI * 6378137.0;
+const MAX_IMAGE_SIZE = 2048;
+
+// Same hues as the bundled legends, shaded per signal class
+const STYLE_COLORS = {
+  '2G': '#7A7A7A',
+  '3G': '#2E7DD7',
+  '4G': '#00A651',
+  '5G': '#7B2D8E',
+  'UNCAPPED_WIRELESS': '#F7931E',
+  'FIBRE': '#00A651',
+  'LICENSED_WIRELESS': '#0072BC',
+  'FIXED_LTE': '#00B3AD'
+};
+const SIGNAL_CLASSES = [
+  { signal: 'Good', strength: 'high', opacity: 0.8 },
+  { signal: 'Fair', strength: 'medium', opacity: 0.5 },
+  { signal: 'Poor', strength: 'low', opacity: 0.25 }
+];
+
+/**
+ * Technologies a WMS layer name answers for. Accepts the workspace-qualified
+ * layer, the bare layer name and the mlid; the combined layers cover 2G-5G.
+ */
+function buildLayerIndex() {
+  const index = {};
+  for (const [technology, config] of Object.entries(WMS_LAYERS)) {
+    const technologies = technology === 'ALL' ? CELLULAR : [technology];
+    index[config.layer] = technologies;
+    index[config.layer.replace(/^[^:]+:/, '')] = technologies;
+    index[config.mlid] = Array.from(new Set([...(index[config.mlid] || []), ...technologies]));
+  }
+  return index;
+}
+
+const LAYER_INDEX = buildLayerIndex();
+
+function loadFixtures(fixtures) {
+  const collection = typeof fixtures === 'string' ? JSON.parse(readFileSync(fixtures, 'utf8')) : fixtures;
+  return collection.features.map((feature, index) => {
+    const { technology } = feature.properties || {};
+    if (!TECHNOLOGIES.includes(technology)) {
+      throw new Error(`Fixture feature ${index} has no valid technology`);
+    }
+    return { ...feature, id: feature.id ?? `${WMS_LAYERS[technology].layer.replace(/^[^:]+:/, '')}.${index + 1}` };
+  });
+}
+
+// --- Geometry -------------------------------------------------------------
+
+const isMercator = srs => /900913|3857|102100/.test(srs || '');
+
+function toLngLat(x, y, srs) {
+  if (!isMercator(srs)) return [x, y];
+  return [
+    x / ORIGIN_SHIFT * 180,
+    (2 * Math.atan(Math.exp(y / ORIGIN_SHIFT * Math.PI)) - Math.PI / 2) * 180 / Math.PI
+  ];
+}
+
+function fromLngLat([lng, lat], srs) {
+  if (!isMercator(srs)) return [lng, lat];
+  return [
+    lng / 180 * ORIGIN_SHIFT,
+    Math.log(Math.tan((90 + lat) * Math.PI / 360)) * 6378137.0
+  ];
+}
+
+function polygons(geometry) {
+  if (geometry.type === 'Polygon') return [geometry.coordinates];
+  if (geometry.type === 'MultiPolygon') return geometry.coordinates;
+  return [];
+}
+
+// Even-odd rule over all rings, so holes fall out naturally
+function contains(geometry, lng, lat) {
+  return polygons(geometry).some(rings => {
+    let inside = false;
+    for (const ring of rings) {
+      for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [xi, yi] = ring[i];
+        const [xj, yj] = ring[j];
+        if ((yi > lat) !== (yj > lat) && lng < (xj - xi) * (lat - yi) / (yj - yi) + xi) {
+          inside = !inside;
+        }
+      }
+    }
+    return inside;
+  });
+}
+
+function reproject(geometry, srs) {
+  const convert = coordinates => typeof coordinates[0] === 'number'
+    ? fromLngLat(coordinates, srs)
+    : coordinates.map(convert);
+  return { ...geometry, coordinates: convert(geometry.coordinates) };
+}
+
+// --- PNG ------------------------------------------------------------------
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(bytes) {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type, data) {
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * Encode RGBA pixels as a PNG, one unfiltered scanline per row
+ */
+export function encodePng(width, height, rgba) {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header.set([8, 6, 0, 0, 0], 8); // 8-bit RGBA, no interlace
+
+  const stride = width * 4;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    rgba.copy(raw, y * (stride + 1) + 1, y * stride, (y + 1) * stride);
+  }
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlib.deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+// --- Responses ------------------------------------------------------------
+
+function signalClass(signal) {
+  return SIGNAL_CLASSES.find(entry => entry.signal === signal) || SIGNAL_CLASSES[0];
+}
+
+function serviceException(code, message) {
+  return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    '<ServiceExceptionReport version="1.1.1">' +
+    `<ServiceException code="${code}">${message}</ServiceException>` +
+    '</ServiceExceptionReport>\n';
+}
+
+function capabilities(baseUrl) {
+  const layers = Object.entries(WMS_LAYERS).map(([technology, config]) =>
+    '<Layer queryable="1">' +
+    `<Name>${config.layer}</Name><Title>${technology} coverage (${config.mlid})</Title>` +
+    '<SRS>EPSG:4326</SRS><SRS>EPSG:900913</SRS>' +
+    '<LatLonBoundingBox minx="16" miny="-35" maxx="33" maxy="-22"/>' +
+    `<Style><Name>${config.style}</Name><Title>${config.style}</Title></Style>` +
+    '</Layer>'
+  );
+
+  return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    '<WMT_MS_Capabilities version="1.1.1" xmlns:xlink="http://www.w3.org/1999/xlink"><Service><Name>OGC:WMS</Name><Title>MTN coverage (mock)</Title></Service>' +
+    '<Capability><Request>' +
+    ['GetCapabilities', 'GetMap', 'GetFeatureInfo'].map(name =>
+      `<${name}><DCPType><HTTP><Get><OnlineResource xlink:href="${baseUrl}/cache/geoserver/wms?"/></Get></HTTP></DCPType></${name}>`
+    ).join('') +
+    '</Request><Layer><Title>MTN coverage</Title>' + layers.join('') + '</Layer></Capability>' +
+    '</WMT_MS_Capabilities>\n';
+}
+
+/**
+ * Start the mock on the given port (0 picks a free one)
+ */
+export async function startMockMtnServer({ port = 0, host = '127.0.0.1', fixtures = DEFAULT_FIXTURES } = {}) {
+  const features = loadFixtures(fixtures);
+  const requests = [];
+  let baseUrl = '';
+
+  const featuresAt = (technologies, lng, lat) =>
+    features.filter(feature => technologies.includes(feature.properties.technology) && contains(feature.geometry, lng, lat));
+
+  // One entry per technology in the shape the coverage point API returns
+  const coverageAt = (lat, lng, technologies = TECHNOLOGIES) => technologies.map(type => {
+    const matches = featuresAt([type], lng, lat);
+    if (matches.length === 0) return { type, available: false };
+
+    const best = matches.reduce((a, b) => (b.properties.quality ?? 0) > (a.properties.quality ?? 0) ? b : a);
+    return {
+      type,
+      available: true,
+      strength: signalClass(best.properties.signal).strength,
+      quality: best.properties.quality,
+      area: best.properties.area
+    };
+  });
+
+  const wms = (params, res) => {
+    const request = (params.request || '').toLowerCase();
+
+    if (request === 'getcapabilities') {
+      return send(res, 200, 'application/vnd.ogc.wms_xml', capabilities(baseUrl));
+    }
+
+    const layerName = params.query_layers || params.layers || params.layer || '';
+    const technologies = layerName.split(',').flatMap(name => LAYER_INDEX[name.trim()] || []);
+    if (technologies.length === 0) {
+      return send(res, 200, 'application/vnd.ogc.se_xml', serviceException('LayerNotDefined', `Could not find layer ${layerName}`));
+    }
+
+    if (request === 'getlegendgraphic') {
+      const technology = technologies[0];
+      const classes = CELLULAR.includes(technology) ? SIGNAL_CLASSES : SIGNAL_CLASSES.slice(0, 1);
+      return send(res, 200, 'application/json', JSON.stringify({
+        Legend: [{
+          layerName: layerName,
+          title: `${technology} coverage`,
+          rules: classes.map(entry => ({
+            title: CELLULAR.includes(technology) ? `${entry.signal} coverage` : `${technology} available`,
+            symbolizers: [{ Polygon: { fill: STYLE_COLORS[technology], 'fill-opacity': String(entry.opacity) } }]
+          }))
+        }]
+      }));
+    }
+
+    const bbox = (params.bbox || '').split(',').map(Number);
+    const width = Math.min(parseInt(params.width, 10) || 256, MAX_IMAGE_SIZE);
+    const height = Math.min(parseInt(params.height, 10) || 256, MAX_IMAGE_SIZE);
+    const srs = params.srs || params.crs || 'EPSG:4326';
+    if (bbox.length !== 4 || bbox.some(value => !Number.isFinite(value))) {
+      return send(res, 200, 'application/vnd.ogc.se_xml', serviceException('InvalidParameterValue', 'BBOX is missing or invalid'));
+    }
+
+    // Centre of pixel (px, py) in the request bbox, as lng/lat
+    const [minX, minY, maxX, maxY] = bbox;
+    const pixelToLngLat = (px, py) => toLngLat(
+      minX + (px + 0.5) / width * (maxX - minX),
+      maxY - (py + 0.5) / height * (maxY - minY),
+      srs
+    );
+
+    if (request === 'getfeatureinfo') {
+      const [lng, lat] = pixelToLngLat(Number(params.x ?? params.i ?? 0), Number(params.y ?? params.j ?? 0));
+      const count = parseInt(params.feature_count, 10) || 1;
+      const matches = featuresAt(technologies, lng, lat).slice(0, count);
+      const format = params.info_format || 'text/plain';
+
+      if (format.includes('json')) {
+        return send(res, 200, 'application/json', JSON.stringify({
+          type: 'FeatureCollection',
+          features: matches.map(feature => ({
+            type: 'Feature',
+            id: feature.id,
+            geometry: reproject(feature.geometry, srs),
+            properties: feature.properties
+          }))
+        }));
+      }
+
+      if (matches.length === 0) {
+        return send(res, 200, 'text/plain', 'no features were found\n');
+      }
+      const text = matches.map(feature => [
+        `Results for FeatureType '${WMS_LAYERS[feature.properties.technology].layer}':`,
+        '--------------------------------------------',
+        `fid = ${feature.id}`,
+        ...Object.entries(feature.properties).map(([key, value]) => `${key} = ${value}`),
+        `the_geom = [GEOMETRY (${feature.geometry.type}) with ${polygons(feature.geometry).flat().reduce((n, ring) => n + ring.length, 0)} points]`,
+        '--------------------------------------------'
+      ].join('\n')).join('\n');
+      return send(res, 200, 'text/plain', `${text}\n`);
+    }
+
+    if (request === 'getmap') {
+      const transparent = String(params.transparent).toLowerCase() === 'true';
+      const rgba = Buffer.alloc(width * height * 4, transparent ? 0 : 255);
+      const layers = features.filter(feature => technologies.includes(feature.properties.technology));
+
+      for (let py = 0; py < height; py++) {
+        for (let px = 0; px < width; px++) {
+          const [lng, lat] = pixelToLngLat(px, py);
+          const hit = layers.find(feature => contains(feature.geometry, lng, lat));
+          if (!hit) continue;
+
+          const color = parseInt(STYLE_COLORS[hit.properties.technology].slice(1), 16);
+          const offset = (py * width + px) * 4;
+          rgba[offset] = (color >> 16) & 0xff;
+          rgba[offset + 1] = (color >> 8) & 0xff;
+          rgba[offset + 2] = color & 0xff;
+          rgba[offset + 3] = Math.round(signalClass(hit.properties.signal).opacity * 255);
+        }
+      }
+      return send(res, 200, 'image/png', encodePng(width, height, rgba));
+    }
+
+    return send(res, 200, 'application/vnd.ogc.se_xml', serviceException('OperationNotSupported', `Unknown request ${params.request}`));
+  };
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    requests.push(`${req.method} ${url.pathname}${url.search}`);
+
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    if (req.method === 'OPTIONS') {
+      return send(res, 204, 'text/plain', '');
+    }
+
+    // GeoServer treats parameter names case-insensitively
+    const params = {};
+    url.searchParams.forEach((value, key) => { params[key.toLowerCase()] = value; });
+
+    let body = {};
+    if (req.method === 'POST') {
+      const chunks = [];
+      for await (const chunk of req) chunks.push(chunk);
+      try {
+        body = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+      } catch {
+        return sendJson(res, 400, { error: 'Body is not valid JSON' });
+      }
+    }
+
+    const lat = Number(body.location?.lat ?? params.lat ?? params.latitude);
+    const lng = Number(body.location?.lng ?? params.lng ?? params.longitude);
+    const hasPoint = Number.isFinite(lat) && Number.isFinite(lng);
+
+    switch (url.pathname) {
+      case '/cache/geoserver/wms':
+      case '/geoserver/wms':
+        return wms(params, res);
+
+      case '/coverage/api/point': {
+        if (!hasPoint) return sendJson(res, 400, { error: 'lat and lng are required' });
+        const requested = Array.isArray(body.coverageTypes) ? body.coverageTypes.filter(type => TECHNOLOGIES.includes(type)) : TECHNOLOGIES;
+        return sendJson(res, 200, coverageAt(lat, lng, requested));
+      }
+
+      case '/coverage/api/public/coverage':
+      case '/home/coverage/query':
+        if (!hasPoint) return sendJson(res, 400, { error: 'lat and lng are required' });
+        return sendJson(res, 200, { coordinates: { lat, lng }, coverage: coverageAt(lat, lng) });
+
+      case '/coverage/v1/availability': {
+        if (!hasPoint) return sendJson(res, 400, { error: 'latitude and longitude are required' });
+        const service = params.service && TECHNOLOGIES.includes(params.service) ? params.service : null;
+        const coverage = coverageAt(lat, lng, service ? [service] : TECHNOLOGIES);
+        return sendJson(res, 200, {
+          service: service || 'ALL',
+          available: coverage.some(entry => entry.available),
+          services: Object.fromEntries(coverage.map(entry => [entry.type, entry.available]))
+        });
+      }
+
+      case '/coverage/v1/signal': {
+        if (!hasPoint) return sendJson(res, 400, { error: 'latitude and longitude are required' });
+        const signal = Object.fromEntries(coverageAt(lat, lng, CELLULAR).map(entry => [
+          entry.type,
+          entry.available ? SIGNAL_CLASSES.find(({ strength }) => strength === entry.strength).signal : 'None'
+        ]));
+        return sendJson(res, 200, { coordinates: { lat, lng }, signal });
+      }
+
+      default:
+        return sendJson(res, 404, { error: `No mock for ${url.pathname}` });
+    }
+  });
+
+  await new Promise(resolve => server.listen(port, host, resolve));
+  baseUrl = `http://${host}:${server.address().port}`;
+
+  return {
+    baseUrl,
+    requests,
+    close: () => new Promise(resolve => server.close(() => resolve()))
+  };
+}
+
+function send(res, status, contentType, body) {
+  res.statusCode = status;
+  res.setHeader('Content-Type', contentType);
+  res.end(body);
+}
+
+function sendJson(res, status, body) {
+  send(res, status, 'application/json', JSON.stringify(body));
+}
+
+// CLI: node mock/mtn-server.js [--port 8787] [--host 127.0.0.1] [--fixtures file.geojson]
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const args = process.argv.slice(2);
+  const option = (name, fallback) => {
+    const index = args.indexOf(`--${name}`);
+    return index >= 0 && args[index + 1] ? args[index + 1] : fallback;
+  };
+
+  const mock = await startMockMtnServer({
+    port: Number(option('port', process.env.MOCK_MTN_PORT || 8787)),
+    host: option('host', '127.0.0.1'),
+    fixtures: option('fixtures', DEFAULT_FIXTURES)
+  });
+
+  console.log(`Mock MTN services on ${mock.baseUrl}`);
+  console.log(`  proxy:  MTN_GIS_BASE_URL=${mock.baseUrl} MTN_API_BASE_URL=${mock.baseUrl} MTN_WEB_BASE_URL=${mock.baseUrl}`);
+  console.log(`  client: VITE_MTN_GIS_BASE_URL=${mock.baseUrl} VITE_MTN_API_BASE_URL=${mock.baseUrl} VITE_MTN_WEB_BASE_URL=${mock.baseUrl}`);
+}
@@ -1,17 +1,48 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { AddressInput } from './components/AddressInput';
 import { TechnologyToggle } from './components/TechnologyToggle';
 import { CoverageDisplay } from './components/CoverageDisplay';
 import { GoogleMap } from './components/GoogleMap';
-import { CoverageResult, ToggleState, TechnologyType } from './types';
+import { BulkCoverageChecker } from './components/BulkCoverageChecker';
+import { CoverageComparison } from './components/CoverageComparison';
+import { HistorySidebar } from './components/HistorySidebar';
+import { RecordingStatus } from './components/RecordingStatus';
+import { TaranaDataset } from './components/TaranaDataset';
+import { LineOfSightPanel } from './components/LineOfSightPanel';
+import { CoverageCheckOptions, CoverageResult, OverlayState, ToggleState, TechnologyType } from './types';
+import { coverageRegistry } from './utils/coverageProviders';
+import { MAX_COMPARE_LOCATIONS } from './utils/coverageComparison';
+import { DEFAULT_OVERLAYS, overlayOrder } from './utils/coverageOverlay';
+import { COVERAGE_DISCLAIMER, MapSnapshot, buildCoverageReport, renderMapSnapshot } from './utils/coverageReport';
+import { downloadBlob } from './utils/exportFiles';
 import { apiClient } from './utils/apiClient';
-import { Zap, MapPin, Settings, RefreshCw } from 'lucide-react';
+import { CoverageChange, HistoryEntry, diffCoverage, historyId, locationHistory } from './utils/locationHistory';
+import {
+  PermalinkState,
+  changedOverlays,
+  decodePermalink,
+  encodePermalink,
+  restoreOverlays,
+  toToggleState
+} from './utils/permalink';
+import { provinceResolver } from './utils/provinceResolver';
+import { Zap, MapPin, Settings, RefreshCw, Link2, Check } from 'lucide-react';
 import clsx from 'clsx';
 
+const DEFAULT_ZOOM = 12;
+const CHECK_ZOOM = 14;
+
 function App() {
   const [result, setResult] = useState<CoverageResult | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [availableTechnologies, setAvailableTechnologies] = useState<TechnologyType[]>([]);
+  const [comparedResults, setComparedResults] = useState<CoverageResult[]>([]);
+  const [overlays, setOverlays] = useState<OverlayState>(DEFAULT_OVERLAYS);
+  const [mapZoom, setMapZoom] = useState(DEFAULT_ZOOM);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [isGeneratingReport, setIsGeneratingReport] = useState(false);
+  const [history, setHistory] = useState<HistoryEntry[]>(() => locationHistory.list());
+  const [recheck, setRecheck] = useState<{ since: string; changes: CoverageChange[] } | null>(null);
   const [toggleState, setToggleState] = useState<ToggleState>({
     '2G': false,
     '3G': false,
@@ -23,69 +54,174 @@ function App() {
     'FIXED_LTE': false,
   });
 
-  const handleAddressSelect = async (address: string, lat: number, lng: number) => {
+  // Results shown this session, by history id, so back/forward can restore
+  // them without checking again
+  const shownResults = useRef(new Map<string, CoverageResult>());
+
+  // A permalink restores its own toggles, zoom and overlays instead of the defaults
+  const showResult = (coverage: CoverageResult, permalink?: PermalinkState) => {
+    setResult(coverage);
+    shownResults.current.set(historyId(coverage.coordinates.lat, coverage.coordinates.lng), coverage);
+
+    // Extract available technologies from the merged provider results
+    const technologies: TechnologyType[] = (coverage.technologies || [])
+      .filter(tech => tech.available)
+      .map(tech => tech.type);
+
+    setAvailableTechnologies(technologies);
+
+    if (permalink) {
+      setToggleState(toToggleState(permalink.technologies));
+      setOverlays(restoreOverlays(permalink.overlays));
+      setMapZoom(permalink.zoom ?? CHECK_ZOOM);
+      return;
+    }
+
+    setMapZoom(CHECK_ZOOM);
+
+    // Auto-select all available technologies
+    const newToggleState: ToggleState = {
+      '2G': false,
+      '3G': false,
+      '4G': false,
+      '5G': false,
+      'UNCAPPED_WIRELESS': false,
+      'FIBRE': false,
+      'LICENSED_WIRELESS': false,
+      'FIXED_LTE': false,
+    };
+
+    technologies.forEach(tech => {
+      newToggleState[tech] = true;
+    });
+
+    setToggleState(newToggleState);
+  };
+
+  // Only new checks are recorded; restoring one for back/forward passes record: false
+  const checkLocation = async (
+    address: string,
+    lat: number,
+    lng: number,
+    options?: CoverageCheckOptions,
+    permalink?: PermalinkState,
+    record = true
+  ) => {
     setIsLoading(true);
     try {
-      const coverage = await apiClient.checkCoverage(lat, lng, address);
-      setResult(coverage);
-
-      // Extract available technologies from coverage results
-      const technologies: TechnologyType[] = [];
-
-      // Safety check for coverage data
-      if (coverage.coverage && typeof coverage.coverage === 'object') {
-        Object.values(coverage.coverage).forEach(source => {
-          if (source?.types && Array.isArray(source.types)) {
-            source.types.forEach((tech: any) => {
-              if (tech.available && !technologies.includes(tech.type)) {
-                technologies.push(tech.type);
-              }
-            });
-          }
-        });
-      }
-
-      setAvailableTechnologies(technologies);
-
-      // Auto-select all available technologies
-      const newToggleState = {
-        '2G': false,
-        '3G': false,
-        '4G': false,
-        '5G': false,
-        'UNCAPPED_WIRELESS': false,
-        'FIBRE': false,
-        'LICENSED_WIRELESS': false,
-        'FIXED_LTE': false,
-      } as ToggleState;
-
-      technologies.forEach(tech => {
-        newToggleState[tech] = true;
-      });
+      const coverage = await coverageRegistry.checkCoverage(lat, lng, address, options);
 
-      setToggleState(newToggleState);
+      // Remember the check and compare it with the last snapshot of the same site
+      if (record) {
+        const { previous } = locationHistory.record(coverage);
+        setHistory(locationHistory.list());
+        setRecheck(previous
+          ? { since: previous.checkedAt, changes: diffCoverage(previous.result, coverage) }
+          : null);
+      } else {
+        setRecheck(null);
+      }
 
+      showResult(coverage, permalink);
     } catch (error) {
       console.error('Coverage check failed:', error);
       setResult({
         success: false,
         coordinates: { lat, lng },
         address,
-        province: 'Unknown',
+        province: provinceResolver.resolve(lat, lng),
         timestamp: new Date().toISOString(),
         coverage: {},
         errors: [{ endpoint: 'api', error: error instanceof Error ? error.message : 'Unknown error' }]
       });
       setAvailableTechnologies([]);
+      setRecheck(null);
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleAddressSelect = (
+    address: string,
+    lat: number,
+    lng: number,
+    options?: CoverageCheckOptions,
+    permalink?: PermalinkState
+  ) => checkLocation(address, lat, lng, options, permalink);
+
+  // Open the check named in the URL, and follow browser back/forward between
+  // checks. Going back or forward shows the result already seen this session,
+  // or the one in history, and only checks again when neither is available.
+  useEffect(() => {
+    const openPermalink = (event?: PopStateEvent) => {
+      const permalink = decodePermalink(window.location.search);
+      if (!permalink) {
+        setResult(null);
+        setAvailableTechnologies([]);
+        setRecheck(null);
+        return;
+      }
+
+      if (!event) {
+        handleAddressSelect(permalink.address, permalink.lat, permalink.lng, undefined, permalink);
+        return;
+      }
+
+      const id = historyId(permalink.lat, permalink.lng);
+      const seen = shownResults.current.get(id) ?? locationHistory.get(id)?.result;
+      if (seen) {
+        setRecheck(null);
+        showResult(seen, permalink);
+      } else {
+        checkLocation(permalink.address, permalink.lat, permalink.lng, undefined, permalink, false);
+      }
+    };
+
+    if (window.location.search) {
+      openPermalink();
+    }
+
+    window.addEventListener('popstate', openPermalink);
+    return () => window.removeEventListener('popstate', openPermalink);
+  }, []);
+
+  // Keep the URL in step with the view: a new location adds a history entry,
+  // changing toggles, zoom or overlays for the same location replaces it
+  useEffect(() => {
+    if (!result) return;
+
+    const { lat, lng } = result.coordinates;
+    const search = encodePermalink({
+      address: result.address,
+      lat,
+      lng,
+      technologies: (Object.keys(toggleState) as TechnologyType[]).filter(tech => toggleState[tech]),
+      zoom: mapZoom,
+      overlays: changedOverlays(overlays)
+    });
+    if (search === window.location.search) return;
+
+    const current = decodePermalink(window.location.search);
+    const sameLocation = current !== null &&
+      current.lat.toFixed(6) === lat.toFixed(6) &&
+      current.lng.toFixed(6) === lng.toFixed(6);
+
+    if (sameLocation) {
+      window.history.replaceState(null, '', search);
+    } else {
+      window.history.pushState(null, '', search);
+    }
+  }, [result, toggleState, mapZoom, overlays]);
+
   const handleMapLocationSelect = (lat: number, lng: number, address: string) => {
     handleAddressSelect(address, lat, lng);
   };
 
+  // An uploaded export is meant to be used, so include Tarana in checks from now on
+  const handleTaranaLoaded = () => {
+    coverageRegistry.setEnabled('tarana', true);
+  };
+
   const handleTechnologyToggle = (technology: TechnologyType, enabled: boolean) => {
     setToggleState(prev => ({
       ...prev,
@@ -93,10 +229,86 @@ function App() {
     }));
   };
 
+  const isSameLocation = (a: CoverageResult, b: CoverageResult) =>
+    a.coordinates.lat === b.coordinates.lat && a.coordinates.lng === b.coordinates.lng;
+
+  const comparisonStatus = result && comparedResults.some(compared => isSameLocation(compared, result))
+    ? 'added'
+    : comparedResults.length >= MAX_COMPARE_LOCATIONS ? 'full' : 'available';
+
+  const handleAddToComparison = () => {
+    if (!result || comparisonStatus !== 'available') return;
+    setComparedResults(prev => [...prev, result]);
+  };
+
+  const handleDownloadReport = async () => {
+    if (!result) return;
+    setIsGeneratingReport(true);
+
+    try {
+      // The report still goes out without a map if the snapshot fails
+      let snapshot: MapSnapshot | null = null;
+      try {
+        snapshot = await renderMapSnapshot(result, {
+          technologies: overlayOrder(toggleState, overlays),
+          overlays,
+          tileUrl: (tech, z, x, y) => apiClient.getTileUrl(tech, z, x, y),
+          zoom: Math.min(Math.max(mapZoom, 10), 16)
+        });
+      } catch (error) {
+        console.warn('Map snapshot failed, generating report without it:', error);
+      }
+
+      const slug = result.address.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40);
+      downloadBlob(buildCoverageReport(result, { snapshot }), `coverage-report-${slug || 'location'}.pdf`);
+    } finally {
+      setIsGeneratingReport(false);
+    }
+  };
+
+  const handleRemoveFromComparison = (index: number) => {
+    setComparedResults(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleRecheck = (entry: HistoryEntry) => {
+    handleAddressSelect(entry.address, entry.lat, entry.lng, { forceRefresh: true });
+  };
+
+  const handlePin = (id: string, name: string, tags: string[]) => {
+    locationHistory.pin(id, name, tags);
+    setHistory(locationHistory.list());
+  };
+
+  const handleUnpin = (id: string) => {
+    locationHistory.unpin(id);
+    setHistory(locationHistory.list());
+  };
+
+  const handleRemoveHistory = (id: string) => {
+    locationHistory.remove(id);
+    setHistory(locationHistory.list());
+  };
+
+  const handleClearRecent = () => {
+    locationHistory.clearRecent();
+    setHistory(locationHistory.list());
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (error) {
+      console.error('Could not copy link:', error);
+    }
+  };
+
   const handleRefresh = () => {
     if (result) {
       const { lat, lng } = result.coordinates;
-      handleAddressSelect(result.address, lat, lng);
+      // Bypass the coverage cache so Refresh always re-queries upstream
+      handleAddressSelect(result.address, lat, lng, { forceRefresh: true });
     }
   };
 
@@ -117,17 +329,27 @@ function App() {
             </div>
 
             {result && (
-              <button
-                onClick={handleRefresh}
-                disabled={isLoading}
-                className={clsx(
-                  "flex items-center space-x-2 px-4 py-2 rounded-xl bg-yellow-50 border border-yellow-200 text-yellow-700 hover:bg-yellow-100 hover:border-yellow-300 transition-all duration-200 font-medium",
-                  isLoading && "opacity-50 cursor-not-allowed"
-                )}
-              >
-                <RefreshCw className={clsx("w-4 h-4", isLoading && "animate-spin")} />
-                <span>Refresh</span>
-              </button>
+              <div className="flex items-center space-x-3">
+                <button
+                  onClick={handleCopyLink}
+                  className="flex items-center space-x-2 px-4 py-2 rounded-xl bg-white border border-gray-200 text-gray-700 hover:bg-gray-50 hover:border-gray-300 transition-all duration-200 font-medium"
+                  title="Copy a link to this check"
+                >
+                  {linkCopied ? <Check className="w-4 h-4 text-green-600" /> : <Link2 className="w-4 h-4" />}
+                  <span>{linkCopied ? 'Copied' : 'Copy link'}</span>
+                </button>
+                <button
+                  onClick={handleRefresh}
+                  disabled={isLoading}
+                  className={clsx(
+                    "flex items-center space-x-2 px-4 py-2 rounded-xl bg-yellow-50 border border-yellow-200 text-yellow-700 hover:bg-yellow-100 hover:border-yellow-300 transition-all duration-200 font-medium",
+                    isLoading && "opacity-50 cursor-not-allowed"
+                  )}
+                >
+                  <RefreshCw className={clsx("w-4 h-4", isLoading && "animate-spin")} />
+                  <span>Refresh</span>
+                </button>
+              </div>
             )}
           </div>
         </div>
@@ -136,8 +358,8 @@ function App() {
       <main className="w-full max-w-[1600px] mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <div className="flex gap-8">
           {/* Side Menu Bar - Technology Cards */}
-          <div className="w-80 flex-shrink-0">
-            <div className="card h-fit sticky top-24">
+          <div className="w-80 flex-shrink-0 space-y-8">
+            <div className="card h-fit">
               <div className="p-8">
                 <div className="flex items-center space-x-3 mb-2">
                   <Settings className="w-6 h-6 text-yellow-600" />
@@ -154,6 +376,19 @@ function App() {
                 />
               </div>
             </div>
+
+            <HistorySidebar
+              entries={history}
+              activeId={result ? historyId(result.coordinates.lat, result.coordinates.lng) : undefined}
+              isLoading={isLoading}
+              onRecheck={handleRecheck}
+              onPin={handlePin}
+              onUnpin={handleUnpin}
+              onRemove={handleRemoveHistory}
+              onClearRecent={handleClearRecent}
+            />
+
+            <TaranaDataset onLoaded={handleTaranaLoaded} />
           </div>
 
           {/* Main Content Area */}
@@ -197,6 +432,12 @@ function App() {
                 <div className="rounded-xl overflow-hidden border border-gray-200">
                   <GoogleMap
                     result={result}
+                    toggleState={toggleState}
+                    overlays={overlays}
+                    onOverlaysChange={setOverlays}
+                    zoom={mapZoom}
+                    onZoomChange={setMapZoom}
+                    comparedLocations={comparedResults}
                     onLocationSelect={handleMapLocationSelect}
                     height="500px"
                     className="xl:h-96"
@@ -210,7 +451,27 @@ function App() {
               result={result}
               toggleState={toggleState}
               isLoading={isLoading}
+              onAddToComparison={handleAddToComparison}
+              comparisonStatus={comparisonStatus}
+              onDownloadReport={handleDownloadReport}
+              isGeneratingReport={isGeneratingReport}
+              recheck={recheck}
             />
+
+            {/* Terrain check for fixed wireless */}
+            {result && (toggleState.UNCAPPED_WIRELESS || toggleState.LICENSED_WIRELESS) && (
+              <LineOfSightPanel result={result} />
+            )}
+
+            {/* Location Comparison */}
+            <CoverageComparison
+              results={comparedResults}
+              onRemove={handleRemoveFromComparison}
+              onClear={() => setComparedResults([])}
+            />
+
+            {/* Bulk CSV Checks */}
+            <BulkCoverageChecker />
           </div>
         </div>
 
@@ -266,11 +527,12 @@ function App() {
               </div>
               <span className="text-lg font-semibold text-gray-900">MTN Coverage Checker</span>
             </div>
+            <RecordingStatus />
             <p className="text-gray-600 mb-2">
               Powered by MTN South Africa APIs
             </p>
             <p className="text-sm text-gray-500">
-              Coverage data is approximate and may vary based on environmental factors
+              {COVERAGE_DISCLAIMER}
             </p>
           </div>
         </div>
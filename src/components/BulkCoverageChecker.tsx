@@ -0,0 +1,207 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  BulkJob,
+  BulkProgress,
+  bulkCoverageRunner,
+  createBulkJob,
+  exportBulkCSV,
+  exportBulkXLSX,
+  getBulkProgress
+} from '../utils/bulkCoverage';
+import { downloadBlob } from '../utils/exportFiles';
+import clsx from 'clsx';
+import { Upload, Play, Pause, Download, RotateCcw, Trash2, FileSpreadsheet } from 'lucide-react';
+
+interface BulkCoverageCheckerProps {
+  className?: string;
+}
+
+export const BulkCoverageChecker: React.FC<BulkCoverageCheckerProps> = ({ className }) => {
+  const [job, setJob] = useState<BulkJob | null>(null);
+  const [progress, setProgress] = useState<BulkProgress | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const abortRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Restore an interrupted job from a previous session
+  useEffect(() => {
+    const saved = bulkCoverageRunner.loadJob();
+    if (saved) {
+      setJob(saved);
+      setProgress(getBulkProgress(saved));
+    }
+  }, []);
+
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const newJob = createBulkJob(await file.text(), file.name);
+      bulkCoverageRunner.saveJob(newJob);
+      setJob(newJob);
+      setProgress(getBulkProgress(newJob));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read CSV file');
+    }
+  };
+
+  const handleStart = async () => {
+    if (!job) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+
+    try {
+      await bulkCoverageRunner.run(job, {
+        signal: controller.signal,
+        onProgress: (updated, current) => {
+          setJob({ ...updated });
+          setProgress(current);
+        }
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Bulk check failed');
+    } finally {
+      setIsRunning(false);
+      abortRef.current = null;
+    }
+  };
+
+  const handlePause = () => {
+    abortRef.current?.abort();
+  };
+
+  const handleRetryFailed = () => {
+    if (!job) return;
+    const updated = bulkCoverageRunner.resetFailed(job);
+    setJob({ ...updated });
+    setProgress(getBulkProgress(updated));
+  };
+
+  const handleClear = () => {
+    bulkCoverageRunner.clearJob();
+    setJob(null);
+    setProgress(null);
+    setError(null);
+  };
+
+  const baseName = job?.fileName.replace(/\.csv$/i, '') || 'coverage';
+
+  const handleDownloadCSV = () => {
+    if (job) downloadBlob(exportBulkCSV(job), `${baseName}-coverage.csv`);
+  };
+
+  const handleDownloadXLSX = async () => {
+    if (job) downloadBlob(await exportBulkXLSX(job), `${baseName}-coverage.xlsx`);
+  };
+
+  const percent = progress && progress.total > 0
+    ? Math.round(((progress.done + progress.failed) / progress.total) * 100)
+    : 0;
+
+  return (
+    <div className={clsx("card", className)}>
+      <div className="card-header">
+        <div className="flex items-center space-x-3">
+          <FileSpreadsheet className="w-5 h-5 text-yellow-600" />
+          <h3 className="text-lg font-semibold">Bulk Coverage Check</h3>
+        </div>
+        <p className="text-sm text-gray-600">
+          Upload a CSV with an <code>address</code> column or <code>lat</code>/<code>lng</code> columns
+        </p>
+      </div>
+      <div className="card-content space-y-4">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isRunning}
+            className="btn-outline"
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            Upload CSV
+          </button>
+
+          {job && !isRunning && progress && progress.pending > 0 && (
+            <button onClick={handleStart} className="btn-primary">
+              <Play className="w-4 h-4 mr-2" />
+              {progress.done + progress.failed > 0 ? 'Resume' : 'Start'}
+            </button>
+          )}
+
+          {isRunning && (
+            <button onClick={handlePause} className="btn-secondary">
+              <Pause className="w-4 h-4 mr-2" />
+              Pause
+            </button>
+          )}
+
+          {job && !isRunning && progress && progress.failed > 0 && (
+            <button onClick={handleRetryFailed} className="btn-outline">
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Retry Failed
+            </button>
+          )}
+
+          {job && !isRunning && (
+            <button onClick={handleClear} className="btn-outline">
+              <Trash2 className="w-4 h-4 mr-2" />
+              Clear
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <p className="text-sm text-red-600">{error}</p>
+        )}
+
+        {job && progress && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm text-gray-600">
+              <span>{job.fileName}</span>
+              <span>
+                {progress.done} done, {progress.failed} failed, {progress.pending} pending
+              </span>
+            </div>
+            <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-yellow-500 transition-all duration-200"
+                style={{ width: `${percent}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        {job && progress && progress.done + progress.failed > 0 && (
+          <div className="flex flex-wrap gap-2">
+            <button onClick={handleDownloadCSV} disabled={isRunning} className="btn-secondary">
+              <Download className="w-4 h-4 mr-2" />
+              Download CSV
+            </button>
+            <button onClick={handleDownloadXLSX} disabled={isRunning} className="btn-secondary">
+              <Download className="w-4 h-4 mr-2" />
+              Download XLSX
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+import React from 'react';
+import { CoverageResult } from '../types';
+import {
+  MAX_COMPARE_LOCATIONS,
+  buildComparison,
+  comparisonLabel,
+  exportComparisonCSV,
+  exportComparisonXLSX
+} from '../utils/coverageComparison';
+import { LAYER_LABELS } from '../utils/coverageOverlay';
+import { downloadBlob } from '../utils/exportFiles';
+import { exportGeoJSON, exportKML } from '../utils/geoExport';
+import clsx from 'clsx';
+import { CheckCircle, XCircle, Columns, Download, Trash2, X, Star, Globe } from 'lucide-react';
+
+interface CoverageComparisonProps {
+  results: CoverageResult[];
+  onRemove: (index: number) => void;
+  onClear: () => void;
+  className?: string;
+}
+
+const strengthColors = {
+  high: 'text-green-600 bg-green-100',
+  medium: 'text-yellow-600 bg-yellow-100',
+  low: 'text-red-600 bg-red-100'
+};
+
+export const CoverageComparison: React.FC<CoverageComparisonProps> = ({
+  results,
+  onRemove,
+  onClear,
+  className
+}) => {
+  if (results.length === 0) return null;
+
+  const rows = buildComparison(results);
+  const fileName = `coverage-comparison-${new Date().toISOString().slice(0, 10)}`;
+
+  const handleDownloadCSV = () => {
+    downloadBlob(exportComparisonCSV(results), `${fileName}.csv`);
+  };
+
+  const handleDownloadXLSX = async () => {
+    downloadBlob(await exportComparisonXLSX(results), `${fileName}.xlsx`);
+  };
+
+  const handleDownloadGeoJSON = () => {
+    downloadBlob(exportGeoJSON(results), `${fileName}.geojson`);
+  };
+
+  const handleDownloadKML = () => {
+    downloadBlob(exportKML(results), `${fileName}.kml`);
+  };
+
+  return (
+    <div className={clsx("card", className)}>
+      <div className="card-header">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <Columns className="w-5 h-5 text-yellow-600" />
+            <h3 className="text-lg font-semibold">Compare Locations</h3>
+          </div>
+          <span className="text-sm text-gray-500">
+            {results.length} of {MAX_COMPARE_LOCATIONS}
+          </span>
+        </div>
+        <p className="text-sm text-gray-600">
+          Check another address and add it to compare up to {MAX_COMPARE_LOCATIONS} locations
+        </p>
+      </div>
+      <div className="card-content space-y-4">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className="py-2 pr-4 text-left font-medium text-gray-500">Technology</th>
+                {results.map((result, index) => (
+                  <th key={`${result.coordinates.lat},${result.coordinates.lng}`} className="py-2 px-3 text-left align-top">
+                    <div className="flex items-start justify-between space-x-2">
+                      <div>
+                        <span className="inline-flex items-center justify-center w-5 h-5 mr-1 rounded-full bg-blue-600 text-white text-xs">
+                          {comparisonLabel(index)}
+                        </span>
+                        <span className="font-medium text-gray-900">{result.address}</span>
+                        <div className="text-xs font-normal text-gray-500">{result.province}</div>
+                      </div>
+                      <button
+                        onClick={() => onRemove(index)}
+                        className="p-0.5 text-gray-400 hover:text-gray-700"
+                        title="Remove from comparison"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.technology} className="border-b border-gray-100">
+                  <td className="py-2 pr-4 font-medium text-gray-900">{LAYER_LABELS[row.technology]}</td>
+                  {row.cells.map((cell, index) => (
+                    <td
+                      key={index}
+                      className={clsx("py-2 px-3", row.best.includes(index) && "bg-green-50")}
+                    >
+                      {!cell ? (
+                        <span className="text-xs text-gray-400">Not reported</span>
+                      ) : cell.available ? (
+                        <div className="flex items-center space-x-2">
+                          <CheckCircle className="w-4 h-4 text-green-600" />
+                          {cell.strength && (
+                            <span className={clsx("px-2 py-0.5 rounded-full text-xs font-medium", strengthColors[cell.strength])}>
+                              {cell.strength}
+                            </span>
+                          )}
+                          {cell.quality !== undefined && (
+                            <span className="text-xs text-gray-500">{cell.quality}%</span>
+                          )}
+                          {row.best.includes(index) && (
+                            <Star className="w-3 h-3 text-yellow-500" aria-label="Best" />
+                          )}
+                        </div>
+                      ) : (
+                        <XCircle className="w-4 h-4 text-red-600" />
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <button onClick={handleDownloadCSV} className="btn-secondary">
+            <Download className="w-4 h-4 mr-2" />
+            Download CSV
+          </button>
+          <button onClick={handleDownloadXLSX} className="btn-secondary">
+            <Download className="w-4 h-4 mr-2" />
+            Download XLSX
+          </button>
+          <button onClick={handleDownloadGeoJSON} className="btn-secondary">
+            <Globe className="w-4 h-4 mr-2" />
+            GeoJSON
+          </button>
+          <button onClick={handleDownloadKML} className="btn-secondary">
+            <Globe className="w-4 h-4 mr-2" />
+            KML
+          </button>
+          <button onClick={onClear} className="btn-outline">
+            <Trash2 className="w-4 h-4 mr-2" />
+            Clear
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,10 @@
 import React from 'react';
 import { CoverageResult, TechnologyType, ToggleState } from '../types';
+import { getTechnologyCoverage } from '../utils/coverageNormalizer';
+import { downloadBlob } from '../utils/exportFiles';
+import { formatAge } from '../utils/format';
+import { exportGeoJSON, exportKML } from '../utils/geoExport';
+import { CoverageChange } from '../utils/locationHistory';
 import clsx from 'clsx';
 import {
   CheckCircle,
@@ -12,16 +17,34 @@ import {
   Smartphone,
   Router,
   Cable,
-  Zap
+  Zap,
+  Radio,
+  History,
+  Columns,
+  GitCompare,
+  FileText,
+  Globe
 } from 'lucide-react';
 
 interface CoverageDisplayProps {
   result: CoverageResult | null;
   toggleState: ToggleState;
   isLoading?: boolean;
+  onAddToComparison?: () => void;
+  comparisonStatus?: 'available' | 'added' | 'full';
+  onDownloadReport?: () => void;
+  isGeneratingReport?: boolean;
+  recheck?: { since: string; changes: CoverageChange[] } | null;
   className?: string;
 }
 
+const changeDescriptions: Record<CoverageChange['kind'], string> = {
+  gained: 'now available',
+  lost: 'no longer available',
+  strength: 'signal changed',
+  quality: 'quality changed'
+};
+
 const technologyIcons: Record<TechnologyType, React.ComponentType<{ className?: string }>> = {
   '2G': Signal,
   '3G': Smartphone,
@@ -29,6 +52,7 @@ const technologyIcons: Record<TechnologyType, React.ComponentType<{ className?:
   '5G': Zap,
   'UNCAPPED_WIRELESS': Router,
   'FIBRE': Cable,
+  'LICENSED_WIRELESS': Radio,
   'FIXED_LTE': Signal
 };
 
@@ -42,6 +66,11 @@ export const CoverageDisplay: React.FC<CoverageDisplayProps> = ({
   result,
   toggleState,
   isLoading = false,
+  onAddToComparison,
+  comparisonStatus = 'available',
+  onDownloadReport,
+  isGeneratingReport = false,
+  recheck,
   className
 }) => {
   if (isLoading) {
@@ -84,43 +113,14 @@ export const CoverageDisplay: React.FC<CoverageDisplayProps> = ({
     tech => toggleState[tech as TechnologyType]
   ) as TechnologyType[];
 
-  const getCoverageInfo = () => {
-    const info: Array<{
-      type: TechnologyType;
-      available: boolean;
-      strength?: string;
-      quality?: number;
-      infrastructureType?: string;
-      source?: string;
-    }> = [];
-
-    // Safety check for coverage data
-    if (!result.coverage || typeof result.coverage !== 'object') {
-      return info;
-    }
-
-    // Extract coverage data from different sources
-    Object.values(result.coverage).forEach(source => {
-      if (source?.types && Array.isArray(source.types)) {
-        source.types.forEach((tech: any) => {
-          if (activeTechnologies.includes(tech.type)) {
-            info.push({
-              type: tech.type,
-              available: tech.available,
-              strength: tech.strength,
-              quality: tech.quality,
-              infrastructureType: tech.infrastructureType,
-              source: source.source
-            });
-          }
-        });
-      }
-    });
-
-    return info;
+  const downloadGeo = (format: 'geojson' | 'kml') => {
+    const fileName = `coverage-${result.coordinates.lat.toFixed(5)}_${result.coordinates.lng.toFixed(5)}.${format}`;
+    downloadBlob(format === 'geojson' ? exportGeoJSON([result]) : exportKML([result]), fileName);
   };
 
-  const coverageInfo = getCoverageInfo();
+  // Every source is normalised upstream, so the types lists can be trusted here
+  const coverageInfo = getTechnologyCoverage(result.coverage)
+    .filter(tech => activeTechnologies.includes(tech.type));
 
   return (
     <div className={clsx("space-y-6", className)}>
@@ -137,20 +137,91 @@ export const CoverageDisplay: React.FC<CoverageDisplayProps> = ({
                   <Clock className="w-4 h-4 mr-1" />
                   {new Date(result.timestamp).toLocaleString()}
                 </span>
+                {result.lastChecked && (
+                  <span
+                    className="flex items-center text-amber-700"
+                    title={`Served from cache, last checked ${new Date(result.lastChecked).toLocaleString()}`}
+                  >
+                    <History className="w-4 h-4 mr-1" />
+                    Last checked {formatAge(result.lastChecked)}
+                  </span>
+                )}
               </div>
             </div>
-            <div className={clsx(
-              "px-2 py-1 rounded-full text-xs font-medium",
-              result.success
-                ? "bg-green-100 text-green-800"
-                : "bg-red-100 text-red-800"
-            )}>
-              {result.success ? 'Coverage Found' : 'No Data'}
+            <div className="flex flex-col items-end space-y-2">
+              <div className={clsx(
+                "px-2 py-1 rounded-full text-xs font-medium",
+                result.success
+                  ? "bg-green-100 text-green-800"
+                  : "bg-red-100 text-red-800"
+              )}>
+                {result.success ? 'Coverage Found' : 'No Data'}
+              </div>
+              {onAddToComparison && result.success && (
+                <button
+                  onClick={onAddToComparison}
+                  disabled={comparisonStatus !== 'available'}
+                  className="flex items-center text-xs font-medium text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                >
+                  <Columns className="w-4 h-4 mr-1" />
+                  {comparisonStatus === 'added'
+                    ? 'In comparison'
+                    : comparisonStatus === 'full' ? 'Comparison full' : 'Add to comparison'}
+                </button>
+              )}
+              {onDownloadReport && (
+                <button
+                  onClick={onDownloadReport}
+                  disabled={isGeneratingReport}
+                  className="flex items-center text-xs font-medium text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                >
+                  <FileText className="w-4 h-4 mr-1" />
+                  {isGeneratingReport ? 'Preparing PDF...' : 'PDF report'}
+                </button>
+              )}
+              <div className="flex items-center text-xs font-medium text-blue-600">
+                <Globe className="w-4 h-4 mr-1" />
+                <button onClick={() => downloadGeo('geojson')} className="hover:text-blue-800">GeoJSON</button>
+                <span className="mx-1 text-gray-300">|</span>
+                <button onClick={() => downloadGeo('kml')} className="hover:text-blue-800">KML</button>
+              </div>
             </div>
           </div>
         </div>
       </div>
 
+      {/* Changes since the previous check of this site */}
+      {recheck && (
+        <div className={clsx(
+          "card border",
+          recheck.changes.length > 0 ? "border-amber-300 bg-amber-50" : "border-gray-200"
+        )}>
+          <div className="card-content">
+            <div className="flex items-start space-x-3">
+              <GitCompare className="w-5 h-5 text-amber-600 mt-0.5" />
+              <div className="flex-1 text-sm">
+                <p className="font-medium text-gray-900">
+                  {recheck.changes.length > 0
+                    ? `${recheck.changes.length} change${recheck.changes.length === 1 ? '' : 's'} since ${new Date(recheck.since).toLocaleString()}`
+                    : `No changes since ${new Date(recheck.since).toLocaleString()}`}
+                </p>
+                {recheck.changes.length > 0 && (
+                  <ul className="mt-1 space-y-0.5 text-gray-700">
+                    {recheck.changes.map(change => (
+                      <li key={change.technology}>
+                        {change.technology.replace('_', ' ')}: {changeDescriptions[change.kind]}
+                        {change.kind === 'strength' && ` (${change.before?.strength || 'unknown'} → ${change.after?.strength || 'unknown'})`}
+                        {change.kind === 'quality' && ` (${change.before?.quality ?? '?'}% → ${change.after?.quality ?? '?'}%)`}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Coverage Results */}
       {result.success && coverageInfo && coverageInfo.length > 0 ? (
         <div className="card">
@@ -164,6 +235,7 @@ export const CoverageDisplay: React.FC<CoverageDisplayProps> = ({
             <div className="space-y-3">
               {coverageInfo.map((tech, index) => {
                 const Icon = technologyIcons[tech.type];
+                const changed = recheck?.changes.some(change => change.technology === tech.type);
                 return (
                   <div
                     key={`${tech.type}-${index}`}
@@ -171,7 +243,8 @@ export const CoverageDisplay: React.FC<CoverageDisplayProps> = ({
                       "flex items-center justify-between p-4 rounded-lg border",
                       tech.available
                         ? "border-green-200 bg-green-50"
-                        : "border-red-200 bg-red-50"
+                        : "border-red-200 bg-red-50",
+                      changed && "ring-2 ring-amber-400"
                     )}
                   >
                     <div className="flex items-center space-x-3">
@@ -193,6 +266,13 @@ export const CoverageDisplay: React.FC<CoverageDisplayProps> = ({
                             Source: {tech.source}
                           </div>
                         )}
+                        {tech.details && Object.keys(tech.details).length > 0 && (
+                          <div className="text-xs text-gray-500">
+                            {Object.entries(tech.details)
+                              .map(([key, value]) => `${key}: ${value}`)
+                              .join(' · ')}
+                          </div>
+                        )}
                       </div>
                     </div>
 
@@ -203,7 +283,7 @@ export const CoverageDisplay: React.FC<CoverageDisplayProps> = ({
                             {tech.strength && (
                               <span className={clsx(
                                 "px-2 py-1 rounded-full text-xs font-medium",
-                                strengthColors[tech.strength as keyof typeof strengthColors]
+                                strengthColors[tech.strength]
                               )}>
                                 {tech.strength} signal
                               </span>
@@ -263,7 +343,7 @@ export const CoverageDisplay: React.FC<CoverageDisplayProps> = ({
               {Object.values(result.coverage).map((source, index) => (
                 <div key={index} className="flex items-center space-x-2 text-sm">
                   <CheckCircle className="w-4 h-4 text-green-500" />
-                  <span className="text-gray-700">{source.source}</span>
+                  <span className="text-gray-700">{source?.source}</span>
                 </div>
               ))}
             </div>
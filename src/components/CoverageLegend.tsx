@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { CoverageLegend as LegendData, OverlayState, TechnologyType } from '../types';
+import { apiClient } from '../utils/apiClient';
+import { CoverageLegendService } from '../utils/coverageLegend';
+import { LAYER_LABELS } from '../utils/coverageOverlay';
+import clsx from 'clsx';
+import { Info } from 'lucide-react';
+
+const legendService = new CoverageLegendService(technology => apiClient.fetchLegend(technology));
+
+interface CoverageLegendProps {
+  technologies: TechnologyType[]; // top layer first
+  overlays: OverlayState;
+  className?: string;
+}
+
+export const CoverageLegend: React.FC<CoverageLegendProps> = ({
+  technologies,
+  overlays,
+  className
+}) => {
+  const [legends, setLegends] = useState<LegendData[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const technologiesKey = technologies.join(',');
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    legendService.getLegends(technologies).then(result => {
+      if (!cancelled) {
+        setLegends(result);
+        setIsLoading(false);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [technologiesKey]);
+
+  if (technologies.length === 0) return null;
+
+  const usesBundled = legends.some(legend => legend.source === 'bundled');
+
+  return (
+    <div className={clsx("w-56 bg-white bg-opacity-95 rounded-lg shadow-md border border-gray-200 p-3", className)}>
+      <h4 className="text-xs font-semibold text-gray-900 uppercase tracking-wide mb-2">Legend</h4>
+
+      {isLoading && legends.length === 0 ? (
+        <div className="space-y-2 animate-pulse">
+          <div className="h-3 bg-gray-200 rounded w-32"></div>
+          <div className="h-3 bg-gray-200 rounded w-24"></div>
+        </div>
+      ) : (
+        <div className="space-y-3 max-h-64 overflow-y-auto">
+          {legends.map(legend => {
+            const { color, opacity } = overlays[legend.technology];
+
+            return (
+              <div key={legend.technology}>
+                <div className="text-xs font-medium text-gray-700 mb-1">
+                  {LAYER_LABELS[legend.technology]}
+                </div>
+                <ul className="space-y-1">
+                  {legend.entries.map((entry, index) => (
+                    <li key={`${entry.label}-${index}`} className="flex items-center space-x-2">
+                      {/* Overlay tiles are tinted, so only the class opacity carries over */}
+                      <span
+                        className="w-4 h-3 rounded-sm border border-gray-200"
+                        style={{ backgroundColor: color, opacity: Math.max(0.15, entry.opacity * opacity) }}
+                      />
+                      <span className="text-xs text-gray-600">{entry.label}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {usesBundled && (
+        <p className="flex items-center space-x-1 mt-2 text-[11px] text-gray-500">
+          <Info className="w-3 h-3" />
+          <span>Some classes are from the offline legend</span>
+        </p>
+      )}
+    </div>
+  );
+};
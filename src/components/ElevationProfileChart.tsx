@@ -0,0 +1,65 @@
+import React from 'react';
+import { LineOfSightResult } from '../utils/lineOfSight';
+
+interface ElevationProfileChartProps {
+  result: LineOfSightResult;
+  width?: number;
+  height?: number;
+}
+
+const PADDING = { top: 16, right: 16, bottom: 28, left: 52 };
+
+/**
+ * Terrain profile with the sight line and the lower edge of the first Fresnel zone
+ */
+export const ElevationProfileChart: React.FC<ElevationProfileChartProps> = ({
+  result,
+  width = 640,
+  height = 240
+}) => {
+  const samples = result.profile.filter(sample => sample.terrain !== null);
+  if (samples.length < 2 || result.customerAntenna === null || result.towerAntenna === null) {
+    return <p className="text-sm text-gray-500">No elevation data for this path.</p>;
+  }
+
+  const heights = samples.flatMap(sample => [sample.terrain!, sample.sightLine, sample.sightLine - sample.fresnelRadius]);
+  const min = Math.floor(Math.min(...heights) / 10) * 10 - 10;
+  const max = Math.ceil(Math.max(...heights) / 10) * 10 + 10;
+  const innerWidth = width - PADDING.left - PADDING.right;
+  const innerHeight = height - PADDING.top - PADDING.bottom;
+
+  const x = (distance: number) => PADDING.left + (result.distance > 0 ? distance / result.distance : 0) * innerWidth;
+  const y = (elevation: number) => PADDING.top + (1 - (elevation - min) / (max - min)) * innerHeight;
+  const path = (points: Array<[number, number]>) =>
+    points.map(([px, py], index) => `${index === 0 ? 'M' : 'L'}${px.toFixed(1)},${py.toFixed(1)}`).join(' ');
+
+  const terrain = path(samples.map(sample => [x(sample.distance), y(sample.terrain!)]));
+  const ground = `${terrain} L${x(samples[samples.length - 1].distance).toFixed(1)},${y(min)} L${x(samples[0].distance).toFixed(1)},${y(min)} Z`;
+  const sightLine = path([[x(0), y(result.customerAntenna)], [x(result.distance), y(result.towerAntenna)]]);
+  const fresnel = path(samples.map(sample => [x(sample.distance), y(sample.sightLine - sample.fresnelRadius)]));
+  const ticks = [min, Math.round((min + max) / 2), max];
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img" aria-label={`Elevation profile to ${result.tower.name}`}>
+      {ticks.map(tick => (
+        <g key={tick}>
+          <line x1={PADDING.left} x2={width - PADDING.right} y1={y(tick)} y2={y(tick)} stroke="#e5e7eb" />
+          <text x={PADDING.left - 6} y={y(tick) + 4} textAnchor="end" fontSize="11" fill="#6b7280">{tick} m</text>
+        </g>
+      ))}
+
+      <path d={ground} fill="#d6d3d1" stroke="#78716c" strokeWidth="1.5" />
+      <path d={fresnel} fill="none" stroke="#3b82f6" strokeWidth="1" strokeDasharray="4 3" />
+      <path d={sightLine} fill="none" stroke={result.verdict === 'blocked' ? '#dc2626' : '#2563eb'} strokeWidth="2" />
+
+      {result.obstruction?.terrain != null && (
+        <circle cx={x(result.obstruction.distance)} cy={y(result.obstruction.terrain)} r="4" fill="#dc2626" />
+      )}
+
+      <text x={PADDING.left} y={height - 8} fontSize="11" fill="#6b7280">Customer</text>
+      <text x={width - PADDING.right} y={height - 8} textAnchor="end" fontSize="11" fill="#6b7280">
+        {result.tower.name} ({result.distance.toFixed(1)} km)
+      </text>
+    </svg>
+  );
+};
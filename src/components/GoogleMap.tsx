@@ -1,12 +1,24 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { useGoogleMaps } from '../hooks/useGoogleMaps';
-import { CoverageResult } from '../types';
+import { CoverageResult, OverlayState, TechnologyType, ToggleState } from '../types';
 import { apiClient } from '../utils/apiClient';
+import { comparisonLabel } from '../utils/coverageComparison';
+import { CoverageTileLayer, LAYER_LABELS, moveOverlay, overlayOrder } from '../utils/coverageOverlay';
+import { infoWindowContent } from '../utils/infoWindow';
 import clsx from 'clsx';
-import { MapPin, Layers } from 'lucide-react';
+import { MapPin, Layers, ChevronUp, ChevronDown, List } from 'lucide-react';
+import { CoverageLegend } from './CoverageLegend';
+
+const NO_LOCATIONS: CoverageResult[] = [];
 
 interface GoogleMapProps {
   result: CoverageResult | null;
+  toggleState: ToggleState;
+  overlays: OverlayState;
+  onOverlaysChange: (overlays: OverlayState) => void;
+  zoom: number;
+  onZoomChange?: (zoom: number) => void;
+  comparedLocations?: CoverageResult[];
   onLocationSelect?: (lat: number, lng: number, address: string) => void;
   className?: string;
   height?: string;
@@ -14,6 +26,12 @@ interface GoogleMapProps {
 
 export const GoogleMap: React.FC<GoogleMapProps> = ({
   result,
+  toggleState,
+  overlays,
+  onOverlaysChange,
+  zoom,
+  onZoomChange,
+  comparedLocations = NO_LOCATIONS,
   onLocationSelect,
   className,
   height = '400px'
@@ -21,9 +39,22 @@ export const GoogleMap: React.FC<GoogleMapProps> = ({
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<google.maps.Map | null>(null);
   const markerRef = useRef<google.maps.Marker | null>(null);
-  const overlayRef = useRef<google.maps.GroundOverlay | null>(null);
+  const infoWindowRef = useRef<google.maps.InfoWindow | null>(null);
+  const layersRef = useRef(new Map<TechnologyType, CoverageTileLayer>());
 
   const [showCoverageLayer, setShowCoverageLayer] = useState(true);
+  const [showLegend, setShowLegend] = useState(true);
+  const overlaysRef = useRef(overlays);
+  overlaysRef.current = overlays;
+
+  // Latest callbacks for listeners registered once when the map is created
+  const callbacksRef = useRef({ onLocationSelect, onZoomChange });
+  callbacksRef.current = { onLocationSelect, onZoomChange };
+
+  // Enabled layers bottom to top; the key only changes when the stack does
+  const stack = showCoverageLayer ? overlayOrder(toggleState, overlays) : [];
+  const stackKey = stack.join(',');
+  const topFirst = [...stack].reverse();
 
   const { isLoaded, error } = useGoogleMaps();
 
@@ -33,7 +64,7 @@ export const GoogleMap: React.FC<GoogleMapProps> = ({
 
     const map = new google.maps.Map(mapRef.current, {
       center: { lat: -26.2041, lng: 28.0473 }, // Johannesburg center
-      zoom: 12,
+      zoom,
       styles: [
         {
           featureType: 'poi',
@@ -50,24 +81,30 @@ export const GoogleMap: React.FC<GoogleMapProps> = ({
     mapInstanceRef.current = map;
 
     // Add click listener for location selection
-    if (onLocationSelect) {
-      map.addListener('click', async (event: google.maps.MapMouseEvent) => {
-        if (event.latLng) {
-          const lat = event.latLng.lat();
-          const lng = event.latLng.lng();
-
-          // Reverse geocode to get address
-          const geocoder = new google.maps.Geocoder();
-          try {
-            const response = await geocoder.geocode({ location: { lat, lng } });
-            const address = response.results[0]?.formatted_address || `${lat}, ${lng}`;
-            onLocationSelect(lat, lng, address);
-          } catch (err) {
-            onLocationSelect(lat, lng, `${lat}, ${lng}`);
-          }
+    map.addListener('click', async (event: google.maps.MapMouseEvent) => {
+      const onSelect = callbacksRef.current.onLocationSelect;
+      if (onSelect && event.latLng) {
+        const lat = event.latLng.lat();
+        const lng = event.latLng.lng();
+
+        // Reverse geocode to get address
+        const geocoder = new google.maps.Geocoder();
+        try {
+          const response = await geocoder.geocode({ location: { lat, lng } });
+          const address = response.results[0]?.formatted_address || `${lat}, ${lng}`;
+          onSelect(lat, lng, address);
+        } catch (err) {
+          onSelect(lat, lng, `${lat}, ${lng}`);
         }
-      });
-    }
+      }
+    });
+
+    map.addListener('zoom_changed', () => {
+      const current = map.getZoom();
+      if (current !== undefined) {
+        callbacksRef.current.onZoomChange?.(current);
+      }
+    });
 
     // Removed Tarana data loading - using only live MTN APIs
 
@@ -75,11 +112,79 @@ export const GoogleMap: React.FC<GoogleMapProps> = ({
       if (markerRef.current) {
         markerRef.current.setMap(null);
       }
-      if (overlayRef.current) {
-        overlayRef.current.setMap(null);
+    };
+  }, [isLoaded]);
+
+  // Follow zoom changes made outside the map, e.g. from a permalink
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (map && map.getZoom() !== zoom) {
+      map.setZoom(zoom);
+    }
+  }, [isLoaded, zoom]);
+
+  // One tiled overlay per enabled technology, stacked by z-order
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!isLoaded || !map) return;
+
+    const layers = layersRef.current;
+    map.overlayMapTypes.clear();
+
+    stackKey.split(',').filter(Boolean).forEach(key => {
+      const technology = key as TechnologyType;
+      let layer = layers.get(technology);
+      if (!layer) {
+        const { color, opacity } = overlaysRef.current[technology];
+        layer = new CoverageTileLayer(technology, color, opacity, (tech, z, x, y) => apiClient.getTileUrl(tech, z, x, y));
+        layers.set(technology, layer);
       }
+      map.overlayMapTypes.push(layer);
+    });
+
+    return () => {
+      map.overlayMapTypes.clear();
+    };
+  }, [isLoaded, stackKey]);
+
+  // Colour and opacity changes restyle the tiles already on screen without refetching
+  useEffect(() => {
+    layersRef.current.forEach((layer, technology) => {
+      layer.setColor(overlays[technology].color);
+      layer.setOpacity(overlays[technology].opacity);
+    });
+  }, [overlays]);
+
+  // Lettered markers for the locations in the comparison table
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!isLoaded || !map) return;
+
+    const markers = comparedLocations.map((location, index) => new google.maps.Marker({
+      position: location.coordinates,
+      map,
+      title: `${comparisonLabel(index)}: ${location.address}`,
+      label: { text: comparisonLabel(index), color: '#ffffff', fontSize: '12px', fontWeight: '600' },
+      icon: {
+        path: google.maps.SymbolPath.CIRCLE,
+        scale: 11,
+        fillColor: '#2563EB',
+        fillOpacity: 1,
+        strokeColor: '#ffffff',
+        strokeWeight: 2,
+      },
+    }));
+
+    if (markers.length > 1) {
+      const bounds = new google.maps.LatLngBounds();
+      markers.forEach(marker => bounds.extend(marker.getPosition()!));
+      map.fitBounds(bounds, 64);
+    }
+
+    return () => {
+      markers.forEach(marker => marker.setMap(null));
     };
-  }, [isLoaded, onLocationSelect]);
+  }, [isLoaded, comparedLocations]);
 
   // Update map when result changes
   useEffect(() => {
@@ -88,13 +193,14 @@ export const GoogleMap: React.FC<GoogleMapProps> = ({
     const { lat, lng } = result.coordinates;
     const position = { lat, lng };
 
-    // Update map center and zoom
+    // Zoom follows the zoom prop, which the app resets for each new check
     mapInstanceRef.current.setCenter(position);
-    mapInstanceRef.current.setZoom(14);
 
     // Update or create marker
     if (markerRef.current) {
       markerRef.current.setPosition(position);
+      markerRef.current.setTitle(result.address);
+      infoWindowRef.current?.setContent(infoWindowContent(result));
     } else {
       markerRef.current = new google.maps.Marker({
         position,
@@ -112,58 +218,26 @@ export const GoogleMap: React.FC<GoogleMapProps> = ({
 
       // Add info window
       const infoWindow = new google.maps.InfoWindow({
-        content: `
-          <div class="p-2">
-            <h3 class="font-semibold text-sm">${result.address}</h3>
-            <p class="text-xs text-gray-600">${result.province}</p>
-            <p class="text-xs ${result.success ? 'text-green-600' : 'text-red-600'}">
-              ${result.success ? 'Coverage Available' : 'No Coverage Data'}
-            </p>
-          </div>
-        `,
+        content: infoWindowContent(result),
       });
+      infoWindowRef.current = infoWindow;
 
       markerRef.current.addListener('click', () => {
         infoWindow.open(mapInstanceRef.current, markerRef.current);
       });
     }
+  }, [result]);
 
-    // Add coverage overlay if available and enabled
-    if (showCoverageLayer && result.success) {
-      addCoverageOverlay(lat, lng);
-    } else if (overlayRef.current) {
-      overlayRef.current.setMap(null);
-      overlayRef.current = null;
-    }
-  }, [result, showCoverageLayer]);
-
-
-  const addCoverageOverlay = (lat: number, lng: number) => {
-    if (!mapInstanceRef.current) return;
-
-    // Remove existing overlay
-    if (overlayRef.current) {
-      overlayRef.current.setMap(null);
-    }
-
-    try {
-      // Get WMS overlay URL from API client
-      const overlayUrl = apiClient.getWMSMapUrl(lat, lng, 800, 600);
 
-      const bounds = new google.maps.LatLngBounds(
-        new google.maps.LatLng(lat - 0.05, lng - 0.05), // SW corner
-        new google.maps.LatLng(lat + 0.05, lng + 0.05)  // NE corner
-      );
-
-      overlayRef.current = new google.maps.GroundOverlay(overlayUrl, bounds, {
-        opacity: 0.6,
-        clickable: false,
-      });
+  const setLayerOpacity = (technology: TechnologyType, opacity: number) => {
+    onOverlaysChange({
+      ...overlays,
+      [technology]: { ...overlays[technology], opacity }
+    });
+  };
 
-      overlayRef.current.setMap(mapInstanceRef.current);
-    } catch (err) {
-      console.error('Failed to add coverage overlay:', err);
-    }
+  const moveLayer = (technology: TechnologyType, direction: 1 | -1) => {
+    onOverlaysChange(moveOverlay(overlays, stack, technology, direction));
   };
 
   const toggleCoverageLayer = () => {
@@ -226,10 +300,77 @@ export const GoogleMap: React.FC<GoogleMapProps> = ({
           <span>Coverage</span>
         </button>
 
+        {stack.length > 0 && (
+          <button
+            onClick={() => setShowLegend(prev => !prev)}
+            className={clsx(
+              "flex items-center space-x-2 px-3 py-2 rounded-lg shadow-md transition-colors",
+              "bg-white border border-gray-200 hover:bg-gray-50",
+              "text-sm font-medium",
+              showLegend ? "text-blue-600" : "text-gray-600"
+            )}
+            title="Toggle legend"
+          >
+            <List className="w-4 h-4" />
+            <span>Legend</span>
+          </button>
+        )}
+
+        {/* Layer panel, top layer first */}
+        {stack.length > 0 && (
+          <div className="w-56 bg-white bg-opacity-95 rounded-lg shadow-md border border-gray-200 p-3 space-y-3">
+            {topFirst.map((technology, index) => {
+              const { color, opacity } = overlays[technology];
+
+              return (
+                <div key={technology} className="space-y-1">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: color }} />
+                      <span className="text-xs font-medium text-gray-700">{LAYER_LABELS[technology]}</span>
+                    </div>
+                    <div className="flex items-center">
+                      <button
+                        onClick={() => moveLayer(technology, 1)}
+                        disabled={index === 0}
+                        className="p-0.5 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                        title="Move layer up"
+                      >
+                        <ChevronUp className="w-3 h-3" />
+                      </button>
+                      <button
+                        onClick={() => moveLayer(technology, -1)}
+                        disabled={index === stack.length - 1}
+                        className="p-0.5 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                        title="Move layer down"
+                      >
+                        <ChevronDown className="w-3 h-3" />
+                      </button>
+                    </div>
+                  </div>
+                  <input
+                    type="range"
+                    min={0}
+                    max={100}
+                    value={Math.round(opacity * 100)}
+                    onChange={event => setLayerOpacity(technology, Number(event.target.value) / 100)}
+                    className="w-full h-1 accent-blue-600"
+                    aria-label={`${LAYER_LABELS[technology]} opacity`}
+                  />
+                </div>
+              );
+            })}
+          </div>
+        )}
+
       </div>
 
       {/* Click Instructions and Status */}
       <div className="absolute bottom-4 left-4 space-y-2">
+        {showLegend && (
+          <CoverageLegend technologies={topFirst} overlays={overlays} />
+        )}
+
         {onLocationSelect && (
           <div className="bg-white bg-opacity-90 px-3 py-2 rounded-lg shadow-md">
             <p className="text-xs text-gray-600">
@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { HistoryEntry, filterHistory, historyTags } from '../utils/locationHistory';
+import { formatAge } from '../utils/format';
+import clsx from 'clsx';
+import { History, Search, Star, RefreshCw, Trash2, Tag, Check, X, Pencil } from 'lucide-react';
+
+interface HistorySidebarProps {
+  entries: HistoryEntry[];
+  activeId?: string;
+  isLoading?: boolean;
+  onRecheck: (entry: HistoryEntry) => void;
+  onPin: (id: string, name: string, tags: string[]) => void;
+  onUnpin: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClearRecent: () => void;
+  className?: string;
+}
+
+export const HistorySidebar: React.FC<HistorySidebarProps> = ({
+  entries,
+  activeId,
+  isLoading = false,
+  onRecheck,
+  onPin,
+  onUnpin,
+  onRemove,
+  onClearRecent,
+  className
+}) => {
+  const [query, setQuery] = useState('');
+  const [tag, setTag] = useState<string | undefined>();
+  const [favouritesOnly, setFavouritesOnly] = useState(false);
+  const [editing, setEditing] = useState<{ id: string; name: string; tags: string } | null>(null);
+
+  const tags = historyTags(entries);
+  const visible = filterHistory(entries, { query, tag, favouritesOnly });
+
+  const startEditing = (entry: HistoryEntry) => {
+    setEditing({ id: entry.id, name: entry.name || entry.address, tags: entry.tags.join(', ') });
+  };
+
+  const saveEditing = () => {
+    if (!editing) return;
+    onPin(editing.id, editing.name, editing.tags.split(','));
+    setEditing(null);
+  };
+
+  return (
+    <div className={clsx("card", className)}>
+      <div className="p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <History className="w-5 h-5 text-yellow-600" />
+            <h2 className="text-lg font-bold text-gray-900">Saved & Recent</h2>
+          </div>
+          {entries.some(entry => !entry.favourite) && (
+            <button onClick={onClearRecent} className="text-xs text-gray-500 hover:text-gray-800">
+              Clear recent
+            </button>
+          )}
+        </div>
+
+        {entries.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            Checked addresses appear here so you can re-check them later.
+          </p>
+        ) : (
+          <>
+            <div className="relative">
+              <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                type="search"
+                value={query}
+                onChange={event => setQuery(event.target.value)}
+                placeholder="Search address, name or tag"
+                className="input pl-9 text-sm"
+              />
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => setFavouritesOnly(prev => !prev)}
+                className={clsx(
+                  "flex items-center px-2 py-1 rounded-full text-xs font-medium border",
+                  favouritesOnly ? "bg-yellow-100 border-yellow-300 text-yellow-800" : "border-gray-200 text-gray-600"
+                )}
+              >
+                <Star className="w-3 h-3 mr-1" />
+                Favourites
+              </button>
+              {tags.map(name => (
+                <button
+                  key={name}
+                  onClick={() => setTag(prev => (prev === name ? undefined : name))}
+                  className={clsx(
+                    "flex items-center px-2 py-1 rounded-full text-xs font-medium border",
+                    tag === name ? "bg-blue-100 border-blue-300 text-blue-800" : "border-gray-200 text-gray-600"
+                  )}
+                >
+                  <Tag className="w-3 h-3 mr-1" />
+                  {name}
+                </button>
+              ))}
+            </div>
+
+            <ul className="space-y-2 max-h-96 overflow-y-auto">
+              {visible.map(entry => {
+                const available = (entry.result.technologies || []).filter(tech => tech.available).length;
+
+                return (
+                  <li
+                    key={entry.id}
+                    className={clsx(
+                      "p-3 rounded-lg border",
+                      entry.id === activeId ? "border-yellow-400 bg-yellow-50" : "border-gray-200"
+                    )}
+                  >
+                    {editing?.id === entry.id ? (
+                      <div className="space-y-2">
+                        <input
+                          value={editing.name}
+                          onChange={event => setEditing({ ...editing, name: event.target.value })}
+                          placeholder="Name"
+                          className="input text-sm"
+                        />
+                        <input
+                          value={editing.tags}
+                          onChange={event => setEditing({ ...editing, tags: event.target.value })}
+                          placeholder="Tags, comma separated"
+                          className="input text-sm"
+                        />
+                        <div className="flex justify-end space-x-2">
+                          <button onClick={() => setEditing(null)} className="p-1 text-gray-500 hover:text-gray-800" title="Cancel">
+                            <X className="w-4 h-4" />
+                          </button>
+                          <button onClick={saveEditing} className="p-1 text-green-600 hover:text-green-800" title="Save favourite">
+                            <Check className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="flex items-start justify-between space-x-2">
+                        <div className="min-w-0">
+                          <div className="text-sm font-medium text-gray-900 truncate" title={entry.address}>
+                            {entry.name || entry.address}
+                          </div>
+                          {entry.name && (
+                            <div className="text-xs text-gray-500 truncate">{entry.address}</div>
+                          )}
+                          <div className="text-xs text-gray-500">
+                            {available} technologies · {formatAge(entry.checkedAt)}
+                          </div>
+                          {entry.tags.length > 0 && (
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {entry.tags.map(name => (
+                                <span key={name} className="px-1.5 py-0.5 rounded bg-gray-100 text-[11px] text-gray-600">{name}</span>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                        <div className="flex items-center flex-shrink-0">
+                          <button
+                            onClick={() => (entry.favourite ? onUnpin(entry.id) : startEditing(entry))}
+                            className={clsx("p-1", entry.favourite ? "text-yellow-500" : "text-gray-400 hover:text-yellow-500")}
+                            title={entry.favourite ? 'Unpin' : 'Pin as favourite'}
+                          >
+                            <Star className="w-4 h-4" fill={entry.favourite ? 'currentColor' : 'none'} />
+                          </button>
+                          {entry.favourite && (
+                            <button
+                              onClick={() => startEditing(entry)}
+                              className="p-1 text-gray-400 hover:text-gray-700"
+                              title="Edit name and tags"
+                            >
+                              <Pencil className="w-4 h-4" />
+                            </button>
+                          )}
+                          <button
+                            onClick={() => onRecheck(entry)}
+                            disabled={isLoading}
+                            className="p-1 text-gray-400 hover:text-blue-600 disabled:opacity-50"
+                            title="Re-check"
+                          >
+                            <RefreshCw className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => onRemove(entry.id)}
+                            className="p-1 text-gray-400 hover:text-red-600"
+                            title="Remove"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+              {visible.length === 0 && (
+                <li className="text-sm text-gray-500">No saved checks match.</li>
+              )}
+            </ul>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react';
+import { CoverageResult } from '../types';
+import { LineOfSightResult, LineOfSightVerdict } from '../utils/lineOfSight';
+import { taranaCoverageService } from '../utils/taranaCoverage';
+import { ElevationProfileChart } from './ElevationProfileChart';
+import clsx from 'clsx';
+import { Mountain, Loader2 } from 'lucide-react';
+
+interface LineOfSightPanelProps {
+  result: CoverageResult;
+  className?: string;
+}
+
+const VERDICT_STYLES: Record<LineOfSightVerdict, { label: string; className: string }> = {
+  clear: { label: 'Clear', className: 'bg-green-100 text-green-800' },
+  marginal: { label: 'Fresnel zone obstructed', className: 'bg-yellow-100 text-yellow-800' },
+  blocked: { label: 'Blocked', className: 'bg-red-100 text-red-800' },
+  unknown: { label: 'No elevation data', className: 'bg-gray-100 text-gray-700' }
+};
+
+/**
+ * Terrain line-of-sight from the checked address to nearby fixed wireless towers
+ */
+export const LineOfSightPanel: React.FC<LineOfSightPanelProps> = ({ result, className }) => {
+  const [paths, setPaths] = useState<LineOfSightResult[] | null>(null);
+  const [selected, setSelected] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { lat, lng } = result.coordinates;
+
+  // A new address needs a new check
+  useEffect(() => {
+    setPaths(null);
+    setError(null);
+  }, [lat, lng]);
+
+  const handleCheck = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setPaths(await taranaCoverageService.checkLineOfSight(lat, lng));
+      setSelected(0);
+    } catch (checkError) {
+      setError(checkError instanceof Error ? checkError.message : 'Line-of-sight check failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className={clsx("card", className)}>
+      <div className="p-8 space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <Mountain className="w-6 h-6 text-yellow-600" />
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">Fixed Wireless Line of Sight</h2>
+              <p className="text-sm text-gray-600">Terrain and Fresnel clearance to the towers serving this address</p>
+            </div>
+          </div>
+          <button
+            onClick={handleCheck}
+            disabled={isLoading}
+            className={clsx("btn-secondary flex items-center space-x-2", isLoading && "opacity-50 cursor-not-allowed")}
+          >
+            {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Mountain className="w-4 h-4" />}
+            <span>{paths ? 'Check again' : 'Check line of sight'}</span>
+          </button>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {paths && paths.length === 0 && (
+          <p className="text-sm text-gray-500">No Tarana towers in the loaded dataset.</p>
+        )}
+
+        {paths && paths.length > 0 && (
+          <>
+            <ul className="divide-y divide-gray-100">
+              {paths.map((path, index) => (
+                <li key={path.tower.id}>
+                  <button
+                    onClick={() => setSelected(index)}
+                    className={clsx(
+                      "w-full flex items-center justify-between py-2 px-2 rounded-lg text-left",
+                      index === selected ? "bg-yellow-50" : "hover:bg-gray-50"
+                    )}
+                  >
+                    <span className="text-sm text-gray-900">
+                      {path.tower.name}
+                      <span className="text-gray-500"> · {path.distance.toFixed(1)} km</span>
+                    </span>
+                    <span className={clsx("text-xs font-medium px-2 py-1 rounded-full", VERDICT_STYLES[path.verdict].className)}>
+                      {VERDICT_STYLES[path.verdict].label}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <ElevationProfileChart result={paths[Math.min(selected, paths.length - 1)]} />
+            <p className="text-xs text-gray-500">
+              Solid line: sight line between antennas. Dashed line: lower edge of the first Fresnel zone, which should stay 60% clear.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import React, { useRef, useState } from 'react';
+import { RecordingMode } from '../shared/recording';
+import { downloadBlob } from '../utils/exportFiles';
+import { upstreamRecorder } from '../utils/upstreamRecorder';
+import clsx from 'clsx';
+import { Circle, Download, PlayCircle, Trash2, Upload } from 'lucide-react';
+
+const MODE_LABELS: Record<RecordingMode, string> = {
+  live: 'Live',
+  record: 'Recording',
+  replay: 'Replaying'
+};
+
+/**
+ * Footer strip shown while the API client records or replays upstream responses
+ */
+export const RecordingStatus: React.FC = () => {
+  const [mode, setMode] = useState<RecordingMode>(upstreamRecorder.mode);
+  const [fixtureCount, setFixtureCount] = useState(upstreamRecorder.fixtureCount);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  if (mode === 'live') return null;
+
+  const refresh = () => setFixtureCount(upstreamRecorder.fixtureCount);
+
+  const changeMode = (next: RecordingMode) => {
+    upstreamRecorder.setMode(next);
+    setMode(next);
+    refresh();
+  };
+
+  const handleExport = () => {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    downloadBlob(upstreamRecorder.exportFixtures(), `mtn-upstream-fixtures-${stamp}.json`);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const count = upstreamRecorder.importFixtures(await file.text());
+      setMessage(`Imported ${count} responses`);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Import failed');
+    }
+    refresh();
+  };
+
+  const handleClear = () => {
+    upstreamRecorder.clearFixtures();
+    setMessage(null);
+    refresh();
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-3 mb-6 text-sm">
+      <span
+        className={clsx(
+          'inline-flex items-center gap-1.5 px-3 py-1 rounded-full font-medium',
+          mode === 'record' ? 'bg-red-50 text-red-700' : 'bg-blue-50 text-blue-700'
+        )}
+      >
+        {mode === 'record' ? <Circle className="w-3 h-3 fill-current" /> : <PlayCircle className="w-4 h-4" />}
+        {MODE_LABELS[mode]} upstream responses ({fixtureCount} saved)
+      </span>
+
+      <select
+        value={mode}
+        onChange={event => changeMode(event.target.value as RecordingMode)}
+        className="border border-gray-200 rounded-lg px-2 py-1 text-gray-700"
+        aria-label="Upstream mode"
+      >
+        {(Object.keys(MODE_LABELS) as RecordingMode[]).map(option => (
+          <option key={option} value={option}>{MODE_LABELS[option]}</option>
+        ))}
+      </select>
+
+      <button onClick={handleExport} className="inline-flex items-center gap-1 text-gray-600 hover:text-gray-900">
+        <Download className="w-4 h-4" /> Export
+      </button>
+      <button onClick={() => fileInput.current?.click()} className="inline-flex items-center gap-1 text-gray-600 hover:text-gray-900">
+        <Upload className="w-4 h-4" /> Import
+      </button>
+      <button onClick={handleClear} className="inline-flex items-center gap-1 text-gray-600 hover:text-red-600">
+        <Trash2 className="w-4 h-4" /> Clear
+      </button>
+      <input
+        ref={fileInput}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={event => {
+          const file = event.target.files?.[0];
+          if (file) handleImport(file);
+          event.target.value = '';
+        }}
+      />
+
+      {message && <span className="text-gray-500">{message}</span>}
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+import React, { useRef, useState } from 'react';
+import { TaranaCoverageData } from '../utils/kmlParser';
+import { taranaCoverageService } from '../utils/taranaCoverage';
+import clsx from 'clsx';
+import { Radio, Upload } from 'lucide-react';
+
+interface TaranaDatasetProps {
+  onLoaded: (data: TaranaCoverageData) => void;
+  className?: string;
+}
+
+/**
+ * Upload a Tarana KMZ export to replace the bundled dataset for this session
+ */
+export const TaranaDataset: React.FC<TaranaDatasetProps> = ({ onLoaded, className }) => {
+  const [dataset, setDataset] = useState<TaranaCoverageData | null>(taranaCoverageService.getDataset());
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const data = await taranaCoverageService.loadDataset(file);
+      setDataset(data);
+      onLoaded(data);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Could not read the KMZ file');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className={clsx("card", className)}>
+      <div className="p-6 space-y-3">
+        <div className="flex items-center space-x-3">
+          <Radio className="w-5 h-5 text-yellow-600" />
+          <h2 className="text-lg font-bold text-gray-900">Tarana Dataset</h2>
+        </div>
+
+        {dataset ? (
+          <p className="text-sm text-gray-600">
+            {dataset.metadata.totalTowers} towers from {dataset.metadata.source || 'the bundled export'}
+            {dataset.metadata.date ? `, dated ${dataset.metadata.date}` : ', date unknown'}
+          </p>
+        ) : (
+          <p className="text-sm text-gray-500">
+            Upload a Tarana KMZ export to check fixed wireless coverage against it.
+          </p>
+        )}
+
+        <button
+          onClick={() => fileInput.current?.click()}
+          disabled={isLoading}
+          className={clsx(
+            "inline-flex items-center gap-2 px-3 py-2 text-sm rounded-lg border border-gray-200 text-gray-700 hover:bg-gray-50",
+            isLoading && "opacity-50 cursor-not-allowed"
+          )}
+        >
+          <Upload className="w-4 h-4" />
+          {isLoading ? 'Reading KMZ...' : 'Upload KMZ'}
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".kmz,.kml,application/vnd.google-earth.kmz,application/vnd.google-earth.kml+xml"
+          className="hidden"
+          onChange={event => {
+            const file = event.target.files?.[0];
+            if (file) handleFile(file);
+            event.target.value = '';
+          }}
+        />
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,29 @@
+// Legends shipped with the app for when GetLegendGraphic is unavailable.
+// Opacities approximate how MTN's styles shade each class, which is what
+// survives once the overlay tiles are tinted.
+import { LegendEntry, TechnologyType } from '../types';
+
+const mobileLegend = (color: string): LegendEntry[] => [
+  { label: 'Good coverage', color, opacity: 0.8 },
+  { label: 'Fair coverage', color, opacity: 0.5 },
+  { label: 'Limited coverage', color, opacity: 0.25 }
+];
+
+export const bundledLegends: Record<TechnologyType, LegendEntry[]> = {
+  '2G': mobileLegend('#7A7A7A'),
+  '3G': mobileLegend('#2E7DD7'),
+  '4G': mobileLegend('#00A651'),
+  '5G': mobileLegend('#7B2D8E'),
+  'UNCAPPED_WIRELESS': [
+    { label: 'Uncapped Wireless available', color: '#F7931E', opacity: 0.7 }
+  ],
+  'FIBRE': [
+    { label: 'Fibre feasible', color: '#00A651', opacity: 0.7 }
+  ],
+  'LICENSED_WIRELESS': [
+    { label: 'Licensed Wireless feasible', color: '#0072BC', opacity: 0.7 }
+  ],
+  'FIXED_LTE': [
+    { label: 'Fixed LTE available', color: '#00B3AD', opacity: 0.7 }
+  ]
+};
@@ -0,0 +1,402 @@
+// Simplified boundaries of the nine South African provinces as a GeoJSON
+// FeatureCollection. Neighbouring provinces share border vertices, and
+// Lesotho and Eswatini are left out. Good to a few kilometres, not cadastral.
+export const provinceBoundaries = {
+  type: 'FeatureCollection',
+  features: [
+    {
+      type: 'Feature',
+      properties: { name: 'Western Cape' },
+      geometry: {
+        type: 'Polygon',
+        coordinates: [
+          [
+            [23.65, -33.98],
+            [23.5, -33.65],
+            [23.35, -33.3],
+            [23.5, -32.9],
+            [23.85, -32.3],
+            [24.1, -31.7],
+            [23.6, -31.7],
+            [23.0, -31.75],
+            [22.4, -31.9],
+            [22.0, -32.0],
+            [21.4, -32.4],
+            [20.8, -32.6],
+            [20.0, -32.6],
+            [19.6, -32.3],
+            [19.2, -31.85],
+            [18.95, -31.55],
+            [18.6, -31.05],
+            [17.58, -30.85],
+            [17.85, -31.1],
+            [18.15, -31.6],
+            [18.3, -32.1],
+            [17.85, -32.8],
+            [18.0, -33.3],
+            [18.35, -33.95],
+            [18.47, -34.36],
+            [18.85, -34.2],
+            [19.23, -34.42],
+            [20.0, -34.83],
+            [21.4, -34.38],
+            [22.13, -34.18],
+            [23.05, -34.07],
+            [23.65, -33.98]
+          ]
+        ]
+      }
+    },
+    {
+      type: 'Feature',
+      properties: { name: 'Northern Cape' },
+      geometry: {
+        type: 'Polygon',
+        coordinates: [
+          [
+            [17.58, -30.85],
+            [18.6, -31.05],
+            [18.95, -31.55],
+            [19.2, -31.85],
+            [19.6, -32.3],
+            [20.0, -32.6],
+            [20.8, -32.6],
+            [21.4, -32.4],
+            [22.0, -32.0],
+            [22.4, -31.9],
+            [23.0, -31.75],
+            [23.6, -31.7],
+            [24.1, -31.7],
+            [24.6, -31.55],
+            [24.95, -31.3],
+            [25.0, -30.95],
+            [25.3, -30.75],
+            [25.55, -30.65],
+            [25.0, -30.25],
+            [24.7, -29.95],
+            [24.45, -29.6],
+            [24.65, -29.1],
+            [24.9, -28.75],
+            [25.0, -28.35],
+            [25.1, -28.0],
+            [24.9, -27.75],
+            [24.6, -27.7],
+            [24.1, -27.7],
+            [23.9, -27.1],
+            [23.6, -26.5],
+            [23.2, -25.85],
+            [22.75, -26.0],
+            [22.2, -26.55],
+            [21.7, -26.85],
+            [20.8, -26.85],
+            [20.45, -25.95],
+            [20.0, -24.75],
+            [20.0, -28.4],
+            [19.9, -28.45],
+            [19.3, -28.75],
+            [19.0, -28.9],
+            [18.2, -28.9],
+            [17.62, -28.77],
+            [17.1, -28.75],
+            [16.45, -28.63],
+            [16.87, -29.25],
+            [17.3, -30.4],
+            [17.58, -30.85]
+          ]
+        ]
+      }
+    },
+    {
+      type: 'Feature',
+      properties: { name: 'Eastern Cape' },
+      geometry: {
+        type: 'Polygon',
+        coordinates: [
+          [
+            [23.65, -33.98],
+            [24.2, -34.08],
+            [24.83, -34.2],
+            [25.63, -33.96],
+            [26.3, -33.75],
+            [26.9, -33.6],
+            [27.9, -33.03],
+            [28.6, -32.5],
+            [29.15, -31.98],
+            [29.54, -31.63],
+            [30.19, -31.08],
+            [30.05, -30.85],
+            [29.6, -30.7],
+            [29.3, -30.6],
+            [29.2, -30.0],
+            [28.7, -30.15],
+            [28.1, -30.55],
+            [27.6, -30.65],
+            [27.3, -30.4],
+            [27.0, -30.5],
+            [26.7, -30.67],
+            [26.4, -30.62],
+            [26.0, -30.6],
+            [25.55, -30.65],
+            [25.3, -30.75],
+            [25.0, -30.95],
+            [24.95, -31.3],
+            [24.6, -31.55],
+            [24.1, -31.7],
+            [23.85, -32.3],
+            [23.5, -32.9],
+            [23.35, -33.3],
+            [23.5, -33.65],
+            [23.65, -33.98]
+          ]
+        ]
+      }
+    },
+    {
+      type: 'Feature',
+      properties: { name: 'Free State' },
+      geometry: {
+        type: 'Polygon',
+        coordinates: [
+          [
+            [25.55, -30.65],
+            [26.0, -30.6],
+            [26.4, -30.62],
+            [26.7, -30.67],
+            [27.0, -30.5],
+            [27.3, -30.4],
+            [27.15, -29.9],
+            [27.2, -29.6],
+            [27.45, -29.3],
+            [27.95, -28.85],
+            [28.2, -28.7],
+            [28.6, -28.57],
+            [28.88, -28.75],
+            [29.25, -28.45],
+            [29.4, -28.2],
+            [29.55, -27.85],
+            [29.75, -27.45],
+            [29.6, -27.3],
+            [29.3, -27.15],
+            [29.0, -27.1],
+            [28.6, -26.95],
+            [28.2, -26.9],
+            [27.84, -26.75],
+            [27.6, -26.8],
+            [27.4, -26.85],
+            [27.1, -26.95],
+            [26.7, -27.0],
+            [26.4, -27.15],
+            [26.0, -27.45],
+            [25.6, -27.7],
+            [25.3, -27.9],
+            [25.1, -28.0],
+            [25.0, -28.35],
+            [24.9, -28.75],
+            [24.65, -29.1],
+            [24.45, -29.6],
+            [24.7, -29.95],
+            [25.0, -30.25],
+            [25.55, -30.65]
+          ]
+        ]
+      }
+    },
+    {
+      type: 'Feature',
+      properties: { name: 'North West' },
+      geometry: {
+        type: 'Polygon',
+        coordinates: [
+          [
+            [26.45, -24.55],
+            [25.8, -25.25],
+            [25.6, -25.62],
+            [25.0, -25.72],
+            [24.0, -25.7],
+            [23.2, -25.85],
+            [23.6, -26.5],
+            [23.9, -27.1],
+            [24.1, -27.7],
+            [24.6, -27.7],
+            [24.9, -27.75],
+            [25.1, -28.0],
+            [25.3, -27.9],
+            [25.6, -27.7],
+            [26.0, -27.45],
+            [26.4, -27.15],
+            [26.7, -27.0],
+            [27.1, -26.95],
+            [27.4, -26.85],
+            [27.3, -26.55],
+            [27.3, -26.3],
+            [27.45, -26.0],
+            [27.7, -25.9],
+            [27.95, -25.75],
+            [27.95, -25.6],
+            [28.05, -25.45],
+            [28.3, -25.32],
+            [27.9, -25.15],
+            [27.5, -25.1],
+            [27.0, -24.85],
+            [26.45, -24.55]
+          ]
+        ]
+      }
+    },
+    {
+      type: 'Feature',
+      properties: { name: 'Gauteng' },
+      geometry: {
+        type: 'Polygon',
+        coordinates: [
+          [
+            [28.3, -25.32],
+            [28.05, -25.45],
+            [27.95, -25.6],
+            [27.95, -25.75],
+            [27.7, -25.9],
+            [27.45, -26.0],
+            [27.3, -26.3],
+            [27.3, -26.55],
+            [27.4, -26.85],
+            [27.6, -26.8],
+            [27.84, -26.75],
+            [28.2, -26.9],
+            [28.35, -26.85],
+            [28.5, -26.6],
+            [28.55, -26.35],
+            [28.6, -26.1],
+            [28.62, -26.0],
+            [28.85, -25.8],
+            [28.85, -25.55],
+            [28.5, -25.35],
+            [28.3, -25.32]
+          ]
+        ]
+      }
+    },
+    {
+      type: 'Feature',
+      properties: { name: 'Limpopo' },
+      geometry: {
+        type: 'Polygon',
+        coordinates: [
+          [
+            [26.45, -24.55],
+            [27.0, -24.85],
+            [27.5, -25.1],
+            [27.9, -25.15],
+            [28.3, -25.32],
+            [28.5, -25.35],
+            [28.85, -25.55],
+            [29.1, -25.3],
+            [29.35, -25.08],
+            [29.7, -25.0],
+            [30.1, -24.9],
+            [30.4, -24.85],
+            [30.5, -24.6],
+            [30.85, -24.55],
+            [31.15, -24.4],
+            [31.5, -24.15],
+            [31.98, -24.05],
+            [31.88, -23.9],
+            [31.55, -22.9],
+            [31.3, -22.42],
+            [30.6, -22.3],
+            [30.0, -22.2],
+            [29.4, -22.2],
+            [29.0, -22.2],
+            [28.1, -22.6],
+            [27.6, -23.2],
+            [27.05, -23.6],
+            [26.85, -24.25],
+            [26.45, -24.55]
+          ]
+        ]
+      }
+    },
+    {
+      type: 'Feature',
+      properties: { name: 'Mpumalanga' },
+      geometry: {
+        type: 'Polygon',
+        coordinates: [
+          [
+            [28.85, -25.55],
+            [28.85, -25.8],
+            [28.62, -26.0],
+            [28.6, -26.1],
+            [28.55, -26.35],
+            [28.5, -26.6],
+            [28.35, -26.85],
+            [28.2, -26.9],
+            [28.6, -26.95],
+            [29.0, -27.1],
+            [29.3, -27.15],
+            [29.6, -27.3],
+            [29.75, -27.45],
+            [30.1, -27.4],
+            [30.5, -27.25],
+            [30.95, -27.25],
+            [30.79, -26.5],
+            [30.9, -26.0],
+            [31.33, -25.72],
+            [31.97, -25.96],
+            [31.97, -25.45],
+            [32.0, -25.0],
+            [31.98, -24.05],
+            [31.5, -24.15],
+            [31.15, -24.4],
+            [30.85, -24.55],
+            [30.5, -24.6],
+            [30.4, -24.85],
+            [30.1, -24.9],
+            [29.7, -25.0],
+            [29.35, -25.08],
+            [29.1, -25.3],
+            [28.85, -25.55]
+          ]
+        ]
+      }
+    },
+    {
+      type: 'Feature',
+      properties: { name: 'KwaZulu-Natal' },
+      geometry: {
+        type: 'Polygon',
+        coordinates: [
+          [
+            [30.95, -27.25],
+            [30.5, -27.25],
+            [30.1, -27.4],
+            [29.75, -27.45],
+            [29.55, -27.85],
+            [29.4, -28.2],
+            [29.25, -28.45],
+            [28.88, -28.75],
+            [29.15, -29.05],
+            [29.43, -29.4],
+            [29.45, -29.75],
+            [29.2, -30.0],
+            [29.3, -30.6],
+            [29.6, -30.7],
+            [30.05, -30.85],
+            [30.19, -31.08],
+            [30.45, -30.74],
+            [30.7, -30.35],
+            [31.05, -29.87],
+            [31.6, -29.25],
+            [32.05, -28.8],
+            [32.42, -28.38],
+            [32.6, -27.6],
+            [32.89, -26.86],
+            [32.13, -26.84],
+            [31.98, -27.3],
+            [31.3, -27.32],
+            [30.95, -27.25]
+          ]
+        ]
+      }
+    }
+  ]
+};
@@ -0,0 +1,242 @@
+// Record and replay of upstream HTTP exchanges. A recording fetch wraps a
+// real fetch: in record mode every request/response pair is saved to a
+// fixture store, in replay mode responses come only from the store, so a
+// check can be reproduced exactly. Shared by the proxy (file store, see
+// api/_lib/fixtureStore.js) and the browser ApiClient (memory store in localStorage).
+
+/** @typedef {'live' | 'record' | 'replay'} RecordingMode */
+/** @typedef {(url: string, init?: RequestInit) => Promise<Response>} FetchLike */
+
+/**
+ * @typedef {object} UpstreamFixture
+ * @property {string} id
+ * @property {string} key
+ * @property {string} recordedAt
+ * @property {{ method: string, url: string, headers: Record<string, string>, body?: string }} request
+ * @property {{ status: number, statusText: string, headers: Record<string, string>, encoding: 'utf8' | 'base64', body: string }} response
+ */
+
+/**
+ * Where fixtures are kept; get and put may be async
+ * @typedef {object} FixtureStore
+ * @property {(id: string) => UpstreamFixture | null | Promise<UpstreamFixture | null>} get
+ * @property {(fixture: UpstreamFixture) => void | Promise<void>} put
+ */
+
+/** @type {RecordingMode[]} */
+export const RECORDING_MODES = ['live', 'record', 'replay'];
+
+// Query parameters that change how a request is served but not its answer
+const DEFAULT_IGNORED_PARAMS = ['refresh'];
+const REDACTED_HEADERS = ['authorization', 'cookie', 'set-cookie', 'x-api-key'];
+const TEXT_TYPES = /^(text\/|application\/(json|xml|geo\+json|vnd\.ogc)|[^;]*\+xml)/i;
+
+/**
+ * Thrown in replay mode when no fixture matches a request. Marked
+ * non-retryable so the resilience layer passes it straight through.
+ */
+export class FixtureMissingError extends Error {
+  /**
+   * @param {string} key
+   */
+  constructor(key) {
+    super(`No recorded response for ${key}`);
+    this.name = 'FixtureMissingError';
+    /** @type {'FIXTURE_MISSING'} */
+    this.code = 'FIXTURE_MISSING';
+    this.key = key;
+    /** @type {false} */
+    this.retryable = false;
+  }
+}
+
+/**
+ * Canonical form of a request: method, URL with sorted query parameters and
+ * the body, if any. Ignored parameters are dropped.
+ * @param {string} url
+ * @param {RequestInit} [init]
+ * @param {string[]} [ignoredParams]
+ */
+export function fixtureKey(url, init = {}, ignoredParams = DEFAULT_IGNORED_PARAMS) {
+  const parsed = new URL(url, 'http://localhost');
+  const params = [...parsed.searchParams.entries()]
+    .filter(([name]) => !ignoredParams.includes(name))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = new URLSearchParams(params).toString();
+
+  const method = (init.method || 'GET').toUpperCase();
+  // Relative URLs (the browser calling its own /api routes) stay relative
+  const target = /^https?:/i.test(url) ? `${parsed.origin}${parsed.pathname}` : parsed.pathname;
+  const body = init.body === undefined || init.body === null ? '' : ` ${String(init.body)}`;
+
+  return `${method} ${target}${query ? `?${query}` : ''}${body}`;
+}
+
+/**
+ * Stable, file-name safe id for a key: host plus a 64-bit hash
+ * @param {string} key
+ */
+export function fixtureId(key) {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < key.length; i++) {
+    const ch = key.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  const host = key.match(/^\S+ https?:\/\/([^/:?]+)/)?.[1] || 'local';
+  const hash = (h2 >>> 0).toString(16).padStart(8, '0') + (h1 >>> 0).toString(16).padStart(8, '0');
+  return `${host}-${hash}`;
+}
+
+/**
+ * @param {HeadersInit | undefined} headers
+ */
+function headerRecord(headers) {
+  /** @type {Record<string, string>} */
+  const record = {};
+  new Headers(headers || {}).forEach((value, name) => {
+    record[name] = REDACTED_HEADERS.includes(name) ? '[redacted]' : value;
+  });
+  return record;
+}
+
+/**
+ * @param {Uint8Array} bytes
+ */
+function toBase64(bytes) {
+  if (typeof Buffer !== 'undefined') return Buffer.from(bytes).toString('base64');
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+}
+
+/**
+ * @param {string} text
+ */
+function fromBase64(text) {
+  if (typeof Buffer !== 'undefined') return new Uint8Array(Buffer.from(text, 'base64'));
+  return Uint8Array.from(atob(text), char => char.charCodeAt(0));
+}
+
+/**
+ * Build the fixture for one exchange; reads a clone so the caller still gets the body
+ * @param {string} key
+ * @param {string} url
+ * @param {RequestInit} init
+ * @param {Response} response
+ * @param {() => Date} [now]
+ * @returns {Promise<UpstreamFixture>}
+ */
+export async function recordExchange(key, url, init, response, now = () => new Date()) {
+  const bytes = new Uint8Array(await response.clone().arrayBuffer());
+  const contentType = response.headers.get('content-type') || '';
+  const isText = TEXT_TYPES.test(contentType);
+
+  return {
+    id: fixtureId(key),
+    key,
+    recordedAt: now().toISOString(),
+    request: {
+      method: (init.method || 'GET').toUpperCase(),
+      url: String(url),
+      headers: headerRecord(init.headers),
+      ...(init.body !== undefined && init.body !== null ? { body: String(init.body) } : {})
+    },
+    response: {
+      status: response.status,
+      statusText: response.statusText,
+      headers: headerRecord(response.headers),
+      encoding: isText ? 'utf8' : 'base64',
+      body: isText ? new TextDecoder().decode(bytes) : toBase64(bytes)
+    }
+  };
+}
+
+/**
+ * Rebuild the Response a fixture was recorded from
+ * @param {UpstreamFixture} fixture
+ */
+export function replayExchange(fixture) {
+  const { status, statusText, headers, encoding, body } = fixture.response;
+  const content = [101, 204, 205, 304].includes(status)
+    ? null
+    : encoding === 'base64' ? fromBase64(body) : body;
+
+  return new Response(content, { status, statusText, headers });
+}
+
+/**
+ * In-memory fixture store
+ * @implements {FixtureStore}
+ */
+export class MemoryFixtureStore {
+  /**
+   * @param {UpstreamFixture[]} [fixtures]
+   */
+  constructor(fixtures = []) {
+    /** @type {Map<string, UpstreamFixture>} */
+    this.fixtures = new Map();
+    fixtures.forEach(fixture => this.fixtures.set(fixture.id, fixture));
+  }
+
+  /**
+   * @param {string} id
+   */
+  get(id) {
+    return this.fixtures.get(id) || null;
+  }
+
+  /**
+   * @param {UpstreamFixture} fixture
+   */
+  put(fixture) {
+    this.fixtures.set(fixture.id, fixture);
+  }
+
+  list() {
+    return Array.from(this.fixtures.values());
+  }
+
+  clear() {
+    this.fixtures.clear();
+  }
+}
+
+/**
+ * fetch() that records to or replays from `store`. Live mode is the plain fetch.
+ * @param {{ mode?: RecordingMode, store?: FixtureStore, fetchImpl?: FetchLike, ignoredParams?: string[], now?: () => Date }} [options]
+ * @returns {FetchLike}
+ */
+export function createRecordingFetch({
+  mode = 'live',
+  store,
+  fetchImpl = (url, init) => fetch(url, init),
+  ignoredParams = DEFAULT_IGNORED_PARAMS,
+  now
+} = {}) {
+  if (!RECORDING_MODES.includes(mode)) {
+    throw new Error(`Unknown recording mode: ${mode}`);
+  }
+  if (mode === 'live') return fetchImpl;
+  if (!store) {
+    throw new Error(`A fixture store is required in ${mode} mode`);
+  }
+
+  return async (url, init = {}) => {
+    const key = fixtureKey(String(url), init, ignoredParams);
+
+    if (mode === 'replay') {
+      const fixture = await store.get(fixtureId(key));
+      if (!fixture) throw new FixtureMissingError(key);
+      return replayExchange(fixture);
+    }
+
+    const response = await fetchImpl(url, init);
+    await store.put(await recordExchange(key, url, init, response, now));
+    return response;
+  };
+}
@@ -0,0 +1,334 @@
+// Shared resilience layer for upstream calls: real AbortController timeouts,
+// jittered retries for idempotent requests and per-endpoint circuit breakers.
+// Used by the coverage proxy and by the browser MTN client.
+
+/** @typedef {'CIRCUIT_OPEN' | 'UPSTREAM_TIMEOUT'} ResilienceErrorCode */
+/** @typedef {'closed' | 'open' | 'half-open'} CircuitState */
+/** @typedef {(url: string, init?: RequestInit) => Promise<Response>} FetchLike */
+
+/**
+ * @typedef {object} RetryPolicy
+ * @property {number} [timeout] ms per attempt
+ * @property {number} [retries] extra attempts for idempotent requests
+ * @property {number | null} [deadline] ms for the whole call, retries and backoff included
+ */
+
+/**
+ * @typedef {object} ResilientFetcherOptions
+ * @property {number} [timeout] ms per attempt
+ * @property {number} [retries] extra attempts for idempotent requests
+ * @property {number | null} [deadline] ms for the whole call, retries and backoff included
+ * @property {number} [baseDelay] ms
+ * @property {number} [maxDelay] ms
+ * @property {number} [failureThreshold]
+ * @property {number} [resetTimeout] ms
+ * @property {FetchLike} [fetchImpl]
+ * @property {() => number} [now]
+ * @property {(ms: number) => Promise<void>} [sleep]
+ * @property {() => number} [random]
+ */
+
+/**
+ * Base class for failures raised by the resilience layer itself
+ */
+export class ResilienceError extends Error {
+  /**
+   * @param {ResilienceErrorCode} code
+   * @param {string} endpoint
+   * @param {string} message
+   */
+  constructor(code, endpoint, message) {
+    super(message);
+    this.name = 'ResilienceError';
+    this.code = code;
+    this.endpoint = endpoint;
+  }
+}
+
+export class CircuitOpenError extends ResilienceError {
+  /**
+   * @param {string} endpoint
+   * @param {number} retryAt
+   */
+  constructor(endpoint, retryAt) {
+    super('CIRCUIT_OPEN', endpoint, `Circuit open for ${endpoint}, retrying after ${new Date(retryAt).toISOString()}`);
+    this.name = 'CircuitOpenError';
+    this.retryAt = retryAt;
+  }
+}
+
+export class UpstreamTimeoutError extends ResilienceError {
+  /**
+   * @param {string} endpoint
+   * @param {number | null} timeout
+   */
+  constructor(endpoint, timeout) {
+    super('UPSTREAM_TIMEOUT', endpoint, `${endpoint} did not respond within ${timeout}ms`);
+    this.name = 'UpstreamTimeoutError';
+  }
+}
+
+/**
+ * closed -> open after `failureThreshold` consecutive failures,
+ * open -> half-open once `resetTimeout` has passed, half-open -> closed on the
+ * next success or straight back to open on the next failure. While half-open
+ * only one trial request is let through; the rest are turned away until it settles.
+ */
+export class CircuitBreaker {
+  /**
+   * @param {{ failureThreshold?: number, resetTimeout?: number, now?: () => number }} [options]
+   */
+  constructor({ failureThreshold = 5, resetTimeout = 30000, now = Date.now } = {}) {
+    this.failureThreshold = failureThreshold;
+    this.resetTimeout = resetTimeout;
+    this.now = now;
+    this.failures = 0;
+    /** @type {number | null} */
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  /** @returns {CircuitState} */
+  get state() {
+    if (this.openedAt === null) return 'closed';
+    return this.now() - this.openedAt >= this.resetTimeout ? 'half-open' : 'open';
+  }
+
+  get retryAt() {
+    return this.openedAt === null ? null : this.openedAt + this.resetTimeout;
+  }
+
+  canRequest() {
+    const state = this.state;
+    return state === 'closed' || (state === 'half-open' && !this.trialInFlight);
+  }
+
+  /**
+   * Claim the right to send a request; in half-open state this takes the single trial slot
+   */
+  tryAcquire() {
+    if (!this.canRequest()) return false;
+    if (this.state === 'half-open') this.trialInFlight = true;
+    return true;
+  }
+
+  /**
+   * Free the trial slot of a request that ended without a verdict, e.g. aborted by the caller
+   */
+  releaseTrial() {
+    this.trialInFlight = false;
+  }
+
+  recordSuccess() {
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  recordFailure() {
+    this.failures += 1;
+    if (this.state === 'half-open' || this.failures >= this.failureThreshold) {
+      this.openedAt = this.now();
+    }
+    this.trialInFlight = false;
+  }
+}
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * @param {number} status
+ */
+function isRetryableStatus(status) {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * fetch() wrapper applying the policy per named endpoint
+ */
+export class ResilientFetcher {
+  /**
+   * @param {ResilientFetcherOptions} [options]
+   */
+  constructor({
+    timeout = 10000,
+    retries = 2,
+    deadline = null,
+    baseDelay = 250,
+    maxDelay = 2000,
+    failureThreshold = 5,
+    resetTimeout = 30000,
+    fetchImpl,
+    now = Date.now,
+    sleep = ms => new Promise(resolve => setTimeout(resolve, ms)),
+    random = Math.random
+  } = {}) {
+    this.options = { timeout, retries, deadline, baseDelay, maxDelay, failureThreshold, resetTimeout };
+    /** @type {FetchLike} */
+    this.fetchImpl = fetchImpl || ((url, init) => fetch(url, init));
+    this.now = now;
+    this.sleep = sleep;
+    this.random = random;
+    /** @type {Map<string, CircuitBreaker>} */
+    this.breakers = new Map();
+  }
+
+  /**
+   * @param {string} endpoint
+   * @returns {CircuitBreaker}
+   */
+  breaker(endpoint) {
+    let breaker = this.breakers.get(endpoint);
+    if (!breaker) {
+      breaker = new CircuitBreaker({
+        failureThreshold: this.options.failureThreshold,
+        resetTimeout: this.options.resetTimeout,
+        now: this.now
+      });
+      this.breakers.set(endpoint, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Fetch `url` on behalf of `endpoint`. Non-idempotent methods are never
+   * retried. Retryable HTTP statuses are returned as-is once retries run out.
+   * With a deadline, attempts and backoff together never take longer than it.
+   * @param {string} endpoint
+   * @param {string} url
+   * @param {RequestInit} [init]
+   * @param {RetryPolicy} [overrides]
+   * @returns {Promise<Response>}
+   */
+  async fetch(endpoint, url, init = {}, overrides = {}) {
+    const policy = { ...this.options, ...overrides };
+    const breaker = this.breaker(endpoint);
+    const trial = breaker.state === 'half-open';
+
+    if (!breaker.tryAcquire()) {
+      // Only an open breaker refuses, so retryAt is set
+      throw new CircuitOpenError(endpoint, /** @type {number} */ (breaker.retryAt));
+    }
+
+    try {
+      return await this.fetchWithRetries(endpoint, url, init, policy, breaker);
+    } finally {
+      if (trial) breaker.releaseTrial();
+    }
+  }
+
+  /**
+   * @param {string} endpoint
+   * @param {string} url
+   * @param {RequestInit} init
+   * @param {{ timeout: number, retries: number, deadline: number | null }} policy
+   * @param {CircuitBreaker} breaker
+   * @returns {Promise<Response>}
+   */
+  async fetchWithRetries(endpoint, url, init, { timeout, retries, deadline }, breaker) {
+    const method = (init.method || 'GET').toUpperCase();
+    const attempts = IDEMPOTENT_METHODS.includes(method) ? retries + 1 : 1;
+    const expiresAt = deadline ? this.now() + deadline : Infinity;
+
+    // The last attempt always returns or throws
+    for (let attempt = 0; ; attempt++) {
+      // An attempt cut short by the deadline leaves no time for another
+      const attemptTimeout = Math.min(timeout, expiresAt - this.now());
+      const last = attempt === attempts - 1 || attemptTimeout < timeout;
+
+      if (attemptTimeout <= 0) {
+        breaker.recordFailure();
+        throw new UpstreamTimeoutError(endpoint, deadline);
+      }
+
+      try {
+        const response = await this.fetchWithTimeout(endpoint, url, init, attemptTimeout);
+
+        if (isRetryableStatus(response.status)) {
+          if (!last) {
+            await this.backoff(attempt, expiresAt);
+            continue;
+          }
+          breaker.recordFailure();
+          return response;
+        }
+
+        breaker.recordSuccess();
+        return response;
+      } catch (error) {
+        // The caller gave up, or the error is not about the endpoint's health
+        // (e.g. a missing replay fixture); neither is worth retrying
+        if (init.signal?.aborted || /** @type {{ retryable?: boolean }} */ (error).retryable === false) throw error;
+
+        if (!last) {
+          await this.backoff(attempt, expiresAt);
+          continue;
+        }
+        breaker.recordFailure();
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * @param {string} endpoint
+   * @param {string} url
+   * @param {RequestInit} init
+   * @param {number} timeout
+   */
+  async fetchWithTimeout(endpoint, url, init, timeout) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeout);
+    const onAbort = () => controller.abort();
+    init.signal?.addEventListener('abort', onAbort);
+
+    try {
+      return await this.fetchImpl(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      if (controller.signal.aborted && !init.signal?.aborted) {
+        throw new UpstreamTimeoutError(endpoint, timeout);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      init.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Full jitter: a random delay up to the exponential cap, never past the deadline
+   * @param {number} attempt
+   * @param {number} [expiresAt]
+   */
+  backoff(attempt, expiresAt = Infinity) {
+    const cap = Math.min(this.options.maxDelay, this.options.baseDelay * 2 ** attempt);
+    return this.sleep(Math.max(0, Math.min(Math.round(this.random() * cap), expiresAt - this.now())));
+  }
+
+  /**
+   * Longest one fetch() can take when every attempt times out: each timeout
+   * plus the largest backoff between them, capped by the deadline
+   * @param {RetryPolicy} [overrides]
+   * @returns {number}
+   */
+  worstCaseDuration(overrides = {}) {
+    const { timeout, retries, deadline, baseDelay, maxDelay } = { ...this.options, ...overrides };
+    let total = timeout * (retries + 1);
+    for (let attempt = 0; attempt < retries; attempt++) {
+      total += Math.min(maxDelay, baseDelay * 2 ** attempt);
+    }
+    return deadline ? Math.min(deadline, total) : total;
+  }
+
+  /**
+   * Breaker state per endpoint, for diagnostics
+   */
+  getStatus() {
+    /** @type {Record<string, { state: CircuitState, failures: number, retryAt: number | null }>} */
+    const status = {};
+    this.breakers.forEach((breaker, endpoint) => {
+      status[endpoint] = { state: breaker.state, failures: breaker.failures, retryAt: breaker.retryAt };
+    });
+    return status;
+  }
+}
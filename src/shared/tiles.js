@@ -0,0 +1,122 @@
+// XYZ tile helpers for the WMS tile proxy. MTN's GeoServer renders in
+// EPSG:900913 (spherical mercator), the same grid Google Maps tiles use,
+// so each tile maps onto exactly one GetMap bounding box. Shared by the tile
+// proxy, the mock server and the browser overlay.
+
+import { mtnEndpoints } from './upstreams.js';
+
+const EARTH_RADIUS = 6378137.0;
+const ORIGIN_SHIFT = Math.PI * EARTH_RADIUS; // 20037508.34m, half the world width
+
+export const TILE_SIZE = 256;
+export const MAX_ZOOM = 20;
+
+/**
+ * @typedef {object} WmsLayerConfig
+ * @property {string} mlid
+ * @property {string} layer
+ * @property {string} style
+ */
+
+// Layer configurations from docs/api-endpoints.md, matching MTNApi.technologyLayers
+/** @type {Record<string, WmsLayerConfig>} */
+export const WMS_LAYERS = {
+  'ALL': { mlid: 'EBU-RBUS-ALL', layer: 'mtnsi:MTN-EBU-RBUS-ALL2', style: 'MTN-EBU-RBUS-ALL' },
+  '2G': { mlid: 'EBU-RBUS-ALL', layer: 'mtnsi:MTNSA-Coverage-2G', style: 'MTN-Coverage-2G' },
+  '3G': { mlid: 'EBU-RBUS-ALL', layer: 'mtnsi:MTNSA-Coverage-3G', style: 'MTN-Coverage-3G' },
+  '4G': { mlid: 'EBU-RBUS-ALL', layer: 'mtnsi:MTNSA-Coverage-4G', style: 'MTN-Coverage-4G' },
+  '5G': { mlid: 'EBU-RBUS-ALL', layer: 'mtnsi:MTNSA-Coverage-5G', style: 'MTN-Coverage-5G' },
+  'UNCAPPED_WIRELESS': { mlid: 'UncappedWirelessEBU', layer: 'mtnsi:MTNSA-Coverage-Tarana', style: 'MTN-Coverage-UWA-EBU' },
+  'FIBRE': { mlid: 'FTTBCoverage', layer: 'mtnsi:MTN-FTTB-Feasible', style: 'MTN-FTTB-Feasible-G' },
+  'LICENSED_WIRELESS': { mlid: 'PMPCoverage', layer: 'mtnsi:MTN-PMP-Feasible-Integrated', style: 'MTN-PMP-Feasible-B' },
+  'FIXED_LTE': { mlid: 'FLTECoverageEBU', layer: 'mtnsi:MTNSA-Coverage-FIXLTE-EBU-0', style: 'MTN-Coverage-FIXLTE-EBU-R' }
+};
+
+// Generous box around South Africa, Lesotho and Eswatini in EPSG:900913
+const COVERAGE_EXTENT = {
+  minX: 1700000,
+  minY: -4250000,
+  maxX: 3750000,
+  maxY: -2450000
+};
+
+/**
+ * Bounding box [minX, minY, maxX, maxY] in metres for an XYZ tile
+ * @param {number} z
+ * @param {number} x
+ * @param {number} y
+ * @returns {[number, number, number, number]}
+ */
+export function tileToMercatorBBox(z, x, y) {
+  const size = (2 * ORIGIN_SHIFT) / 2 ** z;
+  const minX = -ORIGIN_SHIFT + x * size;
+  const maxY = ORIGIN_SHIFT - y * size;
+  return [minX, maxY - size, minX + size, maxY];
+}
+
+/**
+ * Parse and validate z/x/y path segments. y may carry a .png suffix.
+ * Returns null for anything outside the tile pyramid.
+ * @param {unknown} z
+ * @param {unknown} x
+ * @param {unknown} y
+ * @returns {{ z: number, x: number, y: number } | null}
+ */
+export function parseTile(z, x, y) {
+  const values = [z, x, String(y).replace(/\.png$/i, '')].map(value => Number(value));
+  if (!values.every(Number.isInteger)) return null;
+
+  const [zoom, col, row] = values;
+  const count = 2 ** zoom;
+  if (zoom < 0 || zoom > MAX_ZOOM || col < 0 || col >= count || row < 0 || row >= count) {
+    return null;
+  }
+
+  return { z: zoom, x: col, y: row };
+}
+
+/**
+ * Whether a tile can contain MTN coverage at all
+ * @param {number} z
+ * @param {number} x
+ * @param {number} y
+ */
+export function tileIntersectsCoverage(z, x, y) {
+  const [minX, minY, maxX, maxY] = tileToMercatorBBox(z, x, y);
+  return maxX > COVERAGE_EXTENT.minX && minX < COVERAGE_EXTENT.maxX &&
+    maxY > COVERAGE_EXTENT.minY && minY < COVERAGE_EXTENT.maxY;
+}
+
+/**
+ * WMS GetMap URL for one tile of a technology layer, on the live GeoServer
+ * unless another WMS endpoint is given
+ * @param {string} technology
+ * @param {number} z
+ * @param {number} x
+ * @param {number} y
+ * @param {string} [geoserver]
+ * @returns {string | null}
+ */
+export function buildTileUrl(technology, z, x, y, geoserver = mtnEndpoints().geoserver) {
+  const config = WMS_LAYERS[technology];
+  if (!config) return null;
+
+  const params = new URLSearchParams({
+    mlid: config.mlid,
+    SERVICE: 'WMS',
+    REQUEST: 'GetMap',
+    VERSION: '1.1.1',
+    LAYERS: config.layer,
+    STYLES: config.style,
+    FORMAT: 'image/png',
+    TRANSPARENT: 'TRUE',
+    TILED: 'TRUE',
+    SRS: 'EPSG:900913',
+    BBOX: tileToMercatorBBox(z, x, y).join(','),
+    WIDTH: String(TILE_SIZE),
+    HEIGHT: String(TILE_SIZE)
+  });
+
+  return `${geoserver}?${params.toString()}`;
+}
+
@@ -0,0 +1,58 @@
+// Base URLs of the MTN services. The defaults are the live hosts; override
+// them to point the proxy and the browser client at the local mock server
+// (mock/mtn-server.js). Paths stay the same on every host.
+// Plain JavaScript with JSDoc types, so Node runs it as-is for the api/
+// routes and the mock server while tsc checks it with the rest of src/.
+
+/**
+ * @typedef {object} MtnBaseUrls
+ * @property {string} gis
+ * @property {string} api
+ * @property {string} web
+ */
+
+/**
+ * @typedef {object} MtnEndpoints
+ * @property {string} geoserver
+ * @property {string} coveragePoint
+ * @property {string} publicCoverageApi
+ * @property {string} consumerApi
+ * @property {string} signalApi
+ * @property {string} publicCoverage
+ * @property {string} coverageMap
+ */
+
+/** @type {MtnBaseUrls} */
+export const DEFAULT_BASE_URLS = {
+  gis: 'https://mtnsi.mtn.co.za',   // GeoServer WMS and the coverage point API
+  api: 'https://api.mtn.co.za',     // consumer availability and signal APIs
+  web: 'https://www.mtn.co.za'      // public website coverage query
+};
+
+/**
+ * Fill in defaults for missing base URLs and drop trailing slashes
+ * @param {Partial<MtnBaseUrls>} [overrides]
+ * @returns {MtnBaseUrls}
+ */
+export function resolveBaseUrls(overrides = {}) {
+  const trim = (/** @type {keyof MtnBaseUrls} */ name) => (overrides[name] || DEFAULT_BASE_URLS[name]).replace(/\/+$/, '');
+  return { gis: trim('gis'), api: trim('api'), web: trim('web') };
+}
+
+/**
+ * Full endpoint URLs on a set of base URLs
+ * @param {Partial<MtnBaseUrls>} [baseUrls]
+ * @returns {MtnEndpoints}
+ */
+export function mtnEndpoints(baseUrls = DEFAULT_BASE_URLS) {
+  const { gis, api, web } = resolveBaseUrls(baseUrls);
+  return {
+    geoserver: `${gis}/cache/geoserver/wms`,
+    coveragePoint: `${gis}/coverage/api/point`,
+    publicCoverageApi: `${gis}/coverage/api/public/coverage`,
+    consumerApi: `${api}/coverage/v1/availability`,
+    signalApi: `${api}/coverage/v1/signal`,
+    publicCoverage: `${web}/home/coverage/query`,
+    coverageMap: `${web}/home/coverage/`
+  };
+}
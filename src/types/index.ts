@@ -9,52 +9,170 @@ export interface CoverageResult {
   coverage: CoverageData;
   errors: ErrorInfo[];
   success: boolean;
+  technologies?: MergedTechnologyCoverage[];
+  lastChecked?: string; // ISO time of the oldest cached answer used, when served from cache
 }
 
-export interface CoverageData {
-  publicQuery?: {
-    available: boolean;
-    data: any;
-    source: string;
-  };
-  coveragePoint?: {
-    available: boolean;
-    types: TechnologyCoverage[];
-    source: string;
-  };
-  wmsFeatures?: {
-    available: boolean;
-    features: any[];
-    source: string;
+interface CoverageSourceBase {
+  available: boolean;
+  source: string;
+  types: TechnologyCoverage[];
+}
+
+export interface PublicQuerySource extends CoverageSourceBase {
+  kind: 'publicQuery';
+  data: Record<string, unknown>;
+}
+
+export interface CoveragePointSource extends CoverageSourceBase {
+  kind: 'coveragePoint';
+}
+
+export interface WmsFeaturesSource extends CoverageSourceBase {
+  kind: 'wmsFeatures';
+  features: GeoJSONFeature[];
+}
+
+export interface ConsumerApiSource extends CoverageSourceBase {
+  kind: 'consumerApi';
+  services: Record<string, unknown>;
+}
+
+export interface MtnGeoServerSource extends CoverageSourceBase {
+  kind: 'mtnGeoServer';
+  coordinates: {
+    lat: number;
+    lng: number;
   };
-  consumerApi?: {
-    available: boolean;
-    services: any;
-    source: string;
+  address?: string;
+  errors?: Array<{ tech: string; error: string }>;
+}
+
+export interface MtnProxySource extends CoverageSourceBase {
+  kind: 'mtnProxy';
+}
+
+export interface TaranaStaticSource extends CoverageSourceBase {
+  kind: 'taranaStatic';
+  metadata: {
+    dataDate: string;
+    totalTowers: number;
   };
 }
 
+export interface ProviderSource extends CoverageSourceBase {
+  kind: 'provider';
+  providerId: string;
+}
+
+export type CoverageSource =
+  | PublicQuerySource
+  | CoveragePointSource
+  | WmsFeaturesSource
+  | ConsumerApiSource
+  | MtnGeoServerSource
+  | MtnProxySource
+  | TaranaStaticSource
+  | ProviderSource;
+
+export type CoverageSourceKind = CoverageSource['kind'];
+
+// Keyed by source kind, or by provider id for registry results
+export type CoverageData = Record<string, CoverageSource>;
+
+export interface GeoJSONGeometry {
+  type: string;
+  coordinates?: unknown;
+  geometries?: GeoJSONGeometry[];
+}
+
+export interface GeoJSONFeature {
+  type: 'Feature';
+  id?: string | number;
+  geometry: GeoJSONGeometry | null;
+  properties: Record<string, unknown> | null;
+}
+
+/**
+ * One feature from a GeoServer text/plain GetFeatureInfo dump, as parsed by the proxy
+ */
+export interface FeatureInfoFeature {
+  layer: string;
+  id: string;
+  attributes: Record<string, string | number>;
+}
+
 export interface TechnologyCoverage {
   type: TechnologyType;
   available: boolean;
   strength?: 'low' | 'medium' | 'high';
   speed?: string;
   quality?: number;
+  infrastructureType?: string;
+  provider?: string;
+  details?: Record<string, string | number>;
+  features?: GeoJSONFeature[];
+}
+
+export interface MergedTechnologyCoverage extends TechnologyCoverage {
+  providers: Array<{
+    providerId: string;
+    available: boolean;
+    strength?: TechnologyCoverage['strength'];
+    quality?: number;
+  }>;
 }
 
-export type TechnologyType =
-  | '2G'
-  | '3G'
-  | '4G'
-  | '5G'
-  | 'UNCAPPED_WIRELESS'
-  | 'FIBRE'
-  | 'LICENSED_WIRELESS'
-  | 'FIXED_LTE';
+/**
+ * Every technology the checker reports, in display order
+ */
+export const TECHNOLOGY_TYPES = [
+  '2G', '3G', '4G', '5G', 'UNCAPPED_WIRELESS', 'FIBRE', 'LICENSED_WIRELESS', 'FIXED_LTE'
+] as const;
+
+export type TechnologyType = typeof TECHNOLOGY_TYPES[number];
+
+export interface ProviderCoverage {
+  source: string;
+  types: TechnologyCoverage[];
+  errors?: ErrorInfo[];
+  lastChecked?: string;
+}
+
+export interface CoverageCheckOptions {
+  forceRefresh?: boolean; // bypass cached answers and re-query upstream
+}
+
+export interface CoverageProvider {
+  id: string;
+  name: string;
+  priority: number;
+  technologies: TechnologyType[];
+  checkCoverage(lat: number, lng: number, address?: string, options?: CoverageCheckOptions): Promise<ProviderCoverage>;
+}
+
+export type MergeStrategy = 'priority' | 'any';
+
+/**
+ * Body of a successful /api/coverage lookup. GetFeatureInfo text is parsed into
+ * features by the proxy; older deployments returned it raw as 'text'.
+ */
+export type ProxyCoverageResponse =
+  | { type: 'features'; features: FeatureInfoFeature[]; technology?: string; coordinates?: { lat: number; lng: number } }
+  | { type: 'text'; content: string }
+  | { type: 'binary'; content: string; contentType?: string; technology?: string; coordinates?: { lat: number; lng: number } };
+
+/**
+ * One technology in a /api/coverage-batch response
+ */
+export type BatchCoverageItem =
+  | { status: 'ok'; cache?: string; data: ProxyCoverageResponse }
+  | { status: 'error'; cache?: string; error: string; code?: string };
 
 export interface ErrorInfo {
   endpoint: number | string;
   error: string;
+  code?: string; // machine readable reason, e.g. CIRCUIT_OPEN or UPSTREAM_TIMEOUT
 }
 
 export interface AddressSearchResult {
@@ -70,8 +188,26 @@ export interface AddressSearchResult {
   types: string[];
 }
 
-export interface ToggleState {
-  [key in TechnologyType]: boolean;
+export type ToggleState = Record<TechnologyType, boolean>;
+
+export interface OverlaySettings {
+  color: string;
+  opacity: number; // 0-1
+  zIndex: number; // higher draws on top
+}
+
+export type OverlayState = Record<TechnologyType, OverlaySettings>;
+
+export interface LegendEntry {
+  label: string;
+  color: string; // upstream symbol colour
+  opacity: number; // 0-1, as rendered into the tiles
+}
+
+export interface CoverageLegend {
+  technology: TechnologyType;
+  entries: LegendEntry[];
+  source: 'upstream' | 'bundled';
 }
 
 export interface GoogleMapsConfig {
@@ -1,6 +1,27 @@
 // API client for handling both development and production environments
 // Uses Vercel proxy in production, handles direct calls in development
 
+import {
+  BatchCoverageItem,
+  CoverageCheckOptions,
+  CoverageResult,
+  ErrorInfo,
+  FeatureInfoFeature,
+  LegendEntry,
+  ProxyCoverageResponse,
+  TECHNOLOGY_TYPES,
+  TechnologyCoverage,
+  TechnologyType
+} from '../types';
+import { ResilienceError } from '../shared/resilience';
+import { mtnEndpoints } from '../shared/upstreams';
+import { CachedValue, coverageCache } from './coverageCache';
+import { normalizeCoverageResult } from './coverageNormalizer';
+import { upstreamRecorder } from './upstreamRecorder';
+
+// A technology whose lookup failed, with the proxy's resilience code if it sent one
+type LookupFailure = { error: string; code?: string };
+
 export class ApiClient {
   private baseUrl: string;
   private useProxy: boolean;
@@ -8,6 +29,7 @@ export class ApiClient {
   constructor() {
     // Detect environment
     this.useProxy = process.env.NODE_ENV === 'production' ||
+                   typeof window === 'undefined' ||
                    window.location.hostname !== 'localhost';
 
     this.baseUrl = this.useProxy ? '' : 'http://localhost:3001';
@@ -16,7 +38,12 @@ export class ApiClient {
   /**
    * Proxy MTN coverage API calls through Vercel function for a single technology
    */
-  async checkSingleTechnology(lat: number, lng: number, technology: string = 'ALL'): Promise<any> {
+  async checkSingleTechnology(
+    lat: number,
+    lng: number,
+    technology: string = 'ALL',
+    options: CoverageCheckOptions = {}
+  ): Promise<ProxyCoverageResponse> {
     try {
       const params = new URLSearchParams({
         lat: lat.toString(),
@@ -25,11 +52,16 @@ export class ApiClient {
         type: 'wms'
       });
 
+      // Ask the proxy to skip its server-side cache as well
+      if (options.forceRefresh) {
+        params.set('refresh', '1');
+      }
+
       const url = this.useProxy
         ? `/api/coverage?${params.toString()}`
         : `${this.baseUrl}/api/coverage?${params.toString()}`;
 
-      const response = await fetch(url, {
+      const response = await upstreamRecorder.fetch(url, {
         method: 'GET',
         headers: {
           'Accept': 'application/json',
@@ -39,7 +71,13 @@ export class ApiClient {
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+        const message = errorData.error || `HTTP ${response.status}: ${response.statusText}`;
+
+        // Keep the proxy's resilience code (CIRCUIT_OPEN, UPSTREAM_TIMEOUT) for CoverageResult.errors
+        if (errorData.code) {
+          throw new ResilienceError(errorData.code, `coverage:${technology}`, message);
+        }
+        throw new Error(message);
       }
 
       return await response.json();
@@ -52,34 +90,117 @@ export class ApiClient {
   /**
    * Check coverage for multiple technologies
    */
-  async checkMultipleTechnologies(lat: number, lng: number, technologies: string[]): Promise<Record<string, any>> {
-    const results: Record<string, any> = {};
-
-    // Run checks in parallel for better performance
-    const promises = technologies.map(async (tech) => {
-      try {
-        const result = await this.checkSingleTechnology(lat, lng, tech);
-        return { tech, result };
-      } catch (error) {
-        return { tech, error: error instanceof Error ? error.message : 'Unknown error' };
+  async checkMultipleTechnologies(
+    lat: number,
+    lng: number,
+    technologies: string[],
+    options: CoverageCheckOptions = {}
+  ): Promise<Record<string, ProxyCoverageResponse | LookupFailure>> {
+    const cached = await this.checkTechnologiesCached(lat, lng, technologies, options);
+    const results: Record<string, ProxyCoverageResponse | LookupFailure> = {};
+
+    Object.entries(cached).forEach(([tech, entry]) => {
+      results[tech] = 'error' in entry ? entry : entry.value;
+    });
+
+    return results;
+  }
+
+  /**
+   * Check several technologies with one call to the batched proxy route.
+   * Per-technology failures come back as items with status 'error'.
+   */
+  async checkTechnologyBatch(
+    lat: number,
+    lng: number,
+    technologies: string[],
+    options: CoverageCheckOptions = {}
+  ): Promise<Record<string, BatchCoverageItem>> {
+    const params = new URLSearchParams({
+      lat: lat.toString(),
+      lng: lng.toString(),
+      technologies: technologies.join(',')
+    });
+
+    // Ask the proxy to skip its server-side cache as well
+    if (options.forceRefresh) {
+      params.set('refresh', '1');
+    }
+
+    const url = this.useProxy
+      ? `/api/coverage-batch?${params.toString()}`
+      : `${this.baseUrl}/api/coverage-batch?${params.toString()}`;
+
+    const response = await upstreamRecorder.fetch(url, {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json'
       }
     });
 
-    const responses = await Promise.allSettled(promises);
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
 
-    responses.forEach((response) => {
-      if (response.status === 'fulfilled') {
-        const { tech, result, error } = response.value;
-        if (error) {
-          results[tech] = { error };
-        } else {
-          results[tech] = result;
-        }
+    const data = await response.json();
+    return data.results || {};
+  }
+
+  /**
+   * Per-technology proxy lookups through the persistent coverage cache.
+   * Everything not cached is fetched with a single batched request.
+   * Failed lookups are returned as { error } and never cached.
+   */
+  private async checkTechnologiesCached(
+    lat: number,
+    lng: number,
+    technologies: string[],
+    options: CoverageCheckOptions
+  ): Promise<Record<string, CachedValue<ProxyCoverageResponse> | LookupFailure>> {
+    const results: Record<string, CachedValue<ProxyCoverageResponse> | LookupFailure> = {};
+    const missing: string[] = [];
+    const cacheKey = (tech: string) => coverageCache.key('mtnProxy', lat, lng, tech as TechnologyType | 'ALL');
+
+    for (const tech of technologies) {
+      const entry = options.forceRefresh ? null : await coverageCache.get<ProxyCoverageResponse>(cacheKey(tech));
+
+      if (entry) {
+        results[tech] = { value: entry.value, checkedAt: new Date(entry.storedAt).toISOString(), fromCache: true };
       } else {
-        // This shouldn't happen with Promise.allSettled, but handle just in case
-        console.error('Unexpected promise rejection:', response.reason);
+        missing.push(tech);
       }
-    });
+    }
+
+    if (missing.length === 0) {
+      return results;
+    }
+
+    let batch: Record<string, BatchCoverageItem>;
+    try {
+      batch = await this.checkTechnologyBatch(lat, lng, missing, options);
+    } catch (error) {
+      console.error('Batched coverage check failed:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      missing.forEach(tech => {
+        results[tech] = { error: message };
+      });
+      return results;
+    }
+
+    const checkedAt = new Date().toISOString();
+    for (const tech of missing) {
+      const item = batch[tech];
+
+      if (!item) {
+        results[tech] = { error: 'No response' };
+      } else if (item.status === 'error') {
+        results[tech] = { error: item.error, code: item.code };
+      } else {
+        await coverageCache.set(cacheKey(tech), tech as TechnologyType | 'ALL', item.data);
+        results[tech] = { value: item.data, checkedAt, fromCache: false };
+      }
+    }
 
     return results;
   }
@@ -97,7 +218,7 @@ export class ApiClient {
         ? `/api/geocode?${params.toString()}`
         : `${this.baseUrl}/api/geocode?${params.toString()}`;
 
-      const response = await fetch(url, {
+      const response = await upstreamRecorder.fetch(url, {
         method: 'GET',
         headers: {
           'Accept': 'application/json'
@@ -119,73 +240,70 @@ export class ApiClient {
   /**
    * Check coverage for a location with address - compatible with existing app structure
    */
-  async checkCoverage(lat: number, lng: number, address: string): Promise<any> {
+  async checkCoverage(
+    lat: number,
+    lng: number,
+    address: string,
+    options: CoverageCheckOptions = {}
+  ): Promise<CoverageResult> {
+    const technologies: TechnologyType[] = [...TECHNOLOGY_TYPES];
+    const types: TechnologyCoverage[] = [];
+    const errors: ErrorInfo[] = [];
+    let lastChecked: string | undefined;
+
     try {
       // Check multiple technologies in parallel
-      const technologies = ['2G', '3G', '4G', '5G', 'UNCAPPED_WIRELESS', 'FIBRE', 'LICENSED_WIRELESS', 'FIXED_LTE'];
-      const results = await this.checkMultipleTechnologies(lat, lng, technologies);
-
-      // Process results to determine coverage availability
-      const processedCoverage: any = {};
-
-      Object.entries(results).forEach(([tech, result]: [string, any]) => {
-        // Ensure we always have a proper structure with types array
-        const hasCoverage = (result && !result.error) ? this.parseCoverageResult(result) : false;
-
-        processedCoverage[tech] = {
-          types: [{
-            type: tech,
-            available: hasCoverage,
-            signal_strength: hasCoverage ? 'Good' : 'No Signal',
-            technology: tech
-          }]
-        };
-      });
+      const results = await this.checkTechnologiesCached(lat, lng, technologies, options);
 
-      // Format the response to match the expected structure
-      return {
-        address,
-        coordinates: { lat, lng },
-        coverage: processedCoverage,
-        timestamp: new Date().toISOString(),
-        source: 'MTN Live API (via Vercel proxy)'
-      };
-    } catch (error) {
-      console.error('Coverage check failed:', error);
+      technologies.forEach(tech => {
+        const entry = results[tech];
 
-      // Return a safe structure with empty coverage for all technologies
-      const safeCoverage: any = {};
-      const technologies = ['2G', '3G', '4G', '5G', 'UNCAPPED_WIRELESS', 'FIBRE', 'LICENSED_WIRELESS', 'FIXED_LTE'];
+        // Failed technologies are left out so they read as unknown rather than unavailable
+        if (!entry || 'error' in entry) {
+          errors.push({ endpoint: tech, error: entry?.error || 'No response', code: entry?.code });
+          return;
+        }
 
-      technologies.forEach(tech => {
-        safeCoverage[tech] = {
-          types: [{
-            type: tech,
-            available: false,
-            signal_strength: 'No Signal',
-            technology: tech
-          }]
-        };
+        if (entry.fromCache && (!lastChecked || entry.checkedAt < lastChecked)) {
+          lastChecked = entry.checkedAt;
+        }
+        types.push(this.parseTechnologyCoverage(tech, entry.value));
       });
-
-      return {
-        address,
-        coordinates: { lat, lng },
-        coverage: safeCoverage,
-        timestamp: new Date().toISOString(),
-        source: 'MTN Live API (via Vercel proxy)',
-        error: error instanceof Error ? error.message : 'Coverage check failed'
-      };
+    } catch (error) {
+      console.error('Coverage check failed:', error);
+      errors.push({ endpoint: 'api', error: error instanceof Error ? error.message : 'Coverage check failed' });
     }
+
+    return normalizeCoverageResult({
+      address,
+      coordinates: { lat, lng },
+      timestamp: new Date().toISOString(),
+      coverage: {
+        mtnProxy: {
+          kind: 'mtnProxy',
+          available: types.some(tech => tech.available),
+          source: 'MTN Live API (via Vercel proxy)',
+          types
+        }
+      },
+      errors,
+      success: types.length > 0,
+      lastChecked
+    });
   }
 
   /**
    * Parse MTN API response to determine if coverage is available
    */
-  private parseCoverageResult(result: any): boolean {
+  parseCoverageResult(result: ProxyCoverageResponse | undefined): boolean {
     if (!result) return false;
 
-    // If it's a text response, check for coverage indicators
+    // Structured GetFeatureInfo results parsed by the proxy
+    if (result.type === 'features' && Array.isArray(result.features)) {
+      return result.features.length > 0;
+    }
+
+    // Raw text responses from older proxy deployments: check for coverage indicators
     if (result.type === 'text' && result.content) {
       const content = result.content.toLowerCase();
       // MTN returns specific text when there's no coverage
@@ -203,6 +321,62 @@ export class ApiClient {
     return false;
   }
 
+  /**
+   * Build a TechnologyCoverage from a proxy response, carrying the parsed
+   * GetFeatureInfo attributes (signal class, feasibility status, ...) when present
+   */
+  parseTechnologyCoverage(technology: TechnologyType, result: ProxyCoverageResponse): TechnologyCoverage {
+    const coverage: TechnologyCoverage = {
+      type: technology,
+      available: this.parseCoverageResult(result)
+    };
+
+    if (!coverage.available || result.type !== 'features') {
+      return coverage;
+    }
+
+    const features: FeatureInfoFeature[] = result.features;
+    const strength = this.strengthFromAttributes(features);
+
+    if (strength) coverage.strength = strength;
+    coverage.details = { ...features[0].attributes };
+    coverage.features = features.map(feature => ({
+      type: 'Feature',
+      id: feature.id,
+      geometry: null,
+      properties: { layer: feature.layer, ...feature.attributes }
+    }));
+
+    return coverage;
+  }
+
+  /**
+   * Best signal class across all features, read from attributes such as
+   * `signal`, `class` or `quality`. Undefined when no attribute says.
+   */
+  private strengthFromAttributes(features: FeatureInfoFeature[]): TechnologyCoverage['strength'] {
+    const rank = { low: 1, medium: 2, high: 3 };
+    let best: TechnologyCoverage['strength'];
+
+    features.forEach(feature => {
+      Object.entries(feature.attributes).forEach(([key, value]) => {
+        if (!/signal|strength|class|quality|rating/i.test(key)) return;
+
+        const text = String(value).toLowerCase();
+        const strength = /excellent|good|strong|high/.test(text) ? 'high'
+          : /fair|medium|moderate|average/.test(text) ? 'medium'
+          : /poor|weak|low|marginal/.test(text) ? 'low'
+          : undefined;
+
+        if (strength && (!best || rank[strength] > rank[best])) {
+          best = strength;
+        }
+      });
+    });
+
+    return best;
+  }
+
   /**
    * Generate WMS URL for coverage overlay using proxy
    */
@@ -223,6 +397,39 @@ export class ApiClient {
       : `${this.baseUrl}/api/coverage?${params.toString()}`;
   }
 
+  /**
+   * URL of one XYZ coverage tile served by the tile proxy
+   */
+  getTileUrl(technology: TechnologyType | 'ALL', z: number, x: number, y: number): string {
+    const path = `/api/tiles/${technology}/${z}/${x}/${y}.png`;
+    return this.useProxy ? path : `${this.baseUrl}${path}`;
+  }
+
+  /**
+   * Legend classes for a technology's layer style, from GetLegendGraphic via the proxy
+   */
+  async fetchLegend(technology: TechnologyType): Promise<LegendEntry[]> {
+    const params = new URLSearchParams({ technology });
+    const url = this.useProxy
+      ? `/api/legend?${params.toString()}`
+      : `${this.baseUrl}/api/legend?${params.toString()}`;
+
+    const response = await upstreamRecorder.fetch(url, {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json'
+      }
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Legend request failed: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data.entries;
+  }
+
   /**
    * Test if the proxy is working
    */
@@ -239,7 +446,8 @@ export class ApiClient {
 
     // Test direct MTN API (will likely fail due to CORS)
     try {
-      const directResponse = await fetch('https://mtnsi.mtn.co.za/cache/geoserver/wms?mlid=EBU-RBUS-ALL&SERVICE=WMS&REQUEST=GetFeatureInfo');
+      const { geoserver } = mtnEndpoints({ gis: import.meta.env?.VITE_MTN_GIS_BASE_URL });
+      const directResponse = await fetch(`${geoserver}?mlid=EBU-RBUS-ALL&SERVICE=WMS&REQUEST=GetFeatureInfo`);
       results.direct = directResponse.ok;
     } catch (error) {
       console.log('Direct API test failed (expected due to CORS):', error);
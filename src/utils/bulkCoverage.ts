@@ -0,0 +1,332 @@
+import { TECHNOLOGY_TYPES, TechnologyType } from '../types';
+import { ApiClient, apiClient } from './apiClient';
+import { rowsToCSV, rowsToXLSX } from './exportFiles';
+
+export type BulkRowStatus = 'pending' | 'done' | 'error';
+
+export interface BulkRow {
+  index: number;
+  input: {
+    address?: string;
+    lat?: number;
+    lng?: number;
+  };
+  status: BulkRowStatus;
+  address?: string;
+  lat?: number;
+  lng?: number;
+  coverage?: Partial<Record<TechnologyType, boolean | 'error'>>;
+  error?: string;
+}
+
+export interface BulkJob {
+  id: string;
+  fileName: string;
+  createdAt: string;
+  rows: BulkRow[];
+}
+
+export interface BulkProgress {
+  total: number;
+  done: number;
+  failed: number;
+  pending: number;
+}
+
+export interface BulkRunOptions {
+  concurrency?: number;
+  technologies?: TechnologyType[];
+  signal?: AbortSignal;
+  onProgress?: (job: BulkJob, progress: BulkProgress) => void;
+}
+
+export interface BulkRunnerOptions {
+  client?: Pick<ApiClient, 'checkMultipleTechnologies' | 'parseCoverageResult' | 'geocodeAddress'>;
+  storage?: Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+}
+
+const STORAGE_KEY = 'mtn-coverage-bulk-job';
+const MAX_ROWS = 5000;
+
+/**
+ * Split CSV text into rows of fields, honouring quoted fields and escaped quotes
+ */
+export function parseCSV(csvText: string): string[][] {
+  // Excel prefixes UTF-8 exports with a byte order mark
+  const text = csvText.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+/**
+ * Build a bulk job from an uploaded CSV. The header must contain an
+ * `address` column, `lat`/`lng` (or `latitude`/`longitude`) columns, or both.
+ */
+export function createBulkJob(csvText: string, fileName: string): BulkJob {
+  const [header, ...body] = parseCSV(csvText);
+  if (!header) {
+    throw new Error('CSV file is empty');
+  }
+
+  const columns = header.map(name => name.trim().toLowerCase());
+  const addressCol = columns.findIndex(name => name === 'address');
+  const latCol = columns.findIndex(name => name === 'lat' || name === 'latitude');
+  const lngCol = columns.findIndex(name => ['lng', 'lon', 'long', 'longitude'].includes(name));
+
+  if (addressCol === -1 && (latCol === -1 || lngCol === -1)) {
+    throw new Error('CSV needs an "address" column or "lat" and "lng" columns');
+  }
+  if (body.length > MAX_ROWS) {
+    throw new Error(`CSV has ${body.length} rows, the limit is ${MAX_ROWS}`);
+  }
+
+  const rows: BulkRow[] = body.map((values, index) => {
+    const lat = latCol >= 0 ? parseFloat(values[latCol]) : NaN;
+    const lng = lngCol >= 0 ? parseFloat(values[lngCol]) : NaN;
+    const address = addressCol >= 0 ? values[addressCol]?.trim() : undefined;
+
+    return {
+      index: index + 1,
+      input: {
+        address: address || undefined,
+        lat: isNaN(lat) ? undefined : lat,
+        lng: isNaN(lng) ? undefined : lng
+      },
+      status: 'pending'
+    };
+  });
+
+  return {
+    id: `${Date.now()}`,
+    fileName,
+    createdAt: new Date().toISOString(),
+    rows
+  };
+}
+
+export function getBulkProgress(job: BulkJob): BulkProgress {
+  const done = job.rows.filter(row => row.status === 'done').length;
+  const failed = job.rows.filter(row => row.status === 'error').length;
+
+  return {
+    total: job.rows.length,
+    done,
+    failed,
+    pending: job.rows.length - done - failed
+  };
+}
+
+/**
+ * Runs bulk coverage jobs with bounded concurrency. Progress is persisted after
+ * every row so an interrupted job can be resumed from where it stopped.
+ */
+export class BulkCoverageRunner {
+  private client: NonNullable<BulkRunnerOptions['client']>;
+  private storage?: BulkRunnerOptions['storage'];
+
+  constructor(options: BulkRunnerOptions = {}) {
+    this.client = options.client ?? apiClient;
+    this.storage = options.storage ?? (typeof localStorage !== 'undefined' ? localStorage : undefined);
+  }
+
+  /**
+   * Process every pending row of the job. Rows that already finished are skipped,
+   * so calling this again on a saved job resumes it.
+   */
+  async run(job: BulkJob, options: BulkRunOptions = {}): Promise<BulkJob> {
+    const {
+      concurrency = 4,
+      technologies = [...TECHNOLOGY_TYPES],
+      signal,
+      onProgress
+    } = options;
+
+    const queue = job.rows.filter(row => row.status === 'pending');
+
+    const worker = async () => {
+      while (queue.length > 0 && !signal?.aborted) {
+        const row = queue.shift()!;
+        await this.processRow(row, technologies);
+        this.saveJob(job);
+        onProgress?.(job, getBulkProgress(job));
+      }
+    };
+
+    const workers = Array.from({ length: Math.max(1, concurrency) }, () => worker());
+    await Promise.all(workers);
+
+    return job;
+  }
+
+  /**
+   * Put failed rows back in the queue
+   */
+  resetFailed(job: BulkJob): BulkJob {
+    job.rows.forEach(row => {
+      if (row.status === 'error') {
+        row.status = 'pending';
+        row.error = undefined;
+      }
+    });
+    this.saveJob(job);
+    return job;
+  }
+
+  private async processRow(row: BulkRow, technologies: TechnologyType[]): Promise<void> {
+    try {
+      const location = await this.resolveLocation(row);
+      row.address = location.address;
+      row.lat = location.lat;
+      row.lng = location.lng;
+
+      const results = await this.client.checkMultipleTechnologies(location.lat, location.lng, technologies);
+      const coverage: BulkRow['coverage'] = {};
+      const failures: string[] = [];
+
+      technologies.forEach(tech => {
+        const result = results[tech];
+        if (!result || 'error' in result) {
+          coverage[tech] = 'error';
+          failures.push(`${tech}: ${result?.error || 'No response'}`);
+        } else {
+          coverage[tech] = this.client.parseCoverageResult(result);
+        }
+      });
+
+      row.coverage = coverage;
+      if (failures.length === technologies.length) {
+        row.status = 'error';
+        row.error = failures.join('; ');
+      } else {
+        row.status = 'done';
+        row.error = failures.length > 0 ? failures.join('; ') : undefined;
+      }
+    } catch (error) {
+      row.status = 'error';
+      row.error = error instanceof Error ? error.message : 'Unknown error';
+    }
+  }
+
+  private async resolveLocation(row: BulkRow): Promise<{ address: string; lat: number; lng: number }> {
+    const { address, lat, lng } = row.input;
+
+    if (lat !== undefined && lng !== undefined) {
+      return { address: address || `${lat}, ${lng}`, lat, lng };
+    }
+    if (!address) {
+      throw new Error('Row has no address or coordinates');
+    }
+
+    const geocoded = await this.client.geocodeAddress(address);
+    const match = geocoded?.results?.[0];
+    if (!match) {
+      throw new Error(`Address not found: ${address}`);
+    }
+
+    return {
+      address: match.formatted_address,
+      lat: match.geometry.location.lat,
+      lng: match.geometry.location.lng
+    };
+  }
+
+  saveJob(job: BulkJob): void {
+    try {
+      this.storage?.setItem(STORAGE_KEY, JSON.stringify(job));
+    } catch (error) {
+      console.error('Failed to save bulk job:', error);
+    }
+  }
+
+  loadJob(): BulkJob | null {
+    try {
+      const saved = this.storage?.getItem(STORAGE_KEY);
+      return saved ? JSON.parse(saved) : null;
+    } catch (error) {
+      console.error('Failed to load bulk job:', error);
+      return null;
+    }
+  }
+
+  clearJob(): void {
+    this.storage?.removeItem(STORAGE_KEY);
+  }
+}
+
+const EXPORT_HEADER = ['row', 'input_address', 'input_lat', 'input_lng', 'address', 'lat', 'lng', 'status', 'error'];
+
+function toExportRows(job: BulkJob): string[][] {
+  const rows = job.rows.map(row => [
+    String(row.index),
+    row.input.address || '',
+    row.input.lat?.toString() || '',
+    row.input.lng?.toString() || '',
+    row.address || '',
+    row.lat?.toString() || '',
+    row.lng?.toString() || '',
+    row.status,
+    row.error || '',
+    ...TECHNOLOGY_TYPES.map(tech => {
+      const value = row.coverage?.[tech];
+      if (value === undefined) return '';
+      if (value === 'error') return 'ERROR';
+      return value ? 'Yes' : 'No';
+    })
+  ]);
+
+  return [[...EXPORT_HEADER, ...TECHNOLOGY_TYPES], ...rows];
+}
+
+/**
+ * Export job results as CSV with one column per technology
+ */
+export function exportBulkCSV(job: BulkJob): Blob {
+  return rowsToCSV(toExportRows(job));
+}
+
+/**
+ * Export job results as a single-sheet XLSX workbook
+ */
+export function exportBulkXLSX(job: BulkJob): Promise<Blob> {
+  return rowsToXLSX(toExportRows(job), 'Coverage');
+}
+
+// Export singleton instance
+export const bulkCoverageRunner = new BulkCoverageRunner();
@@ -0,0 +1,250 @@
+import { TechnologyType } from '../types';
+
+export interface CoverageCacheEntry<T = unknown> {
+  key: string;
+  technology: TechnologyType | 'ALL';
+  value: T;
+  storedAt: number;
+  expiresAt: number;
+  lastAccessed: number;
+}
+
+export interface CachedValue<T> {
+  value: T;
+  checkedAt: string; // ISO time the value was fetched from upstream
+  fromCache: boolean;
+}
+
+export interface CoverageCacheOptions {
+  dbName?: string;
+  maxEntries?: number;
+  ttls?: Partial<Record<TechnologyType | 'ALL', number>>;
+  now?: () => number;
+}
+
+/**
+ * Storage backend for the cache. IndexedDB in the browser, a Map anywhere
+ * IndexedDB is unavailable (tests, private browsing in some browsers).
+ */
+interface CacheStore {
+  get(key: string): Promise<CoverageCacheEntry | undefined>;
+  put(entry: CoverageCacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  count(): Promise<number>;
+  leastRecentlyUsed(limit: number): Promise<string[]>;
+  clear(): Promise<void>;
+}
+
+const HOUR = 60 * 60 * 1000;
+
+// Fixed infrastructure changes slowly; mobile layers are re-published more often
+const DEFAULT_TTLS: Record<TechnologyType | 'ALL', number> = {
+  '2G': 24 * HOUR,
+  '3G': 24 * HOUR,
+  '4G': 6 * HOUR,
+  '5G': 2 * HOUR,
+  'UNCAPPED_WIRELESS': 6 * HOUR,
+  'FIBRE': 24 * HOUR,
+  'LICENSED_WIRELESS': 12 * HOUR,
+  'FIXED_LTE': 6 * HOUR,
+  'ALL': 2 * HOUR
+};
+
+class MemoryStore implements CacheStore {
+  private entries = new Map<string, CoverageCacheEntry>();
+
+  async get(key: string) {
+    return this.entries.get(key);
+  }
+
+  async put(entry: CoverageCacheEntry) {
+    this.entries.set(entry.key, entry);
+  }
+
+  async delete(key: string) {
+    this.entries.delete(key);
+  }
+
+  async count() {
+    return this.entries.size;
+  }
+
+  async leastRecentlyUsed(limit: number) {
+    return Array.from(this.entries.values())
+      .sort((a, b) => a.lastAccessed - b.lastAccessed)
+      .slice(0, limit)
+      .map(entry => entry.key);
+  }
+
+  async clear() {
+    this.entries.clear();
+  }
+}
+
+class IndexedDBStore implements CacheStore {
+  private static STORE = 'coverage';
+  private db: Promise<IDBDatabase>;
+
+  constructor(dbName: string) {
+    this.db = new Promise((resolve, reject) => {
+      const request = indexedDB.open(dbName, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(IndexedDBStore.STORE, { keyPath: 'key' });
+        store.createIndex('lastAccessed', 'lastAccessed');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private async run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.db;
+    return new Promise((resolve, reject) => {
+      const request = action(db.transaction(IndexedDBStore.STORE, mode).objectStore(IndexedDBStore.STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async get(key: string) {
+    return this.run<CoverageCacheEntry | undefined>('readonly', store => store.get(key));
+  }
+
+  async put(entry: CoverageCacheEntry) {
+    await this.run('readwrite', store => store.put(entry));
+  }
+
+  async delete(key: string) {
+    await this.run('readwrite', store => store.delete(key));
+  }
+
+  async count() {
+    return this.run('readonly', store => store.count());
+  }
+
+  async leastRecentlyUsed(limit: number) {
+    // The lastAccessed index iterates oldest first
+    const keys = await this.run('readonly', store => store.index('lastAccessed').getAllKeys(null, limit));
+    return keys.map(String);
+  }
+
+  async clear() {
+    await this.run('readwrite', store => store.clear());
+  }
+}
+
+/**
+ * Persistent coverage cache shared by MTNApi and ApiClient. Entries are keyed
+ * per location and technology, expire on a per-technology TTL and are evicted
+ * least recently used first once the cache is full.
+ */
+export class CoverageCache {
+  private store: CacheStore;
+  private maxEntries: number;
+  private ttls: Record<TechnologyType | 'ALL', number>;
+  private now: () => number;
+
+  constructor(options: CoverageCacheOptions = {}) {
+    this.store = typeof indexedDB !== 'undefined'
+      ? new IndexedDBStore(options.dbName || 'mtn-coverage-cache')
+      : new MemoryStore();
+    this.maxEntries = options.maxEntries ?? 500;
+    this.ttls = { ...DEFAULT_TTLS, ...options.ttls };
+    this.now = options.now || Date.now;
+  }
+
+  /**
+   * Cache key for a location, rounded to ~11m like the old in-memory cache
+   */
+  key(namespace: string, lat: number, lng: number, technology: TechnologyType | 'ALL'): string {
+    return `${namespace}:${lat.toFixed(4)},${lng.toFixed(4)}:${technology}`;
+  }
+
+  getTTL(technology: TechnologyType | 'ALL'): number {
+    return this.ttls[technology];
+  }
+
+  async get<T>(key: string): Promise<CoverageCacheEntry<T> | null> {
+    try {
+      const entry = await this.store.get(key);
+      if (!entry) return null;
+
+      if (entry.expiresAt <= this.now()) {
+        await this.store.delete(key);
+        return null;
+      }
+
+      entry.lastAccessed = this.now();
+      await this.store.put(entry);
+      return entry as CoverageCacheEntry<T>;
+    } catch (error) {
+      console.warn('Coverage cache read failed:', error);
+      return null;
+    }
+  }
+
+  async set<T>(key: string, technology: TechnologyType | 'ALL', value: T): Promise<void> {
+    const now = this.now();
+
+    try {
+      await this.store.put({
+        key,
+        technology,
+        value,
+        storedAt: now,
+        expiresAt: now + this.getTTL(technology),
+        lastAccessed: now
+      });
+      await this.evict();
+    } catch (error) {
+      console.warn('Coverage cache write failed:', error);
+    }
+  }
+
+  /**
+   * Return the cached value, or fetch and cache it. forceRefresh skips the
+   * read but still stores the fresh value. Rejected fetches are not cached.
+   */
+  async getOrFetch<T>(
+    key: string,
+    technology: TechnologyType | 'ALL',
+    fetcher: () => Promise<T>,
+    options: { forceRefresh?: boolean } = {}
+  ): Promise<CachedValue<T>> {
+    if (!options.forceRefresh) {
+      const entry = await this.get<T>(key);
+      if (entry) {
+        return { value: entry.value, checkedAt: new Date(entry.storedAt).toISOString(), fromCache: true };
+      }
+    }
+
+    const value = await fetcher();
+    await this.set(key, technology, value);
+    return { value, checkedAt: new Date(this.now()).toISOString(), fromCache: false };
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.store.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+
+  async size(): Promise<number> {
+    return this.store.count();
+  }
+
+  private async evict(): Promise<void> {
+    const overflow = (await this.store.count()) - this.maxEntries;
+    if (overflow <= 0) return;
+
+    const keys = await this.store.leastRecentlyUsed(overflow);
+    for (const key of keys) {
+      await this.store.delete(key);
+    }
+  }
+}
+
+// Export singleton instance
+export const coverageCache = new CoverageCache();
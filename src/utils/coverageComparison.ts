@@ -0,0 +1,105 @@
+// Side-by-side comparison of up to four checked locations, one column per
+// location and one row per technology.
+
+import { CoverageResult, TECHNOLOGY_TYPES, TechnologyCoverage, TechnologyType } from '../types';
+import { getTechnologyCoverage } from './coverageNormalizer';
+import { rowsToCSV, rowsToXLSX } from './exportFiles';
+
+export const MAX_COMPARE_LOCATIONS = 4;
+
+export interface ComparisonRow {
+  technology: TechnologyType;
+  cells: Array<TechnologyCoverage | null>; // one per location, null when not reported
+  best: number[]; // indexes of the strongest locations, empty when they all tie
+}
+
+const STRENGTH_RANK = { low: 1, medium: 2, high: 3 };
+
+/**
+ * Column letter used for a location in the table and on the map
+ */
+export function comparisonLabel(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+/**
+ * Rank a technology result: unavailable is 0, then strength, then quality
+ */
+export function coverageScore(coverage: TechnologyCoverage | null): number {
+  if (!coverage || !coverage.available) return 0;
+  const strength = coverage.strength ? STRENGTH_RANK[coverage.strength] : 0;
+  return 100 + strength * 100 + (coverage.quality ?? 0);
+}
+
+/**
+ * Best answer for one technology at one location. Prefers the merged
+ * provider view when the registry produced one.
+ */
+function locationCoverage(result: CoverageResult, technology: TechnologyType): TechnologyCoverage | null {
+  const candidates: TechnologyCoverage[] = result.technologies
+    ? result.technologies.filter(tech => tech.type === technology)
+    : getTechnologyCoverage(result.coverage).filter(tech => tech.type === technology);
+
+  return candidates.reduce<TechnologyCoverage | null>(
+    (best, tech) => (coverageScore(tech) > coverageScore(best) || !best ? tech : best),
+    null
+  );
+}
+
+/**
+ * Rows for every technology reported at any of the locations
+ */
+export function buildComparison(results: CoverageResult[]): ComparisonRow[] {
+  return TECHNOLOGY_TYPES
+    .map(technology => {
+      const cells = results.map(result => locationCoverage(result, technology));
+      const scores = cells.map(coverageScore);
+      const top = Math.max(...scores);
+      const best = top > 0 && scores.some(score => score !== top)
+        ? scores.flatMap((score, index) => (score === top ? [index] : []))
+        : [];
+
+      return { technology, cells, best };
+    })
+    .filter(row => row.cells.some(cell => cell !== null));
+}
+
+/**
+ * Short text for a comparison cell, e.g. "Yes (high, 80%)"
+ */
+export function describeCell(cell: TechnologyCoverage | null): string {
+  if (!cell) return '';
+  if (!cell.available) return 'No';
+
+  const details = [cell.strength, cell.quality !== undefined ? `${cell.quality}%` : undefined].filter(Boolean);
+  return details.length > 0 ? `Yes (${details.join(', ')})` : 'Yes';
+}
+
+function toExportRows(results: CoverageResult[]): string[][] {
+  const header = ['', ...results.map((result, index) => `${comparisonLabel(index)}: ${result.address}`)];
+  const location = [
+    ['Coordinates', ...results.map(result => `${result.coordinates.lat.toFixed(6)}, ${result.coordinates.lng.toFixed(6)}`)],
+    ['Province', ...results.map(result => result.province)],
+    ['Checked', ...results.map(result => result.timestamp)]
+  ];
+  const technologies = buildComparison(results).map(row => [
+    row.technology,
+    ...row.cells.map((cell, index) => `${describeCell(cell)}${row.best.includes(index) ? ' *' : ''}`)
+  ]);
+
+  return [header, ...location, ...technologies];
+}
+
+/**
+ * Export the comparison as CSV; the strongest location per row is starred
+ */
+export function exportComparisonCSV(results: CoverageResult[]): Blob {
+  return rowsToCSV(toExportRows(results));
+}
+
+/**
+ * Export the comparison as a single-sheet XLSX workbook
+ */
+export function exportComparisonXLSX(results: CoverageResult[]): Promise<Blob> {
+  return rowsToXLSX(toExportRows(results), 'Comparison');
+}
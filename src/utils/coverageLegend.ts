@@ -0,0 +1,45 @@
+// Legend lookups for the map overlays. Upstream legends come from
+// GetLegendGraphic through the proxy; the bundled ones fill in when that fails.
+
+import { CoverageLegend, LegendEntry, TechnologyType } from '../types';
+import { bundledLegends } from '../data/legends';
+
+export type LegendFetcher = (technology: TechnologyType) => Promise<LegendEntry[]>;
+
+export class CoverageLegendService {
+  private legends = new Map<TechnologyType, Promise<CoverageLegend>>();
+
+  constructor(private fetchLegend: LegendFetcher) {}
+
+  /**
+   * Legend for one technology. Successful upstream lookups are kept for the
+   * session; failures fall back to the bundled legend and are retried next time.
+   */
+  getLegend(technology: TechnologyType): Promise<CoverageLegend> {
+    const existing = this.legends.get(technology);
+    if (existing) return existing;
+
+    const pending = this.fetchLegend(technology)
+      .then(entries => {
+        if (entries.length === 0) {
+          throw new Error('Legend has no entries');
+        }
+        return { technology, entries, source: 'upstream' as const };
+      })
+      .catch(error => {
+        console.warn(`Using bundled legend for ${technology}:`, error);
+        this.legends.delete(technology);
+        return { technology, entries: bundledLegends[technology], source: 'bundled' as const };
+      });
+
+    this.legends.set(technology, pending);
+    return pending;
+  }
+
+  /**
+   * Legends for several technologies, in the order given
+   */
+  getLegends(technologies: TechnologyType[]): Promise<CoverageLegend[]> {
+    return Promise.all(technologies.map(technology => this.getLegend(technology)));
+  }
+}
@@ -0,0 +1,278 @@
+import {
+  CoverageData,
+  CoverageResult,
+  CoverageSource,
+  CoverageSourceKind,
+  ErrorInfo,
+  GeoJSONFeature,
+  TECHNOLOGY_TYPES,
+  TechnologyCoverage,
+  TechnologyType
+} from '../types';
+import { provinceResolver } from './provinceResolver';
+
+/**
+ * Thrown when an upstream payload does not have the shape we rely on
+ */
+export class CoverageValidationError extends Error {
+  constructor(source: string, message: string) {
+    super(`Invalid ${source} payload: ${message}`);
+    this.name = 'CoverageValidationError';
+  }
+}
+
+const STRENGTHS = ['low', 'medium', 'high'] as const;
+
+const SOURCE_KINDS: CoverageSourceKind[] = [
+  'publicQuery', 'coveragePoint', 'wmsFeatures', 'consumerApi',
+  'mtnGeoServer', 'mtnProxy', 'taranaStatic', 'provider'
+];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function isTechnologyType(value: unknown): value is TechnologyType {
+  return typeof value === 'string' && TECHNOLOGY_TYPES.includes(value as TechnologyType);
+}
+
+/**
+ * Validate one technology entry. Returns null for entries without a known
+ * technology type; optional fields with the wrong type are dropped.
+ */
+export function normalizeTechnologyCoverage(raw: unknown): TechnologyCoverage | null {
+  if (!isRecord(raw) || !isTechnologyType(raw.type)) {
+    return null;
+  }
+
+  const tech: TechnologyCoverage = {
+    type: raw.type,
+    available: raw.available === true
+  };
+
+  if (STRENGTHS.includes(raw.strength as typeof STRENGTHS[number])) {
+    tech.strength = raw.strength as TechnologyCoverage['strength'];
+  }
+  if (typeof raw.quality === 'number' && isFinite(raw.quality)) {
+    tech.quality = Math.min(100, Math.max(0, raw.quality));
+  }
+  if (typeof raw.speed === 'string') tech.speed = raw.speed;
+  if (typeof raw.infrastructureType === 'string') tech.infrastructureType = raw.infrastructureType;
+  if (typeof raw.provider === 'string') tech.provider = raw.provider;
+
+  if (isRecord(raw.details)) {
+    const details: Record<string, string | number> = {};
+    Object.entries(raw.details).forEach(([key, value]) => {
+      if (typeof value === 'string' || typeof value === 'number') details[key] = value;
+    });
+    tech.details = details;
+  }
+  if (Array.isArray(raw.features)) {
+    tech.features = parseFeatureCollection({ features: raw.features }, 'technology features');
+  }
+
+  return tech;
+}
+
+function normalizeTechnologyList(raw: unknown): TechnologyCoverage[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map(normalizeTechnologyCoverage)
+    .filter((tech): tech is TechnologyCoverage => tech !== null);
+}
+
+/**
+ * Validate a GeoJSON FeatureCollection (or bare features array) from GeoServer
+ */
+export function parseFeatureCollection(raw: unknown, source = 'WMS'): GeoJSONFeature[] {
+  const features = Array.isArray(raw) ? raw : isRecord(raw) ? raw.features : undefined;
+
+  if (features === undefined) return [];
+  if (!Array.isArray(features)) {
+    throw new CoverageValidationError(source, 'features is not an array');
+  }
+
+  return features.map((feature, index) => {
+    if (!isRecord(feature)) {
+      throw new CoverageValidationError(source, `feature ${index} is not an object`);
+    }
+
+    const geometry = isRecord(feature.geometry) && typeof feature.geometry.type === 'string'
+      ? feature.geometry as unknown as GeoJSONFeature['geometry']
+      : null;
+
+    return {
+      type: 'Feature',
+      id: typeof feature.id === 'string' || typeof feature.id === 'number' ? feature.id : undefined,
+      geometry,
+      properties: isRecord(feature.properties) ? feature.properties : null
+    };
+  });
+}
+
+/**
+ * Validate the JSON body of an upstream endpoint that returns an object
+ */
+export function parseObjectPayload(raw: unknown, source: string): Record<string, unknown> {
+  if (!isRecord(raw)) {
+    throw new CoverageValidationError(source, 'expected a JSON object');
+  }
+  return raw;
+}
+
+/**
+ * Validate the coverage API point response: an array of technology entries,
+ * or an object wrapping one in `types` or `coverage`
+ */
+export function parseCoveragePointPayload(raw: unknown): TechnologyCoverage[] {
+  const list = Array.isArray(raw)
+    ? raw
+    : isRecord(raw) ? (raw.types ?? raw.coverage) : undefined;
+
+  if (!Array.isArray(list)) {
+    throw new CoverageValidationError('coverage point', 'expected an array of technologies');
+  }
+  return normalizeTechnologyList(list);
+}
+
+/**
+ * Normalise one coverage source. Sources without a `kind` are legacy shapes;
+ * their kind is inferred from the key they were stored under.
+ */
+export function normalizeCoverageSource(key: string, raw: unknown): CoverageSource | null {
+  if (!isRecord(raw)) return null;
+
+  const kind: CoverageSourceKind = SOURCE_KINDS.includes(raw.kind as CoverageSourceKind)
+    ? raw.kind as CoverageSourceKind
+    : SOURCE_KINDS.includes(key as CoverageSourceKind) ? key as CoverageSourceKind : 'provider';
+
+  const types = normalizeTechnologyList(raw.types);
+  const base = {
+    available: typeof raw.available === 'boolean' ? raw.available : types.some(tech => tech.available),
+    source: typeof raw.source === 'string' ? raw.source : key,
+    types
+  };
+
+  switch (kind) {
+    case 'publicQuery':
+      return { ...base, kind, data: isRecord(raw.data) ? raw.data : {} };
+    case 'coveragePoint':
+      return { ...base, kind };
+    case 'wmsFeatures':
+      return { ...base, kind, features: parseFeatureCollection({ features: raw.features ?? [] }) };
+    case 'consumerApi':
+      return { ...base, kind, services: isRecord(raw.services) ? raw.services : {} };
+    case 'mtnGeoServer': {
+      const coordinates = isRecord(raw.coordinates) &&
+        typeof raw.coordinates.lat === 'number' && typeof raw.coordinates.lng === 'number'
+        ? { lat: raw.coordinates.lat, lng: raw.coordinates.lng }
+        : { lat: NaN, lng: NaN };
+      return {
+        ...base,
+        kind,
+        coordinates,
+        address: typeof raw.address === 'string' ? raw.address : undefined,
+        errors: Array.isArray(raw.errors) ? raw.errors.filter(isRecord).map(e => ({
+          tech: String(e.tech),
+          error: String(e.error)
+        })) : undefined
+      };
+    }
+    case 'mtnProxy':
+      return { ...base, kind };
+    case 'taranaStatic': {
+      const metadata = isRecord(raw.metadata) ? raw.metadata : {};
+      return {
+        ...base,
+        kind,
+        metadata: {
+          dataDate: typeof metadata.dataDate === 'string' ? metadata.dataDate : '',
+          totalTowers: typeof metadata.totalTowers === 'number' ? metadata.totalTowers : 0
+        }
+      };
+    }
+    case 'provider':
+      return { ...base, kind, providerId: typeof raw.providerId === 'string' ? raw.providerId : key };
+  }
+}
+
+export function normalizeCoverageData(raw: unknown): CoverageData {
+  const coverage: CoverageData = {};
+  if (!isRecord(raw)) return coverage;
+
+  Object.entries(raw).forEach(([key, value]) => {
+    const source = normalizeCoverageSource(key, value);
+    if (source) coverage[key] = source;
+  });
+
+  return coverage;
+}
+
+/**
+ * Normalise a coverage result from any code path into a CoverageResult.
+ * Missing fields are filled in rather than trusted.
+ */
+export function normalizeCoverageResult(raw: unknown): CoverageResult {
+  const result = isRecord(raw) ? raw : {};
+  const coords = isRecord(result.coordinates) ? result.coordinates : {};
+  const lat = typeof coords.lat === 'number' ? coords.lat : NaN;
+  const lng = typeof coords.lng === 'number' ? coords.lng : NaN;
+
+  const coverage = normalizeCoverageData(result.coverage);
+  const errors: ErrorInfo[] = Array.isArray(result.errors)
+    ? result.errors.filter(isRecord).map(error => ({
+        endpoint: typeof error.endpoint === 'number' ? error.endpoint : String(error.endpoint ?? 'unknown'),
+        error: String(error.error ?? 'Unknown error'),
+        ...(typeof error.code === 'string' ? { code: error.code } : {})
+      }))
+    : [];
+
+  if (typeof result.error === 'string') {
+    errors.push({ endpoint: 'api', error: result.error });
+  }
+
+  const normalized: CoverageResult = {
+    coordinates: { lat, lng },
+    address: typeof result.address === 'string' ? result.address : `${lat}, ${lng}`,
+    province: typeof result.province === 'string' && result.province !== 'Unknown'
+      ? result.province
+      : provinceResolver.resolve(lat, lng),
+    timestamp: typeof result.timestamp === 'string' ? result.timestamp : new Date().toISOString(),
+    coverage,
+    errors,
+    success: typeof result.success === 'boolean' ? result.success : Object.keys(coverage).length > 0
+  };
+
+  if (typeof result.lastChecked === 'string') {
+    normalized.lastChecked = result.lastChecked;
+  }
+
+  if (Array.isArray(result.technologies)) {
+    normalized.technologies = result.technologies.flatMap(entry => {
+      const tech = normalizeTechnologyCoverage(entry);
+      if (!tech || !isRecord(entry)) return [];
+
+      const providers = Array.isArray(entry.providers) ? entry.providers.filter(isRecord) : [];
+      return [{
+        ...tech,
+        providers: providers.map(answer => ({
+          providerId: String(answer.providerId),
+          available: answer.available === true,
+          strength: normalizeTechnologyCoverage({ ...answer, type: tech.type })?.strength,
+          quality: typeof answer.quality === 'number' ? answer.quality : undefined
+        }))
+      }];
+    });
+  }
+
+  return normalized;
+}
+
+/**
+ * All technology entries across every source, in source order
+ */
+export function getTechnologyCoverage(coverage: CoverageData): Array<TechnologyCoverage & { source: string }> {
+  return Object.values(coverage).flatMap(source =>
+    source.types.map(tech => ({ ...tech, source: source.source }))
+  );
+}
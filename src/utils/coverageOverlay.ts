@@ -0,0 +1,186 @@
+// Per-technology coverage overlays for Google Maps. Each enabled technology
+// gets its own tile layer, recoloured in the browser so overlapping layers
+// stay distinguishable.
+
+import { OverlayState, TechnologyType, ToggleState } from '../types';
+import { MAX_ZOOM, TILE_SIZE } from '../shared/tiles';
+
+export type TileUrlBuilder = (technology: TechnologyType, z: number, x: number, y: number) => string;
+
+export const LAYER_LABELS: Record<TechnologyType, string> = {
+  '2G': '2G',
+  '3G': '3G',
+  '4G': '4G LTE',
+  '5G': '5G',
+  'UNCAPPED_WIRELESS': 'Uncapped Wireless',
+  'FIBRE': 'Fibre',
+  'LICENSED_WIRELESS': 'Licensed Wireless',
+  'FIXED_LTE': 'Fixed LTE'
+};
+
+// Listed bottom to top: wide-area mobile layers first, fixed services above them
+export const DEFAULT_OVERLAYS: OverlayState = {
+  '2G': { color: '#6B7280', opacity: 0.5, zIndex: 0 },
+  '3G': { color: '#3B82F6', opacity: 0.5, zIndex: 1 },
+  '4G': { color: '#10B981', opacity: 0.5, zIndex: 2 },
+  '5G': { color: '#8B5CF6', opacity: 0.5, zIndex: 3 },
+  'FIXED_LTE': { color: '#14B8A6', opacity: 0.6, zIndex: 4 },
+  'UNCAPPED_WIRELESS': { color: '#F97316', opacity: 0.6, zIndex: 5 },
+  'LICENSED_WIRELESS': { color: '#EAB308', opacity: 0.6, zIndex: 6 },
+  'FIBRE': { color: '#E11D48', opacity: 0.7, zIndex: 7 }
+};
+
+/**
+ * Parse a #RRGGBB colour into its channels
+ */
+export function parseHexColor(color: string): [number, number, number] {
+  const match = /^#?([0-9a-f]{6})$/i.exec(color.trim());
+  if (!match) {
+    throw new Error(`Invalid overlay colour: ${color}`);
+  }
+
+  const value = parseInt(match[1], 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+/**
+ * Paint every visible pixel of an RGBA buffer in one colour, keeping its alpha
+ */
+export function tintPixels(data: Uint8ClampedArray, [r, g, b]: [number, number, number]): void {
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    data[i] = r;
+    data[i + 1] = g;
+    data[i + 2] = b;
+  }
+}
+
+/**
+ * Enabled technologies in draw order, bottom layer first
+ */
+export function overlayOrder(toggleState: ToggleState, overlays: OverlayState): TechnologyType[] {
+  return (Object.keys(toggleState) as TechnologyType[])
+    .filter(tech => toggleState[tech])
+    .sort((a, b) => overlays[a].zIndex - overlays[b].zIndex);
+}
+
+/**
+ * Swap a layer with its neighbour above (1) or below (-1) in a stack from
+ * overlayOrder, so hidden layers are skipped over
+ */
+export function moveOverlay(
+  overlays: OverlayState,
+  stack: TechnologyType[],
+  technology: TechnologyType,
+  direction: 1 | -1
+): OverlayState {
+  const index = stack.indexOf(technology);
+  const target = index + direction;
+
+  if (index < 0 || target < 0 || target >= stack.length) {
+    return overlays;
+  }
+
+  const neighbour = stack[target];
+  return {
+    ...overlays,
+    [technology]: { ...overlays[technology], zIndex: overlays[neighbour].zIndex },
+    [neighbour]: { ...overlays[neighbour], zIndex: overlays[technology].zIndex }
+  };
+}
+
+/**
+ * Google Maps tile layer for one technology. Tiles are drawn to canvases so
+ * they can be tinted, and colour and opacity changes apply to tiles already on screen.
+ */
+export class CoverageTileLayer implements google.maps.MapType {
+  alt: string | null;
+  name: string | null;
+  maxZoom = MAX_ZOOM;
+  minZoom = 0;
+  projection: google.maps.Projection | null = null;
+  radius = 6378137;
+  tileSize: google.maps.Size;
+
+  private rgb: [number, number, number];
+  private opacity: number;
+  private tiles = new Set<HTMLCanvasElement>();
+
+  constructor(
+    readonly technology: TechnologyType,
+    color: string,
+    opacity: number,
+    private tileUrl: TileUrlBuilder
+  ) {
+    this.name = `MTN ${technology} coverage`;
+    this.alt = this.name;
+    this.tileSize = new google.maps.Size(TILE_SIZE, TILE_SIZE);
+    this.rgb = parseHexColor(color);
+    this.opacity = opacity;
+  }
+
+  getTile(coord: google.maps.Point | null, zoom: number, ownerDocument: Document | null): Element | null {
+    const canvas = (ownerDocument || document).createElement('canvas');
+    canvas.width = TILE_SIZE;
+    canvas.height = TILE_SIZE;
+    canvas.style.opacity = String(this.opacity);
+    this.tiles.add(canvas);
+
+    const count = 1 << zoom;
+    if (!coord || coord.y < 0 || coord.y >= count) {
+      return canvas;
+    }
+
+    // Wrap around the antimeridian so repeated worlds reuse the same tiles
+    const x = ((coord.x % count) + count) % count;
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => {
+      const context = canvas.getContext('2d');
+      if (!context) return;
+
+      context.drawImage(image, 0, 0, TILE_SIZE, TILE_SIZE);
+      this.tint(canvas);
+    };
+    image.src = this.tileUrl(this.technology, zoom, x, coord.y);
+
+    return canvas;
+  }
+
+  releaseTile(tile: Element | null): void {
+    this.tiles.delete(tile as HTMLCanvasElement);
+  }
+
+  setOpacity(opacity: number): void {
+    this.opacity = opacity;
+    this.tiles.forEach(tile => {
+      tile.style.opacity = String(opacity);
+    });
+  }
+
+  /**
+   * Recolour the layer. Tinting keeps each pixel's alpha, so tiles already on
+   * screen are simply tinted again rather than refetched.
+   */
+  setColor(color: string): void {
+    const rgb = parseHexColor(color);
+    if (rgb.every((channel, index) => channel === this.rgb[index])) return;
+
+    this.rgb = rgb;
+    this.tiles.forEach(tile => this.tint(tile));
+  }
+
+  private tint(canvas: HTMLCanvasElement): void {
+    const context = canvas.getContext('2d');
+    if (!context) return;
+
+    try {
+      const pixels = context.getImageData(0, 0, TILE_SIZE, TILE_SIZE);
+      tintPixels(pixels.data, this.rgb);
+      context.putImageData(pixels, 0, 0);
+    } catch (error) {
+      // A tainted canvas keeps GeoServer's own colours
+      console.warn(`Could not tint ${this.technology} tile:`, error);
+    }
+  }
+}
@@ -0,0 +1,283 @@
+import {
+  CoverageCheckOptions,
+  CoverageData,
+  CoverageProvider,
+  CoverageResult,
+  ErrorInfo,
+  MergeStrategy,
+  MergedTechnologyCoverage,
+  ProviderCoverage,
+  TECHNOLOGY_TYPES,
+  TechnologyCoverage,
+  TechnologyType
+} from '../types';
+import { apiClient } from './apiClient';
+import { normalizeCoverageResult } from './coverageNormalizer';
+import { dfaCoverageService } from './dfaCoverage';
+import { mtnApi } from './mtnApi';
+import { provinceResolver } from './provinceResolver';
+import { TaranaCoverageService, taranaCoverageService } from './taranaCoverage';
+
+interface ProviderRegistration {
+  provider: CoverageProvider;
+  enabled: boolean;
+}
+
+/**
+ * Registry of coverage providers. Runs every enabled provider for a location
+ * and merges their answers into a single CoverageResult.
+ */
+export class CoverageProviderRegistry {
+  private registrations = new Map<string, ProviderRegistration>();
+  private strategy: MergeStrategy;
+
+  constructor(strategy: MergeStrategy = 'priority') {
+    this.strategy = strategy;
+  }
+
+  register(provider: CoverageProvider, options: { enabled?: boolean } = {}): void {
+    if (this.registrations.has(provider.id)) {
+      throw new Error(`Coverage provider already registered: ${provider.id}`);
+    }
+    this.registrations.set(provider.id, { provider, enabled: options.enabled ?? true });
+  }
+
+  unregister(providerId: string): boolean {
+    return this.registrations.delete(providerId);
+  }
+
+  setEnabled(providerId: string, enabled: boolean): void {
+    const registration = this.registrations.get(providerId);
+    if (!registration) {
+      throw new Error(`Unknown coverage provider: ${providerId}`);
+    }
+    registration.enabled = enabled;
+  }
+
+  /**
+   * A registered provider by id, enabled or not
+   */
+  getProvider(providerId: string): CoverageProvider | undefined {
+    return this.registrations.get(providerId)?.provider;
+  }
+
+  setMergeStrategy(strategy: MergeStrategy): void {
+    this.strategy = strategy;
+  }
+
+  /**
+   * Enabled providers, highest priority first
+   */
+  getProviders(): CoverageProvider[] {
+    return Array.from(this.registrations.values())
+      .filter(registration => registration.enabled)
+      .map(registration => registration.provider)
+      .sort((a, b) => b.priority - a.priority);
+  }
+
+  /**
+   * Check coverage with every enabled provider in parallel
+   */
+  async checkCoverage(
+    lat: number,
+    lng: number,
+    address?: string,
+    options: CoverageCheckOptions = {}
+  ): Promise<CoverageResult> {
+    const providers = this.getProviders();
+    const coverage: CoverageData = {};
+    const errors: ErrorInfo[] = [];
+    const answered: Array<{ provider: CoverageProvider; types: TechnologyCoverage[] }> = [];
+    let lastChecked: string | undefined;
+
+    if (providers.length === 0) {
+      errors.push({ endpoint: 'registry', error: 'No coverage providers are enabled' });
+    }
+
+    const responses = await Promise.allSettled(
+      providers.map(provider => provider.checkCoverage(lat, lng, address, options))
+    );
+
+    responses.forEach((response, index) => {
+      const provider = providers[index];
+
+      if (response.status === 'rejected') {
+        errors.push({
+          endpoint: provider.id,
+          error: response.reason instanceof Error ? response.reason.message : 'Unknown error'
+        });
+        return;
+      }
+
+      const types = response.value.types.map(tech => ({ ...tech, provider: provider.id }));
+      coverage[provider.id] = {
+        kind: 'provider',
+        providerId: provider.id,
+        available: types.some(tech => tech.available),
+        types,
+        source: response.value.source
+      };
+      errors.push(...(response.value.errors || []));
+      answered.push({ provider, types });
+
+      const checked = response.value.lastChecked;
+      if (checked && (!lastChecked || checked < lastChecked)) {
+        lastChecked = checked;
+      }
+    });
+
+    return normalizeCoverageResult({
+      coordinates: { lat, lng },
+      address: address || `${lat}, ${lng}`,
+      province: provinceResolver.resolve(lat, lng),
+      timestamp: new Date().toISOString(),
+      coverage,
+      technologies: this.mergeTechnologies(answered),
+      errors,
+      success: answered.length > 0,
+      lastChecked
+    });
+  }
+
+  /**
+   * Combine per-provider answers into one entry per technology.
+   * 'priority' takes the highest priority answer, 'any' takes the highest
+   * priority answer that reports coverage.
+   */
+  private mergeTechnologies(
+    answered: Array<{ provider: CoverageProvider; types: TechnologyCoverage[] }>
+  ): MergedTechnologyCoverage[] {
+    const byType = new Map<TechnologyType, TechnologyCoverage[]>();
+
+    // answered is already in priority order, so each list stays sorted
+    answered.forEach(({ types }) => {
+      types.forEach(tech => {
+        const list = byType.get(tech.type) || [];
+        list.push(tech);
+        byType.set(tech.type, list);
+      });
+    });
+
+    return TECHNOLOGY_TYPES
+      .filter(type => byType.has(type))
+      .map(type => {
+        const answers = byType.get(type)!;
+        const primary = this.strategy === 'any'
+          ? answers.find(tech => tech.available) || answers[0]
+          : answers[0];
+
+        return {
+          ...primary,
+          providers: answers.map(tech => ({
+            providerId: tech.provider || 'unknown',
+            available: tech.available,
+            strength: tech.strength,
+            quality: tech.quality
+          }))
+        };
+      });
+  }
+}
+
+/**
+ * MTN GeoServer coverage through the Vercel proxy
+ */
+export class MTNProxyProvider implements CoverageProvider {
+  id = 'mtnProxy';
+  name = 'MTN Live API (via Vercel proxy)';
+  priority = 100;
+  technologies = [...TECHNOLOGY_TYPES];
+
+  async checkCoverage(
+    lat: number,
+    lng: number,
+    address?: string,
+    options?: CoverageCheckOptions
+  ): Promise<ProviderCoverage> {
+    const result = await apiClient.checkCoverage(lat, lng, address || `${lat}, ${lng}`, options);
+
+    if (!result.success) {
+      throw new Error(result.errors[0]?.error || 'MTN proxy returned no coverage');
+    }
+
+    const types = Object.values(result.coverage).flatMap(source => source.types);
+    return { source: this.name, types, errors: result.errors, lastChecked: result.lastChecked };
+  }
+}
+
+/**
+ * Direct MTN GeoServer queries. Blocked by CORS in the browser, so it is
+ * registered disabled and only useful server-side or behind a CORS proxy.
+ */
+export class MTNGeoServerProvider implements CoverageProvider {
+  id = 'mtnGeoServer';
+  name = 'MTN GeoServer WMS';
+  priority = 90;
+  technologies = [...TECHNOLOGY_TYPES];
+
+  async checkCoverage(
+    lat: number,
+    lng: number,
+    address?: string,
+    options?: CoverageCheckOptions
+  ): Promise<ProviderCoverage> {
+    const result = await mtnApi.checkCoverage(lat, lng, address, options);
+    const types = Object.values(result.coverage).flatMap(source => source.types);
+    return { source: this.name, types, errors: result.errors, lastChecked: result.lastChecked };
+  }
+}
+
+/**
+ * Tarana fixed wireless coverage from the static KMZ export
+ */
+export class TaranaProvider implements CoverageProvider {
+  id = 'tarana';
+  name = 'Tarana Fixed Wireless (Static KMZ Data)';
+  priority = 50;
+  technologies: TechnologyType[] = ['UNCAPPED_WIRELESS'];
+
+  constructor(private service: TaranaCoverageService = taranaCoverageService) {}
+
+  async checkCoverage(lat: number, lng: number, address?: string): Promise<ProviderCoverage> {
+    const point = await this.service.checkCoverage(lat, lng);
+    const result = this.service.formatCoverageResult(lat, lng, address || `${lat}, ${lng}`, point);
+
+    const types = Object.values(result.coverage).flatMap(source => source.types);
+    return { source: this.name, types };
+  }
+}
+
+/**
+ * DFA fibre infrastructure as an extra FIBRE signal next to MTN's FTTB layer
+ */
+export class DFAProvider implements CoverageProvider {
+  id = 'dfa';
+  name = 'DFA Fibre Network (ArcGIS)';
+  priority = 40;
+  technologies: TechnologyType[] = ['FIBRE'];
+
+  async checkCoverage(lat: number, lng: number): Promise<ProviderCoverage> {
+    const point = await dfaCoverageService.checkCoverage(lat, lng);
+    const strengths = { connected: 'high', 'near-net': 'medium', ductbank: 'low', none: undefined } as const;
+
+    return {
+      source: this.name,
+      types: [{
+        type: 'FIBRE',
+        available: point.available,
+        strength: strengths[point.status],
+        infrastructureType: point.description
+      }]
+    };
+  }
+}
+
+// Export singleton registry with the default providers.
+// Live MTN data only by default - direct GeoServer and Tarana can be enabled explicitly.
+// DFA is queried straight from the browser, which only works if the ArcGIS host
+// allows this origin, so it stays off until VITE_DFA_BASE_URL is configured.
+export const coverageRegistry = new CoverageProviderRegistry();
+coverageRegistry.register(new MTNProxyProvider());
+coverageRegistry.register(new MTNGeoServerProvider(), { enabled: false });
+coverageRegistry.register(new TaranaProvider(), { enabled: false });
+coverageRegistry.register(new DFAProvider(), { enabled: Boolean(import.meta.env?.VITE_DFA_BASE_URL) });
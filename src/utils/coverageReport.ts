@@ -0,0 +1,289 @@
+// Branded PDF coverage report, generated entirely in the browser: a map
+// snapshot composed from our own tile proxy and province outlines, then a
+// PDF written with the minimal writer in pdfWriter.ts.
+
+import { CoverageResult, OverlayState, TechnologyType } from '../types';
+import { provinceBoundaries } from '../data/provinces';
+import { buildComparison } from './coverageComparison';
+import { LAYER_LABELS, TileUrlBuilder, parseHexColor, tintPixels } from './coverageOverlay';
+import { PdfDocument } from './pdfWriter';
+
+export const COVERAGE_DISCLAIMER = 'Coverage data is approximate and may vary based on environmental factors';
+
+export interface MapSnapshot {
+  jpeg: Uint8Array;
+  width: number;
+  height: number;
+  technologies: TechnologyType[];
+}
+
+export interface SnapshotOptions {
+  technologies: TechnologyType[]; // bottom layer first
+  overlays: OverlayState;
+  tileUrl: TileUrlBuilder;
+  zoom?: number;
+  width?: number;
+  height?: number;
+}
+
+export interface ReportOptions {
+  snapshot?: MapSnapshot | null;
+  generatedAt?: Date;
+}
+
+const TILE_SIZE = 256;
+const BRAND_YELLOW = '#FFCB05';
+const INK = '#111827';
+const MUTED = '#6B7280';
+const RULE = '#E5E7EB';
+
+/**
+ * Pixel position of a coordinate on the spherical mercator world at a zoom level
+ */
+export function projectToWorld(lat: number, lng: number, zoom: number): { x: number; y: number } {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const sin = Math.min(Math.max(Math.sin(lat * Math.PI / 180), -0.9999), 0.9999);
+  return {
+    x: (lng + 180) / 360 * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale
+  };
+}
+
+function loadImage(url: string): Promise<HTMLImageElement | null> {
+  return new Promise(resolve => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => resolve(null);
+    image.src = url;
+  });
+}
+
+/**
+ * Render the checked point with its coverage overlays to a JPEG. Uses only
+ * same-origin tiles and bundled boundaries, so the canvas stays exportable.
+ */
+export async function renderMapSnapshot(result: CoverageResult, options: SnapshotOptions): Promise<MapSnapshot> {
+  const { technologies, overlays, tileUrl, zoom = 13, width = 1040, height = 560 } = options;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not available');
+  }
+
+  const center = projectToWorld(result.coordinates.lat, result.coordinates.lng, zoom);
+  const left = center.x - width / 2;
+  const top = center.y - height / 2;
+
+  // Base: plain land colour with province outlines for orientation
+  context.fillStyle = '#F3F4F6';
+  context.fillRect(0, 0, width, height);
+  context.strokeStyle = '#9CA3AF';
+  context.lineWidth = 2;
+  provinceBoundaries.features.forEach(feature => {
+    feature.geometry.coordinates.forEach(ring => {
+      context.beginPath();
+      ring.forEach(([lng, lat], index) => {
+        const point = projectToWorld(lat, lng, zoom);
+        const x = point.x - left;
+        const y = point.y - top;
+        if (index === 0) context.moveTo(x, y);
+        else context.lineTo(x, y);
+      });
+      context.stroke();
+    });
+  });
+
+  // Overlays, bottom layer first, tinted the same way as on the live map
+  const count = 2 ** zoom;
+  const firstX = Math.floor(left / TILE_SIZE);
+  const firstY = Math.floor(top / TILE_SIZE);
+  const lastX = Math.floor((left + width) / TILE_SIZE);
+  const lastY = Math.floor((top + height) / TILE_SIZE);
+  const tile = document.createElement('canvas');
+  tile.width = TILE_SIZE;
+  tile.height = TILE_SIZE;
+  const tileContext = tile.getContext('2d');
+
+  for (const technology of technologies) {
+    const { color, opacity } = overlays[technology];
+    const jobs: Array<Promise<[number, number, HTMLImageElement | null]>> = [];
+
+    for (let x = firstX; x <= lastX; x++) {
+      for (let y = firstY; y <= lastY; y++) {
+        if (y < 0 || y >= count) continue;
+        const wrappedX = ((x % count) + count) % count;
+        jobs.push(loadImage(tileUrl(technology, zoom, wrappedX, y)).then(image => [x, y, image]));
+      }
+    }
+
+    const tiles = await Promise.all(jobs);
+    tiles.forEach(([x, y, image]) => {
+      if (!image || !tileContext) return;
+      tileContext.clearRect(0, 0, TILE_SIZE, TILE_SIZE);
+      tileContext.drawImage(image, 0, 0, TILE_SIZE, TILE_SIZE);
+      const pixels = tileContext.getImageData(0, 0, TILE_SIZE, TILE_SIZE);
+      tintPixels(pixels.data, parseHexColor(color));
+      tileContext.putImageData(pixels, 0, 0);
+
+      context.globalAlpha = opacity;
+      context.drawImage(tile, x * TILE_SIZE - left, y * TILE_SIZE - top);
+      context.globalAlpha = 1;
+    });
+  }
+
+  // Checked location
+  context.beginPath();
+  context.arc(width / 2, height / 2, 10, 0, Math.PI * 2);
+  context.fillStyle = result.success ? '#10B981' : '#EF4444';
+  context.fill();
+  context.lineWidth = 3;
+  context.strokeStyle = '#FFFFFF';
+  context.stroke();
+
+  const dataUrl = canvas.toDataURL('image/jpeg', 0.85);
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  const jpeg = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    jpeg[i] = binary.charCodeAt(i);
+  }
+
+  return { jpeg, width, height, technologies };
+}
+
+/**
+ * Build the PDF report for one coverage result
+ */
+export function buildCoverageReport(result: CoverageResult, options: ReportOptions = {}): Blob {
+  const { snapshot, generatedAt = new Date() } = options;
+  const pdf = new PdfDocument();
+  const margin = 40;
+  const contentWidth = pdf.width - margin * 2;
+  const footerTop = pdf.height - 70;
+  let y = 0;
+
+  const ensureSpace = (needed: number) => {
+    if (y + needed > footerTop) {
+      pdf.addPage();
+      y = margin;
+    }
+  };
+
+  const heading = (title: string) => {
+    ensureSpace(36);
+    y += 24;
+    pdf.text(title, margin, y, { size: 13, bold: true, color: INK });
+    y += 6;
+    pdf.line(margin, y, margin + contentWidth, y, RULE, 1);
+    y += 8;
+  };
+
+  // Header band
+  pdf.rect(0, 0, pdf.width, 76, { fill: BRAND_YELLOW });
+  pdf.text('MTN Coverage Report', margin, 40, { size: 22, bold: true, color: INK });
+  pdf.text('Network coverage across South Africa', margin, 60, { size: 11, color: INK });
+  y = 76;
+
+  // Location
+  heading('Location');
+  const details: Array<[string, string]> = [
+    ['Address', result.address],
+    ['Coordinates', `${result.coordinates.lat.toFixed(6)}, ${result.coordinates.lng.toFixed(6)}`],
+    ['Province', result.province],
+    ['Checked', new Date(result.timestamp).toLocaleString()]
+  ];
+  if (result.lastChecked) {
+    details.push(['Cached answer from', new Date(result.lastChecked).toLocaleString()]);
+  }
+  details.forEach(([label, value]) => {
+    const lines = pdf.wrapText(value, 10, contentWidth - 110);
+    ensureSpace(lines.length * 14);
+    y += 14;
+    pdf.text(label, margin, y, { size: 10, bold: true, color: MUTED });
+    lines.forEach((line, index) => {
+      pdf.text(line, margin + 110, y + index * 14, { size: 10, color: INK });
+    });
+    y += (lines.length - 1) * 14;
+  });
+
+  // Map snapshot
+  if (snapshot) {
+    const imageHeight = contentWidth * snapshot.height / snapshot.width;
+    heading('Coverage map');
+    ensureSpace(imageHeight + 20);
+    pdf.image(snapshot.jpeg, snapshot.width, snapshot.height, margin, y, contentWidth, imageHeight);
+    pdf.rect(margin, y, contentWidth, imageHeight, { stroke: RULE });
+    y += imageHeight + 14;
+    const layers = snapshot.technologies.length > 0
+      ? snapshot.technologies.map(tech => LAYER_LABELS[tech]).join(', ')
+      : 'none selected';
+    pdf.text(`Overlays: ${layers}. Outlines show province boundaries.`, margin, y, { size: 8, color: MUTED });
+  }
+
+  // Technology table
+  heading('Coverage by technology');
+  const columns = [
+    { title: 'Technology', x: margin },
+    { title: 'Available', x: margin + 170 },
+    { title: 'Strength', x: margin + 270 },
+    { title: 'Quality', x: margin + 370 }
+  ];
+  const rows = buildComparison([result]);
+
+  ensureSpace(22);
+  pdf.rect(margin, y, contentWidth, 20, { fill: '#F9FAFB' });
+  columns.forEach(column => pdf.text(column.title, column.x + 6, y + 14, { size: 9, bold: true, color: MUTED }));
+  y += 20;
+
+  if (rows.length === 0) {
+    y += 16;
+    pdf.text('No technologies were reported for this location.', margin + 6, y, { size: 10, color: MUTED });
+  }
+  rows.forEach(row => {
+    const cell = row.cells[0]!;
+    ensureSpace(20);
+    pdf.text(LAYER_LABELS[row.technology], columns[0].x + 6, y + 14, { size: 10, color: INK });
+    pdf.text(cell.available ? 'Yes' : 'No', columns[1].x + 6, y + 14, {
+      size: 10,
+      bold: true,
+      color: cell.available ? '#047857' : '#B91C1C'
+    });
+    pdf.text(cell.available && cell.strength ? cell.strength : '-', columns[2].x + 6, y + 14, { size: 10, color: INK });
+    pdf.text(cell.available && cell.quality !== undefined ? `${cell.quality}%` : '-', columns[3].x + 6, y + 14, { size: 10, color: INK });
+    y += 20;
+    pdf.line(margin, y, margin + contentWidth, y, RULE, 0.5);
+  });
+
+  // Data sources and any failed lookups
+  heading('Data sources');
+  const sources = Object.values(result.coverage).map(source => source?.source).filter(Boolean) as string[];
+  (sources.length > 0 ? sources : ['No sources responded']).forEach(source => {
+    ensureSpace(14);
+    y += 14;
+    pdf.text(`- ${source}`, margin, y, { size: 10, color: INK });
+  });
+  if (result.errors.length > 0) {
+    ensureSpace(14);
+    y += 18;
+    pdf.text(`${result.errors.length} lookup${result.errors.length === 1 ? '' : 's'} failed; affected technologies are not listed.`, margin, y, { size: 9, color: MUTED });
+  }
+
+  // Footer on every page
+  const generated = `Generated ${generatedAt.toLocaleString()}`;
+  const disclaimer = pdf.wrapText(COVERAGE_DISCLAIMER, 8, contentWidth);
+  const pageCount = pdf.pageCount;
+  for (let page = 0; page < pageCount; page++) {
+    pdf.setPage(page);
+    pdf.line(margin, footerTop + 10, margin + contentWidth, footerTop + 10, BRAND_YELLOW, 2);
+    disclaimer.forEach((line, index) => {
+      pdf.text(line, margin, footerTop + 26 + index * 11, { size: 8, color: MUTED });
+    });
+    pdf.text(generated, margin, pdf.height - 24, { size: 8, color: MUTED });
+    const pageLabel = `Page ${page + 1} of ${pageCount}`;
+    pdf.text(pageLabel, margin + contentWidth - pdf.textWidth(pageLabel, 8), pdf.height - 24, { size: 8, color: MUTED });
+  }
+
+  return pdf.toBlob();
+}
@@ -0,0 +1,191 @@
+// DFA (Dark Fibre Africa) fibre infrastructure lookups against the public
+// ArcGIS REST MapServer layers documented in docs/dfa
+
+export interface DFAFeature {
+  attributes: Record<string, unknown>;
+  geometry?: {
+    x?: number;
+    y?: number;
+    paths?: number[][][];
+  };
+}
+
+export type DFAStatus = 'connected' | 'near-net' | 'ductbank' | 'none';
+
+export interface DFACoveragePoint {
+  available: boolean;
+  status: DFAStatus;
+  connectedBuildings: DFAFeature[];
+  nearNetBuildings: DFAFeature[];
+  ductbankDistance: number | null; // metres, null when no ductbank within range
+  description: string;
+}
+
+export interface DFAServiceOptions {
+  baseUrl?: string;
+  buildingBuffer?: number; // metres
+  ductbankRadius?: number; // metres
+}
+
+const DEFAULT_BASE_URL = 'https://gisportal.dfafrica.co.za/server/rest/services/API';
+
+/**
+ * Service for checking DFA fibre availability with envelope intersect queries
+ */
+export class DFACoverageService {
+  private baseUrl: string;
+  private buildingBuffer: number;
+  private ductbankRadius: number;
+
+  // MapServer layers from docs/dfa/DFA Public Network Coverage.md
+  private layers = {
+    connectedBuildings: 'DFA_Connected_Buildings/MapServer/0',
+    ductbank: 'API_BasedOSPLayers/MapServer/1',
+    nearNet: 'Promotions/MapServer/1'
+  };
+
+  constructor(options: DFAServiceOptions = {}) {
+    this.baseUrl = (options.baseUrl || import.meta.env?.VITE_DFA_BASE_URL || DEFAULT_BASE_URL).replace(/\/$/, '');
+    this.buildingBuffer = options.buildingBuffer ?? 50;
+    this.ductbankRadius = options.ductbankRadius ?? 200;
+  }
+
+  /**
+   * Check DFA infrastructure around a point
+   */
+  async checkCoverage(lat: number, lng: number): Promise<DFACoveragePoint> {
+    const point = this.convertToWebMercator(lat, lng);
+
+    // Web Mercator stretches distances by 1/cos(lat), so scale the buffers to stay in real metres
+    const scale = 1 / Math.cos(lat * Math.PI / 180);
+
+    const [connectedBuildings, nearNetBuildings, ductbanks] = await Promise.all([
+      this.queryLayer(this.layers.connectedBuildings, point, this.buildingBuffer * scale, false),
+      this.queryLayer(this.layers.nearNet, point, this.buildingBuffer * scale, false),
+      this.queryLayer(this.layers.ductbank, point, this.ductbankRadius * scale, true)
+    ]);
+
+    const ductbankDistance = this.nearestPathDistance(point, ductbanks, scale);
+    const ductbankInRange = ductbankDistance !== null && ductbankDistance <= this.ductbankRadius;
+
+    let status: DFAStatus = 'none';
+    let description = 'No DFA infrastructure nearby';
+
+    if (connectedBuildings.length > 0) {
+      status = 'connected';
+      description = 'DFA connected building';
+    } else if (nearNetBuildings.length > 0) {
+      status = 'near-net';
+      description = 'DFA near-net building';
+    } else if (ductbankInRange) {
+      status = 'ductbank';
+      description = `DFA ductbank within ${Math.round(ductbankDistance!)}m`;
+    }
+
+    return {
+      available: status !== 'none',
+      status,
+      connectedBuildings,
+      nearNetBuildings,
+      ductbankDistance: ductbankInRange ? Math.round(ductbankDistance!) : null,
+      description
+    };
+  }
+
+  /**
+   * Run an esriSpatialRelIntersects envelope query against one MapServer layer
+   */
+  private async queryLayer(
+    layer: string,
+    center: { x: number; y: number },
+    buffer: number,
+    returnGeometry: boolean
+  ): Promise<DFAFeature[]> {
+    const params = new URLSearchParams({
+      f: 'json',
+      geometry: JSON.stringify({
+        xmin: center.x - buffer,
+        ymin: center.y - buffer,
+        xmax: center.x + buffer,
+        ymax: center.y + buffer,
+        spatialReference: { wkid: 102100 }
+      }),
+      geometryType: 'esriGeometryEnvelope',
+      inSR: '102100',
+      spatialRel: 'esriSpatialRelIntersects',
+      outFields: '*',
+      returnGeometry: returnGeometry.toString(),
+      outSR: '102100'
+    });
+
+    const response = await fetch(`${this.baseUrl}/${layer}/query?${params}`, {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json'
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`DFA query failed for ${layer}: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+
+    // ArcGIS reports query errors with a 200 status and an error body
+    if (data.error) {
+      throw new Error(`DFA query failed for ${layer}: ${data.error.message || 'Unknown error'}`);
+    }
+
+    return data.features || [];
+  }
+
+  /**
+   * Shortest distance in metres from the point to any ductbank polyline
+   */
+  private nearestPathDistance(
+    point: { x: number; y: number },
+    features: DFAFeature[],
+    scale: number
+  ): number | null {
+    let nearest: number | null = null;
+
+    for (const feature of features) {
+      for (const path of feature.geometry?.paths || []) {
+        for (let i = 0; i < path.length - 1; i++) {
+          const distance = this.distanceToSegment(point, path[i], path[i + 1]) / scale;
+          if (nearest === null || distance < nearest) {
+            nearest = distance;
+          }
+        }
+      }
+    }
+
+    return nearest;
+  }
+
+  private distanceToSegment(point: { x: number; y: number }, a: number[], b: number[]): number {
+    const dx = b[0] - a[0];
+    const dy = b[1] - a[1];
+    const lengthSquared = dx * dx + dy * dy;
+
+    let t = lengthSquared === 0
+      ? 0
+      : ((point.x - a[0]) * dx + (point.y - a[1]) * dy) / lengthSquared;
+    t = Math.max(0, Math.min(1, t));
+
+    return Math.hypot(point.x - (a[0] + t * dx), point.y - (a[1] + t * dy));
+  }
+
+  /**
+   * Convert WGS84 coordinates to Web Mercator (WKID 102100)
+   */
+  private convertToWebMercator(lat: number, lng: number): { x: number; y: number } {
+    const EARTH_RADIUS = 6378137.0;
+    const x = lng * Math.PI / 180 * EARTH_RADIUS;
+    const y = Math.log(Math.tan((90 + lat) * Math.PI / 360)) * EARTH_RADIUS;
+    return { x, y };
+  }
+}
+
+// Export singleton instance
+export const dfaCoverageService = new DFACoverageService();
@@ -0,0 +1,318 @@
+// Terrain heights from a locally stored DEM tile set. Tiles follow the SRTM
+// layout: one file per 1x1 degree cell named after its south-west corner
+// (S27E028.hgt covers 27-26°S, 28-29°E), either raw .hgt or an uncompressed
+// GeoTIFF (.tif) as written by `gdal_translate -co COMPRESS=NONE`.
+
+export const DEFAULT_DEM_BASE_URL = import.meta.env?.VITE_DEM_BASE_URL || '/dem';
+
+const HGT_VOID = -32768;
+
+export interface ElevationRaster {
+  width: number;
+  height: number;
+  west: number; // longitude of the first column's pixel centres
+  north: number; // latitude of the first row's pixel centres
+  pixelWidth: number; // degrees
+  pixelHeight: number; // degrees
+  noData: number | null;
+  values: ArrayLike<number>; // row-major, north to south
+}
+
+export interface ProfilePoint {
+  distance: number; // km from the start
+  lat: number;
+  lng: number;
+  elevation: number | null; // metres above sea level, null without DEM data
+}
+
+/**
+ * Resolves a tile name (e.g. "S27E028") to its file contents, or null when
+ * the tile set has no such file
+ */
+export type DemTileLoader = (name: string) => Promise<ArrayBuffer | null>;
+
+/**
+ * SRTM name of the 1x1 degree tile containing a point
+ */
+export function demTileName(lat: number, lng: number): string {
+  const south = Math.floor(lat);
+  const west = Math.floor(lng);
+  return `${south < 0 ? 'S' : 'N'}${String(Math.abs(south)).padStart(2, '0')}` +
+    `${west < 0 ? 'W' : 'E'}${String(Math.abs(west)).padStart(3, '0')}`;
+}
+
+/**
+ * Raw SRTM .hgt: big-endian 16-bit heights on a square grid whose outer rows
+ * and columns lie on the tile edges
+ */
+export function parseHgt(name: string, data: ArrayBuffer): ElevationRaster {
+  const match = name.match(/([NS])(\d{1,2})([EW])(\d{1,3})/i);
+  const size = Math.sqrt(data.byteLength / 2);
+  if (!match || !Number.isInteger(size) || size < 2) {
+    throw new Error(`${name} is not an SRTM .hgt tile`);
+  }
+
+  const south = Number(match[2]) * (match[1].toUpperCase() === 'S' ? -1 : 1);
+  const west = Number(match[4]) * (match[3].toUpperCase() === 'W' ? -1 : 1);
+  const view = new DataView(data);
+  const values = new Int16Array(size * size);
+  for (let i = 0; i < values.length; i++) {
+    values[i] = view.getInt16(i * 2, false);
+  }
+
+  return {
+    width: size,
+    height: size,
+    west,
+    north: south + 1,
+    pixelWidth: 1 / (size - 1),
+    pixelHeight: 1 / (size - 1),
+    noData: HGT_VOID,
+    values
+  };
+}
+
+const TIFF_TAGS = {
+  width: 256,
+  height: 257,
+  bitsPerSample: 258,
+  compression: 259,
+  stripOffsets: 273,
+  samplesPerPixel: 277,
+  rowsPerStrip: 278,
+  tileWidth: 322,
+  tileLength: 323,
+  tileOffsets: 324,
+  sampleFormat: 339,
+  pixelScale: 33550,
+  tiePoint: 33922,
+  geoKeys: 34735,
+  noData: 42113
+};
+const RASTER_PIXEL_IS_POINT = 2;
+
+/**
+ * Single-band, uncompressed GeoTIFF in geographic coordinates, stored in
+ * strips or tiles, with 16-bit integer or 32-bit float samples
+ */
+export function parseGeoTiff(data: ArrayBuffer): ElevationRaster {
+  const view = new DataView(data);
+  const byteOrder = view.getUint16(0);
+  if ((byteOrder !== 0x4949 && byteOrder !== 0x4d4d) || view.getUint16(2, byteOrder === 0x4949) !== 42) {
+    throw new Error('Not a GeoTIFF file');
+  }
+  const little = byteOrder === 0x4949;
+  const sizes: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 11: 4, 12: 8, 16: 8 };
+
+  // First IFD only: tag -> values
+  const tags = new Map<number, number[] | string>();
+  const ifd = view.getUint32(4, little);
+  for (let i = 0; i < view.getUint16(ifd, little); i++) {
+    const entry = ifd + 2 + i * 12;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const count = view.getUint32(entry + 4, little);
+    const size = (sizes[type] ?? 1) * count;
+    const offset = size > 4 ? view.getUint32(entry + 8, little) : entry + 8;
+
+    if (type === 2) {
+      tags.set(tag, new TextDecoder().decode(new Uint8Array(data, offset, count)).replace(/\0+$/, ''));
+      continue;
+    }
+    const read = (index: number) => {
+      const at = offset + index * (sizes[type] ?? 1);
+      switch (type) {
+        case 3: return view.getUint16(at, little);
+        case 4: return view.getUint32(at, little);
+        case 11: return view.getFloat32(at, little);
+        case 12: return view.getFloat64(at, little);
+        default: return view.getUint8(at);
+      }
+    };
+    tags.set(tag, Array.from({ length: count }, (_, index) => read(index)));
+  }
+
+  const numbers = (tag: number) => (tags.get(tag) as number[] | undefined) ?? [];
+  const width = numbers(TIFF_TAGS.width)[0];
+  const height = numbers(TIFF_TAGS.height)[0];
+  const bits = numbers(TIFF_TAGS.bitsPerSample)[0] ?? 16;
+  const format = numbers(TIFF_TAGS.sampleFormat)[0] ?? 1;
+
+  if ((numbers(TIFF_TAGS.compression)[0] ?? 1) !== 1) {
+    throw new Error('Compressed GeoTIFFs are not supported; convert with gdal_translate -co COMPRESS=NONE');
+  }
+  if ((numbers(TIFF_TAGS.samplesPerPixel)[0] ?? 1) !== 1) {
+    throw new Error('Only single-band GeoTIFFs are supported');
+  }
+  const readSample = bits === 16 && format === 2 ? (at: number) => view.getInt16(at, little)
+    : bits === 16 && format === 1 ? (at: number) => view.getUint16(at, little)
+    : bits === 32 && format === 3 ? (at: number) => view.getFloat32(at, little)
+    : null;
+  if (!readSample) {
+    throw new Error(`Unsupported GeoTIFF sample type: ${bits}-bit format ${format}`);
+  }
+
+  const values = new Float64Array(width * height);
+  const bytes = bits / 8;
+  const tileWidth = numbers(TIFF_TAGS.tileWidth)[0];
+
+  if (tileWidth) {
+    const tileLength = numbers(TIFF_TAGS.tileLength)[0];
+    const across = Math.ceil(width / tileWidth);
+    numbers(TIFF_TAGS.tileOffsets).forEach((offset, tile) => {
+      const left = (tile % across) * tileWidth;
+      const top = Math.floor(tile / across) * tileLength;
+      for (let y = 0; y < tileLength && top + y < height; y++) {
+        for (let x = 0; x < tileWidth && left + x < width; x++) {
+          values[(top + y) * width + left + x] = readSample(offset + (y * tileWidth + x) * bytes);
+        }
+      }
+    });
+  } else {
+    const rowsPerStrip = numbers(TIFF_TAGS.rowsPerStrip)[0] ?? height;
+    numbers(TIFF_TAGS.stripOffsets).forEach((offset, strip) => {
+      const first = strip * rowsPerStrip * width;
+      const count = Math.min(rowsPerStrip * width, values.length - first);
+      for (let i = 0; i < count; i++) {
+        values[first + i] = readSample(offset + i * bytes);
+      }
+    });
+  }
+
+  const [scaleX, scaleY] = numbers(TIFF_TAGS.pixelScale);
+  const [tieI, tieJ, , tieX, tieY] = numbers(TIFF_TAGS.tiePoint);
+  if (scaleX === undefined || tieX === undefined) {
+    throw new Error('GeoTIFF has no georeferencing (ModelPixelScale/ModelTiepoint)');
+  }
+
+  // GeoKeyDirectory: header of 4 shorts, then 4 shorts per key
+  const geoKeys = numbers(TIFF_TAGS.geoKeys);
+  let pixelIsPoint = false;
+  for (let i = 4; i + 3 < geoKeys.length; i += 4) {
+    if (geoKeys[i] === 1025) pixelIsPoint = geoKeys[i + 3] === RASTER_PIXEL_IS_POINT;
+  }
+  // With PixelIsArea the tie point is the corner of the pixel, not its centre
+  const shift = pixelIsPoint ? 0 : 0.5;
+  const noData = tags.get(TIFF_TAGS.noData);
+
+  return {
+    width,
+    height,
+    west: tieX + (shift - tieI) * scaleX,
+    north: tieY - (shift - tieJ) * scaleY,
+    pixelWidth: scaleX,
+    pixelHeight: scaleY,
+    noData: typeof noData === 'string' && noData.trim() !== '' ? Number(noData) : null,
+    values
+  };
+}
+
+/**
+ * Parse a DEM tile, telling GeoTIFF from .hgt by its header
+ */
+export function parseDemTile(name: string, data: ArrayBuffer): ElevationRaster {
+  const magic = new Uint8Array(data, 0, Math.min(4, data.byteLength));
+  const isTiff = (magic[0] === 0x49 && magic[1] === 0x49 && magic[2] === 42) ||
+    (magic[0] === 0x4d && magic[1] === 0x4d && magic[3] === 42);
+  return isTiff ? parseGeoTiff(data) : parseHgt(name, data);
+}
+
+/**
+ * Bilinear height at a point, or null outside the raster or next to voids
+ */
+export function sampleRaster(raster: ElevationRaster, lat: number, lng: number): number | null {
+  const x = (lng - raster.west) / raster.pixelWidth;
+  const y = (raster.north - lat) / raster.pixelHeight;
+  const epsilon = 1e-9;
+  if (x < -epsilon || y < -epsilon || x > raster.width - 1 + epsilon || y > raster.height - 1 + epsilon) {
+    return null;
+  }
+
+  const x0 = Math.min(Math.max(Math.floor(x), 0), raster.width - 2);
+  const y0 = Math.min(Math.max(Math.floor(y), 0), raster.height - 2);
+  const fx = Math.min(Math.max(x - x0, 0), 1);
+  const fy = Math.min(Math.max(y - y0, 0), 1);
+
+  const corners = [
+    raster.values[y0 * raster.width + x0],
+    raster.values[y0 * raster.width + x0 + 1],
+    raster.values[(y0 + 1) * raster.width + x0],
+    raster.values[(y0 + 1) * raster.width + x0 + 1]
+  ];
+  if (corners.some(value => value === raster.noData || Number.isNaN(value))) {
+    return null;
+  }
+
+  const top = corners[0] + (corners[1] - corners[0]) * fx;
+  const bottom = corners[2] + (corners[3] - corners[2]) * fx;
+  return top + (bottom - top) * fy;
+}
+
+/**
+ * Loader for tiles served next to the app, trying .hgt then .tif
+ */
+export function httpTileLoader(baseUrl: string = DEFAULT_DEM_BASE_URL): DemTileLoader {
+  return async name => {
+    for (const extension of ['hgt', 'tif']) {
+      const response = await fetch(`${baseUrl.replace(/\/$/, '')}/${name}.${extension}`);
+      if (response.ok) return response.arrayBuffer();
+    }
+    return null;
+  };
+}
+
+/**
+ * Terrain heights from the DEM tile set; tiles are loaded once, on first use
+ */
+export class ElevationModel {
+  private tiles = new Map<string, Promise<ElevationRaster | null>>();
+
+  constructor(private loadTile: DemTileLoader = httpTileLoader()) {}
+
+  /**
+   * Height above sea level in metres, or null without DEM coverage
+   */
+  async elevation(lat: number, lng: number): Promise<number | null> {
+    const raster = await this.tile(demTileName(lat, lng));
+    return raster ? sampleRaster(raster, lat, lng) : null;
+  }
+
+  /**
+   * Heights at `samples` evenly spaced points from one location to another,
+   * both included
+   */
+  async profile(
+    from: { lat: number; lng: number },
+    to: { lat: number; lng: number },
+    distanceKm: number,
+    samples = 128
+  ): Promise<ProfilePoint[]> {
+    const count = Math.max(2, samples);
+    // Straight interpolation in degrees is well within DEM accuracy at fixed wireless ranges
+    return Promise.all(Array.from({ length: count }, async (_, index) => {
+      const t = index / (count - 1);
+      const lat = from.lat + (to.lat - from.lat) * t;
+      const lng = from.lng + (to.lng - from.lng) * t;
+      return { distance: distanceKm * t, lat, lng, elevation: await this.elevation(lat, lng) };
+    }));
+  }
+
+  clearCache(): void {
+    this.tiles.clear();
+  }
+
+  private tile(name: string): Promise<ElevationRaster | null> {
+    if (!this.tiles.has(name)) {
+      this.tiles.set(name, this.loadTile(name)
+        .then(data => data ? parseDemTile(name, data) : null)
+        .catch(error => {
+          console.warn(`DEM tile ${name} unavailable:`, error);
+          return null;
+        }));
+    }
+    return this.tiles.get(name)!;
+  }
+}
+
+// Export singleton instance
+export const elevationModel = new ElevationModel();
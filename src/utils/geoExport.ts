@@ -0,0 +1,250 @@
+// GeoJSON and KML export of coverage checks for QGIS and Google Earth. Each
+// checked location becomes a point carrying per-technology availability;
+// features returned by the WMS lookups are exported alongside with their
+// geometries.
+
+import { CoverageResult, GeoJSONFeature, GeoJSONGeometry, TechnologyType } from '../types';
+import { buildComparison } from './coverageComparison';
+import { DEFAULT_OVERLAYS } from './coverageOverlay';
+
+export interface GeoJSONFeatureCollection {
+  type: 'FeatureCollection';
+  features: GeoJSONFeature[];
+}
+
+type PropertyValue = string | number | boolean;
+
+const ORIGIN_SHIFT = Math.PI * 6378137.0;
+
+/**
+ * Flat properties for a checked location: one `<TECH>_available`,
+ * `_strength` and `_quality` triple per reported technology
+ */
+export function locationProperties(result: CoverageResult): Record<string, PropertyValue> {
+  const properties: Record<string, PropertyValue> = {
+    kind: 'location',
+    address: result.address,
+    province: result.province,
+    lat: result.coordinates.lat,
+    lng: result.coordinates.lng,
+    checked: result.timestamp,
+    success: result.success,
+    sources: Object.values(result.coverage).map(source => source.source).join(', ')
+  };
+
+  buildComparison([result]).forEach(({ technology, cells: [cell] }) => {
+    if (!cell) return;
+    properties[`${technology}_available`] = cell.available;
+    if (cell.strength) properties[`${technology}_strength`] = cell.strength;
+    if (cell.quality !== undefined) properties[`${technology}_quality`] = cell.quality;
+  });
+
+  if (result.errors.length > 0) {
+    properties.errors = result.errors.map(error => `${error.endpoint}: ${error.error}`).join('; ');
+  }
+
+  return properties;
+}
+
+function mapCoordinates(coordinates: unknown, transform: (position: number[]) => number[]): unknown {
+  if (!Array.isArray(coordinates)) return coordinates;
+  return typeof coordinates[0] === 'number'
+    ? transform(coordinates as number[])
+    : coordinates.map(child => mapCoordinates(child, transform));
+}
+
+function positions(geometry: GeoJSONGeometry): number[][] {
+  const collect = (coordinates: unknown): number[][] =>
+    !Array.isArray(coordinates) ? []
+      : typeof coordinates[0] === 'number' ? [coordinates as number[]]
+        : coordinates.flatMap(collect);
+
+  return geometry.geometries
+    ? geometry.geometries.flatMap(positions)
+    : collect(geometry.coordinates);
+}
+
+/**
+ * GeoServer answers GetFeatureInfo in the request SRS, which is EPSG:900913
+ * for our lookups. Geometries with coordinates outside the degree range are
+ * taken to be spherical mercator metres and converted to WGS84.
+ */
+export function toWgs84(geometry: GeoJSONGeometry): GeoJSONGeometry {
+  const isMercator = positions(geometry).some(([x, y]) => Math.abs(x) > 180 || Math.abs(y) > 90);
+  if (!isMercator) return geometry;
+
+  const unproject = ([x, y, ...rest]: number[]) => [
+    x / ORIGIN_SHIFT * 180,
+    (2 * Math.atan(Math.exp(y / ORIGIN_SHIFT * Math.PI)) - Math.PI / 2) * 180 / Math.PI,
+    ...rest
+  ];
+  const convert = (part: GeoJSONGeometry): GeoJSONGeometry => part.geometries
+    ? { ...part, geometries: part.geometries.map(convert) }
+    : { ...part, coordinates: mapCoordinates(part.coordinates, unproject) };
+
+  return convert(geometry);
+}
+
+interface CoverageFeature {
+  technology?: TechnologyType;
+  source: string;
+  feature: GeoJSONFeature;
+}
+
+/**
+ * Features with geometries returned for a location, tagged with the
+ * technology and source they came from
+ */
+function coverageFeatures(result: CoverageResult): CoverageFeature[] {
+  return Object.values(result.coverage).flatMap(source => [
+    ...source.types.flatMap(tech => (tech.features ?? []).map(feature => ({
+      technology: tech.type,
+      source: source.source,
+      feature
+    }))),
+    ...(source.kind === 'wmsFeatures'
+      ? source.features.map(feature => ({ source: source.source, feature }))
+      : [])
+  ]).filter(({ feature }) => feature.geometry !== null);
+}
+
+/**
+ * One FeatureCollection for any number of checks
+ */
+export function resultsToGeoJSON(results: CoverageResult[]): GeoJSONFeatureCollection {
+  const features = results.flatMap((result): GeoJSONFeature[] => [
+    {
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [result.coordinates.lng, result.coordinates.lat] },
+      properties: locationProperties(result)
+    },
+    ...coverageFeatures(result).map(({ technology, source, feature }): GeoJSONFeature => ({
+      type: 'Feature',
+      ...(feature.id !== undefined ? { id: feature.id } : {}),
+      geometry: toWgs84(feature.geometry!),
+      properties: {
+        ...feature.properties,
+        kind: 'coverage',
+        technology: technology ?? null,
+        source,
+        location: result.address
+      }
+    }))
+  ]);
+
+  return { type: 'FeatureCollection', features };
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function kmlCoordinates(coordinates: unknown): string {
+  return (coordinates as number[][]).map(position => position.join(',')).join(' ');
+}
+
+function kmlGeometry(geometry: GeoJSONGeometry): string {
+  const coordinates = geometry.coordinates;
+  const polygon = (rings: number[][][]) => {
+    const [outer, ...inner] = rings;
+    return '<Polygon>' +
+      `<outerBoundaryIs><LinearRing><coordinates>${kmlCoordinates(outer)}</coordinates></LinearRing></outerBoundaryIs>` +
+      inner.map(ring => `<innerBoundaryIs><LinearRing><coordinates>${kmlCoordinates(ring)}</coordinates></LinearRing></innerBoundaryIs>`).join('') +
+      '</Polygon>';
+  };
+  const multi = (parts: string[]) => `<MultiGeometry>${parts.join('')}</MultiGeometry>`;
+
+  switch (geometry.type) {
+    case 'Point':
+      return `<Point><coordinates>${(coordinates as number[]).join(',')}</coordinates></Point>`;
+    case 'LineString':
+      return `<LineString><coordinates>${kmlCoordinates(coordinates)}</coordinates></LineString>`;
+    case 'Polygon':
+      return polygon(coordinates as number[][][]);
+    case 'MultiPoint':
+      return multi((coordinates as number[][]).map(point => kmlGeometry({ type: 'Point', coordinates: point })));
+    case 'MultiLineString':
+      return multi((coordinates as number[][][]).map(line => kmlGeometry({ type: 'LineString', coordinates: line })));
+    case 'MultiPolygon':
+      return multi((coordinates as number[][][][]).map(polygon));
+    case 'GeometryCollection':
+      return multi((geometry.geometries ?? []).map(kmlGeometry));
+    default:
+      return '';
+  }
+}
+
+function extendedData(properties: Record<string, unknown>): string {
+  const data = Object.entries(properties)
+    .filter(([, value]) => value !== null && value !== undefined)
+    .map(([name, value]) => {
+      const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+      return `<Data name="${escapeXml(name)}"><value>${escapeXml(text)}</value></Data>`;
+    });
+  return `<ExtendedData>${data.join('')}</ExtendedData>`;
+}
+
+/**
+ * KML colour (aabbggrr) for a #rrggbb colour
+ */
+function kmlColor(hex: string, alpha: number): string {
+  const [r, g, b] = [1, 3, 5].map(index => hex.slice(index, index + 2));
+  return `${Math.round(alpha * 255).toString(16).padStart(2, '0')}${b}${g}${r}`.toLowerCase();
+}
+
+/**
+ * One KML document for any number of checks: a folder per location with its
+ * point and a coverage placemark per returned feature, styled in the overlay colour
+ */
+export function resultsToKML(results: CoverageResult[], name = 'MTN coverage checks'): string {
+  const styles = (Object.keys(DEFAULT_OVERLAYS) as TechnologyType[]).map(tech => {
+    const { color } = DEFAULT_OVERLAYS[tech];
+    return `<Style id="coverage-${tech}">` +
+      `<LineStyle><color>${kmlColor(color, 1)}</color><width>2</width></LineStyle>` +
+      `<PolyStyle><color>${kmlColor(color, 0.4)}</color></PolyStyle>` +
+      '</Style>';
+  });
+
+  const folders = results.map(result => {
+    const point = '<Placemark>' +
+      `<name>${escapeXml(result.address)}</name>` +
+      `<TimeStamp><when>${escapeXml(result.timestamp)}</when></TimeStamp>` +
+      extendedData(locationProperties(result)) +
+      `<Point><coordinates>${result.coordinates.lng},${result.coordinates.lat}</coordinates></Point>` +
+      '</Placemark>';
+
+    const coverage = coverageFeatures(result).map(({ technology, source, feature }) => '<Placemark>' +
+      `<name>${escapeXml(technology ?? source)}</name>` +
+      (technology ? `<styleUrl>#coverage-${technology}</styleUrl>` : '') +
+      extendedData({ ...feature.properties, kind: 'coverage', technology, source, location: result.address }) +
+      kmlGeometry(toWgs84(feature.geometry!)) +
+      '</Placemark>');
+
+    return `<Folder><name>${escapeXml(result.address)}</name>${point}${coverage.join('')}</Folder>`;
+  });
+
+  return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    '<kml xmlns="http://www.opengis.net/kml/2.2"><Document>' +
+    `<name>${escapeXml(name)}</name>` +
+    styles.join('') +
+    folders.join('') +
+    '</Document></kml>\n';
+}
+
+/**
+ * Download-ready GeoJSON file
+ */
+export function exportGeoJSON(results: CoverageResult[]): Blob {
+  return new Blob([JSON.stringify(resultsToGeoJSON(results), null, 2)], { type: 'application/geo+json' });
+}
+
+/**
+ * Download-ready KML file
+ */
+export function exportKML(results: CoverageResult[]): Blob {
+  return new Blob([resultsToKML(results)], { type: 'application/vnd.google-earth.kml+xml' });
+}
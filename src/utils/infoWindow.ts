@@ -0,0 +1,31 @@
+// Content of the marker's info window. Addresses can come straight from a
+// shared link, so every field is set as text rather than parsed as HTML.
+
+import { CoverageResult } from '../types';
+
+function textElement(ownerDocument: Document, tag: string, className: string, text: string): HTMLElement {
+  const element = ownerDocument.createElement(tag);
+  element.setAttribute('class', className);
+  element.textContent = text;
+  return element;
+}
+
+/**
+ * Info window summary of a coverage check
+ */
+export function infoWindowContent(
+  result: Pick<CoverageResult, 'address' | 'province' | 'success'>,
+  ownerDocument: Document = document
+): HTMLElement {
+  const container = ownerDocument.createElement('div');
+  container.setAttribute('class', 'p-2');
+  container.appendChild(textElement(ownerDocument, 'h3', 'font-semibold text-sm', result.address));
+  container.appendChild(textElement(ownerDocument, 'p', 'text-xs text-gray-600', result.province));
+  container.appendChild(textElement(
+    ownerDocument,
+    'p',
+    `text-xs ${result.success ? 'text-green-600' : 'text-red-600'}`,
+    result.success ? 'Coverage Available' : 'No Coverage Data'
+  ));
+  return container;
+}
@@ -1,4 +1,17 @@
-// Using browser's built-in DOMParser
+// Reads Tarana coverage exports: the original .kmz archive (unpacked with
+// JSZip) or a plain .kml. Uses the browser's DOMParser unless one is injected.
+import JSZip from 'jszip';
+
+const BUNDLED_TARANA_SOURCE = '/coverage/tarana/coverage.kmz';
+// Where deployments kept the unpacked export before the KMZ was bundled
+const LEGACY_TARANA_SOURCE = '/coverage/tarana/doc.kml';
+
+export const DEFAULT_TARANA_SOURCE = import.meta.env?.VITE_TARANA_KMZ_URL || BUNDLED_TARANA_SOURCE;
+
+// 2025-07-16, 2025_07_16, 2025/07/16, 20250716 ...
+const DATE_PATTERN = /(20\d{2})[-_./]?(0[1-9]|1[0-2])[-_./]?(0[1-9]|[12]\d|3[01])/;
+
+type XmlParser = (text: string) => Document;
 
 export interface TaranaTower {
   id: string;
@@ -21,7 +34,8 @@ export interface TaranaCoverageData {
     };
   };
   metadata: {
-    date: string;
+    date: string | null; // YYYY-MM-DD, null when neither the document nor the file name has one
+    source: string;
     totalTowers: number;
     bounds: {
       north: number;
@@ -32,48 +46,147 @@ export interface TaranaCoverageData {
   };
 }
 
+/**
+ * Normalise the first date found in `text` to YYYY-MM-DD
+ */
+export function extractDate(text: string | null | undefined): string | null {
+  const match = text?.match(DATE_PATTERN);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+/**
+ * Data date of an export: document metadata first (TimeStamp, TimeSpan,
+ * an ExtendedData field named like "date", the document name or
+ * description), then the file name
+ */
+export function extractDataDate(kmlDoc: Document, fileName = ''): string | null {
+  const texts = (tag: string) => Array.from(kmlDoc.getElementsByTagName(tag)).map(element => element.textContent);
+  const dateFields = Array.from(kmlDoc.getElementsByTagName('Data'))
+    .filter(data => /date|updated/i.test(data.getAttribute('name') || ''))
+    .map(data => data.getElementsByTagName('value')[0]?.textContent);
+  const documentElement = kmlDoc.getElementsByTagName('Document')[0];
+  const documentText = (tag: string) => Array.from(documentElement?.childNodes ?? [])
+    .filter(node => node.nodeName === tag)
+    .map(node => node.textContent);
+
+  const candidates = [
+    ...texts('when'),
+    ...texts('end'),
+    ...texts('begin'),
+    ...dateFields,
+    ...documentText('name'),
+    ...documentText('description'),
+    fileName
+  ];
+
+  for (const candidate of candidates) {
+    const date = extractDate(candidate);
+    if (date) return date;
+  }
+  return null;
+}
+
 /**
  * Parse KML file and extract Tarana tower locations and coverage data
  */
 export class KMLParser {
   private cache: TaranaCoverageData | null = null;
 
+  constructor(private parseXml: XmlParser = text => new DOMParser().parseFromString(text, 'text/xml')) {}
+
   /**
-   * Load and parse KML file from public assets
+   * Load the Tarana export from a URL; KMZ archives and plain KML both work.
+   * A missing bundled KMZ falls back to the older unpacked doc.kml.
    */
-  async loadTaranaCoverage(): Promise<TaranaCoverageData> {
+  async loadTaranaCoverage(url: string = DEFAULT_TARANA_SOURCE): Promise<TaranaCoverageData> {
     if (this.cache) {
       return this.cache;
     }
 
     try {
-      const response = await fetch('/coverage/tarana/doc.kml');
+      let response = await fetch(url);
+      if (response.status === 404 && url === BUNDLED_TARANA_SOURCE) {
+        console.warn(`${url} not found, loading ${LEGACY_TARANA_SOURCE} instead`);
+        url = LEGACY_TARANA_SOURCE;
+        response = await fetch(url);
+      }
       if (!response.ok) {
-        throw new Error(`Failed to load KML: ${response.statusText}`);
+        throw new Error(`Failed to load Tarana coverage: ${response.statusText}`);
       }
 
-      const kmlText = await response.text();
-      const parsed = this.parseKML(kmlText);
+      const fileName = decodeURIComponent(url.split(/[?#]/)[0].split('/').pop() || '');
+      const data = await response.arrayBuffer();
+      const parsed = isZip(data)
+        ? await this.parseKMZ(data, fileName)
+        : this.parseKML(new TextDecoder().decode(data), fileName, href => new URL(href, new URL(url, location.href)).href);
 
-      this.cache = parsed;
+      this.setCache(parsed);
       return parsed;
     } catch (error) {
-      console.error('Error loading Tarana coverage KML:', error);
+      console.error('Error loading Tarana coverage:', error);
       throw error;
     }
   }
 
   /**
-   * Parse KML text and extract tower data
+   * Replace the dataset with an uploaded .kmz or .kml file
+   */
+  async loadFile(file: Blob, fileName = (file as File).name || ''): Promise<TaranaCoverageData> {
+    const data = await file.arrayBuffer();
+    const parsed = isZip(data)
+      ? await this.parseKMZ(data, fileName)
+      : this.parseKML(new TextDecoder().decode(data), fileName, href => href);
+
+    if (parsed.towers.length === 0) {
+      this.releaseUrls(parsed);
+      throw new Error(`No Tarana towers found in ${fileName || 'the uploaded file'}`);
+    }
+
+    this.setCache(parsed);
+    return parsed;
+  }
+
+  /**
+   * Unpack a KMZ: the root KML (doc.kml by convention, else the first .kml)
+   * plus the overlay image, served from an object URL
+   */
+  async parseKMZ(data: ArrayBuffer | Blob, fileName = ''): Promise<TaranaCoverageData> {
+    const zip = await JSZip.loadAsync(data);
+    const kmlFiles = zip.file(/\.kml$/i).sort((a, b) => a.name.split('/').length - b.name.split('/').length);
+    const root = zip.file('doc.kml') ?? kmlFiles[0];
+    if (!root) {
+      throw new Error(`No KML document in ${fileName || 'KMZ archive'}`);
+    }
+
+    const kmlText = await root.async('string');
+    const base = root.name.includes('/') ? root.name.slice(0, root.name.lastIndexOf('/') + 1) : '';
+    const parsed = this.parseKML(kmlText, fileName || root.name, href => href);
+
+    const href = parsed.coverageOverlay.imageUrl;
+    if (href && !/^[a-z][a-z0-9+.-]*:/i.test(href)) {
+      const image = zip.file(normalizePath(base + href)) ?? zip.file(normalizePath(href));
+      if (image) {
+        const blob = new Blob([await image.async('arraybuffer')], { type: imageType(image.name) });
+        parsed.coverageOverlay.imageUrl = URL.createObjectURL(blob);
+      } else {
+        console.warn(`Overlay image ${href} is missing from ${fileName || 'the KMZ archive'}`);
+        parsed.coverageOverlay.imageUrl = '';
+      }
+    }
+
+    return parsed;
+  }
+
+  /**
+   * Parse KML text and extract tower data; `resolveHref` maps the overlay href to a loadable URL
    */
-  private parseKML(kmlText: string): TaranaCoverageData {
-    const parser = new DOMParser();
-    const kmlDoc = parser.parseFromString(kmlText, 'text/xml');
+  parseKML(kmlText: string, fileName = '', resolveHref: (href: string) => string = href => href): TaranaCoverageData {
+    const kmlDoc = this.parseXml(kmlText);
 
     // Extract ground overlay bounds
     const groundOverlay = kmlDoc.getElementsByTagName('GroundOverlay')[0];
     const latLonBox = groundOverlay?.getElementsByTagName('LatLonBox')[0];
-    const iconHref = groundOverlay?.getElementsByTagName('href')[0]?.textContent || '';
+    const iconHref = groundOverlay?.getElementsByTagName('href')[0]?.textContent?.trim() || '';
 
     const coverageBounds = {
       north: parseFloat(latLonBox?.getElementsByTagName('north')[0]?.textContent || '0'),
@@ -122,17 +235,18 @@ export class KMLParser {
     const result: TaranaCoverageData = {
       towers,
       coverageOverlay: {
-        imageUrl: `/coverage/tarana/${iconHref}`,
+        imageUrl: iconHref ? resolveHref(iconHref) : '',
         bounds: coverageBounds
       },
       metadata: {
-        date: '2025-07-16', // From filename
+        date: extractDataDate(kmlDoc, fileName),
+        source: fileName,
         totalTowers: towers.length,
         bounds: this.calculateBounds(towers)
       }
     };
 
-    console.log(`Loaded ${towers.length} Tarana towers from KML`);
+    console.log(`Loaded ${towers.length} Tarana towers from ${fileName || 'KML'}`);
     return result;
   }
 
@@ -170,8 +284,41 @@ export class KMLParser {
    * Clear cache to force reload
    */
   clearCache(): void {
-    this.cache = null;
+    this.setCache(null);
   }
+
+  private setCache(data: TaranaCoverageData | null): void {
+    if (this.cache && this.cache !== data) {
+      this.releaseUrls(this.cache);
+    }
+    this.cache = data;
+  }
+
+  private releaseUrls(data: TaranaCoverageData): void {
+    const url = data.coverageOverlay.imageUrl;
+    if (url.startsWith('blob:')) {
+      URL.revokeObjectURL(url);
+    }
+  }
+}
+
+function isZip(data: ArrayBuffer): boolean {
+  const bytes = new Uint8Array(data, 0, Math.min(4, data.byteLength));
+  return bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+}
+
+function normalizePath(path: string): string {
+  const parts: string[] = [];
+  path.replace(/\\/g, '/').split('/').forEach(part => {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  });
+  return parts.join('/');
+}
+
+function imageType(name: string): string {
+  const extension = name.split('.').pop()?.toLowerCase();
+  return extension === 'jpg' || extension === 'jpeg' ? 'image/jpeg' : `image/${extension || 'png'}`;
 }
 
 // Export singleton instance
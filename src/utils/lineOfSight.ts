@@ -0,0 +1,143 @@
+// Line-of-sight and Fresnel clearance between a customer site and a fixed
+// wireless base node over the DEM terrain profile. Heights are in metres
+// above sea level and distances in km from the customer.
+
+import { ElevationModel } from './elevationModel';
+import { TaranaTower } from './kmlParser';
+import { haversineDistance } from './spatialIndex';
+
+const EARTH_RADIUS_M = 6371000;
+
+export type LineOfSightVerdict = 'clear' | 'marginal' | 'blocked' | 'unknown';
+
+export interface LineOfSightOptions {
+  frequencyGHz: number;
+  customerHeight: number; // antenna above ground at the customer, metres
+  towerHeight: number; // antenna above ground when the tower altitude can't be used, metres
+  samples: number;
+  kFactor: number; // effective earth radius factor for refraction
+  fresnelClearance: number; // share of the first Fresnel zone that must stay clear
+}
+
+export const DEFAULT_LINE_OF_SIGHT_OPTIONS: LineOfSightOptions = {
+  frequencyGHz: 5.8,
+  customerHeight: 6,
+  towerHeight: 30,
+  samples: 128,
+  kFactor: 4 / 3,
+  fresnelClearance: 0.6
+};
+
+export interface ProfileSample {
+  distance: number; // km from the customer
+  ground: number | null; // DEM height
+  terrain: number | null; // ground raised by earth curvature
+  sightLine: number;
+  fresnelRadius: number; // first Fresnel zone radius, metres
+  clearance: number | null; // sight line minus terrain, metres
+}
+
+export interface LineOfSightResult {
+  tower: TaranaTower;
+  distance: number; // km
+  customerAntenna: number | null; // metres above sea level
+  towerAntenna: number | null;
+  profile: ProfileSample[];
+  verdict: LineOfSightVerdict;
+  worstClearance: number | null; // smallest clearance as a share of the Fresnel radius
+  obstruction?: ProfileSample; // the sample with the worst clearance, when not clear
+}
+
+/**
+ * Radius in metres of the first Fresnel zone at d1/d2 km from the ends
+ */
+export function fresnelRadius(d1Km: number, d2Km: number, frequencyGHz: number): number {
+  const total = d1Km + d2Km;
+  return total > 0 ? 17.32 * Math.sqrt((d1Km * d2Km) / (frequencyGHz * total)) : 0;
+}
+
+/**
+ * Height in metres the earth's curvature adds under the path at d1/d2 km
+ */
+export function earthBulge(d1Km: number, d2Km: number, kFactor: number): number {
+  return (d1Km * 1000 * d2Km * 1000) / (2 * kFactor * EARTH_RADIUS_M);
+}
+
+/**
+ * Antenna height above sea level for a tower. The export's altitude is used
+ * as the antenna height above sea level when it is above the DEM ground,
+ * as a height above ground when it is smaller, and the default mast height
+ * applies when it is missing.
+ */
+export function towerAntennaHeight(tower: TaranaTower, ground: number | null, towerHeight: number): number | null {
+  if (ground === null) return tower.altitude > 0 ? tower.altitude : null;
+  if (tower.altitude > ground) return tower.altitude;
+  return ground + (tower.altitude > 0 ? tower.altitude : towerHeight);
+}
+
+/**
+ * Terrain profile, clearance and verdict for the path from a customer to a tower
+ */
+export async function analyzeLineOfSight(
+  model: ElevationModel,
+  customer: { lat: number; lng: number },
+  tower: TaranaTower,
+  options: Partial<LineOfSightOptions> = {}
+): Promise<LineOfSightResult> {
+  const settings = { ...DEFAULT_LINE_OF_SIGHT_OPTIONS, ...options };
+  const distance = haversineDistance(customer.lat, customer.lng, tower.lat, tower.lng);
+  const points = await model.profile(customer, tower, distance, settings.samples);
+
+  const customerGround = points[0].elevation;
+  const customerAntenna = customerGround === null ? null : customerGround + settings.customerHeight;
+  const towerAntenna = towerAntennaHeight(tower, points[points.length - 1].elevation, settings.towerHeight);
+
+  const profile = points.map(point => {
+    const d1 = point.distance;
+    const d2 = Math.max(distance - d1, 0);
+    const sightLine = customerAntenna === null || towerAntenna === null || distance === 0
+      ? 0
+      : customerAntenna + (towerAntenna - customerAntenna) * (d1 / distance);
+    const terrain = point.elevation === null ? null : point.elevation + earthBulge(d1, d2, settings.kFactor);
+
+    return {
+      distance: d1,
+      ground: point.elevation,
+      terrain,
+      sightLine,
+      fresnelRadius: fresnelRadius(d1, d2, settings.frequencyGHz),
+      clearance: terrain === null ? null : sightLine - terrain
+    };
+  });
+
+  const result = { tower, distance, customerAntenna, towerAntenna, profile };
+  if (customerAntenna === null || towerAntenna === null || profile.some(sample => sample.clearance === null)) {
+    return { ...result, verdict: 'unknown', worstClearance: null };
+  }
+
+  // The end points are the antennas themselves, so only the path between counts
+  let obstruction: ProfileSample | undefined;
+  let worstClearance = Infinity;
+  for (const sample of profile.slice(1, -1)) {
+    const ratio = sample.clearance! / Math.max(sample.fresnelRadius, 1e-6);
+    if (ratio < worstClearance) {
+      worstClearance = ratio;
+      obstruction = sample;
+    }
+  }
+
+  if (!obstruction) {
+    return { ...result, verdict: 'clear', worstClearance: null };
+  }
+
+  const verdict: LineOfSightVerdict = obstruction.clearance! <= 0
+    ? 'blocked'
+    : worstClearance < settings.fresnelClearance ? 'marginal' : 'clear';
+
+  return {
+    ...result,
+    verdict,
+    worstClearance,
+    ...(verdict === 'clear' ? {} : { obstruction })
+  };
+}
@@ -0,0 +1,220 @@
+// Recent coverage checks and pinned favourites, kept in localStorage with a
+// snapshot of each check's result so re-checks can show what changed.
+
+import { CoverageResult, TechnologyCoverage, TechnologyType } from '../types';
+import { buildComparison } from './coverageComparison';
+
+export interface HistoryEntry {
+  id: string;
+  address: string;
+  lat: number;
+  lng: number;
+  checkedAt: string;
+  result: CoverageResult;
+  favourite: boolean;
+  name?: string;
+  tags: string[];
+}
+
+export interface HistoryFilter {
+  query?: string;
+  tag?: string;
+  favouritesOnly?: boolean;
+}
+
+export interface CoverageChange {
+  technology: TechnologyType;
+  kind: 'gained' | 'lost' | 'strength' | 'quality';
+  before: TechnologyCoverage | null;
+  after: TechnologyCoverage | null;
+}
+
+export interface LocationHistoryOptions {
+  storage?: Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+  maxEntries?: number;
+  now?: () => number;
+}
+
+const STORAGE_KEY = 'mtn-coverage-history';
+
+/**
+ * Entry id for a location; checks within ~0.1m are the same site
+ */
+export function historyId(lat: number, lng: number): string {
+  return `${lat.toFixed(6)},${lng.toFixed(6)}`;
+}
+
+/**
+ * Result without per-feature geometry, which is large and not needed to diff
+ */
+function snapshot(result: CoverageResult): CoverageResult {
+  const strip = <T extends TechnologyCoverage>(tech: T): T => {
+    const { features, ...rest } = tech;
+    return rest as T;
+  };
+
+  const coverage: CoverageResult['coverage'] = {};
+  Object.entries(result.coverage).forEach(([key, source]) => {
+    if (source) {
+      coverage[key] = { ...source, types: source.types.map(strip) } as typeof source;
+    }
+  });
+
+  return {
+    ...result,
+    coverage,
+    technologies: result.technologies?.map(strip)
+  };
+}
+
+/**
+ * Technologies whose availability, strength or quality changed between two
+ * checks of the same site. Technologies missing from the newer check (for
+ * example because their lookup failed) are not reported as lost.
+ */
+export function diffCoverage(previous: CoverageResult, next: CoverageResult): CoverageChange[] {
+  return buildComparison([previous, next]).flatMap((row): CoverageChange[] => {
+    const [before, after] = row.cells;
+    if (!after) return [];
+
+    const wasAvailable = Boolean(before?.available);
+    if (wasAvailable !== after.available) {
+      return [{ technology: row.technology, kind: after.available ? 'gained' : 'lost', before, after }];
+    }
+    if (!before || !after.available) return [];
+
+    if (before.strength !== after.strength) {
+      return [{ technology: row.technology, kind: 'strength', before, after }];
+    }
+    if (before.quality !== after.quality) {
+      return [{ technology: row.technology, kind: 'quality', before, after }];
+    }
+    return [];
+  });
+}
+
+/**
+ * Entries matching a free-text query (address, name or tag), tag and favourite filter
+ */
+export function filterHistory(entries: HistoryEntry[], filter: HistoryFilter): HistoryEntry[] {
+  const query = filter.query?.trim().toLowerCase();
+
+  return entries.filter(entry => {
+    if (filter.favouritesOnly && !entry.favourite) return false;
+    if (filter.tag && !entry.tags.includes(filter.tag)) return false;
+    if (!query) return true;
+
+    return [entry.address, entry.name || '', ...entry.tags]
+      .some(value => value.toLowerCase().includes(query));
+  });
+}
+
+/**
+ * Every tag in use, alphabetically
+ */
+export function historyTags(entries: HistoryEntry[]): string[] {
+  return Array.from(new Set(entries.flatMap(entry => entry.tags))).sort();
+}
+
+export class LocationHistory {
+  private storage?: LocationHistoryOptions['storage'];
+  private maxEntries: number;
+  private now: () => number;
+
+  constructor(options: LocationHistoryOptions = {}) {
+    this.storage = options.storage ?? (typeof localStorage !== 'undefined' ? localStorage : undefined);
+    this.maxEntries = options.maxEntries ?? 50;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Entries, most recently checked first
+   */
+  list(): HistoryEntry[] {
+    try {
+      const saved = this.storage?.getItem(STORAGE_KEY);
+      return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+      console.error('Failed to load location history:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Entry for a site, or null if it is not in the history
+   */
+  get(id: string): HistoryEntry | null {
+    return this.list().find(entry => entry.id === id) || null;
+  }
+
+  /**
+   * Record a check. A repeat check of a known site replaces its snapshot and
+   * keeps its favourite settings; the previous entry is returned for diffing.
+   */
+  record(result: CoverageResult): { entry: HistoryEntry; previous: HistoryEntry | null } {
+    const { lat, lng } = result.coordinates;
+    const id = historyId(lat, lng);
+    const entries = this.list();
+    const previous = entries.find(entry => entry.id === id) || null;
+
+    const entry: HistoryEntry = {
+      id,
+      address: result.address,
+      lat,
+      lng,
+      checkedAt: new Date(this.now()).toISOString(),
+      result: snapshot(result),
+      favourite: previous?.favourite ?? false,
+      name: previous?.name,
+      tags: previous?.tags ?? []
+    };
+
+    this.save([entry, ...entries.filter(existing => existing.id !== id)]);
+    return { entry, previous };
+  }
+
+  /**
+   * Pin a site as a named favourite, or update its name and tags
+   */
+  pin(id: string, name: string, tags: string[]): void {
+    this.update(id, {
+      favourite: true,
+      name: name.trim() || undefined,
+      tags: Array.from(new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean)))
+    });
+  }
+
+  unpin(id: string): void {
+    this.update(id, { favourite: false });
+  }
+
+  remove(id: string): void {
+    this.save(this.list().filter(entry => entry.id !== id));
+  }
+
+  /**
+   * Drop everything except favourites
+   */
+  clearRecent(): void {
+    this.save(this.list().filter(entry => entry.favourite));
+  }
+
+  private update(id: string, changes: Partial<HistoryEntry>): void {
+    this.save(this.list().map(entry => (entry.id === id ? { ...entry, ...changes } : entry)));
+  }
+
+  // Favourites never count towards the cap on recent checks
+  private save(entries: HistoryEntry[]): void {
+    let recent = 0;
+    const kept = entries.filter(entry => entry.favourite || ++recent <= this.maxEntries);
+
+    try {
+      this.storage?.setItem(STORAGE_KEY, JSON.stringify(kept));
+    } catch (error) {
+      console.error('Failed to save location history:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const locationHistory = new LocationHistory();
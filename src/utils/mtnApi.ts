@@ -1,19 +1,41 @@
-import { CoverageResult, TechnologyType, CoverageData } from '../types';
+import {
+  CoverageResult,
+  TechnologyType,
+  CoverageData,
+  TechnologyCoverage,
+  GeoJSONFeature,
+  CoverageCheckOptions,
+  ErrorInfo
+} from '../types';
+import { ResilienceError, ResilientFetcher } from '../shared/resilience';
+import { buildTileUrl } from '../shared/tiles';
+import { MtnBaseUrls, mtnEndpoints } from '../shared/upstreams';
+import { coverageCache } from './coverageCache';
+import {
+  normalizeCoverageResult,
+  parseCoveragePointPayload,
+  parseFeatureCollection,
+  parseObjectPayload
+} from './coverageNormalizer';
+import { provinceResolver } from './provinceResolver';
 // Removed Tarana static data import - using only live MTN APIs
 
+export interface MTNApiOptions {
+  baseUrls?: Partial<MtnBaseUrls>; // e.g. the local mock server
+}
+
+interface LayerConfig {
+  mlid: string;
+  geoserverLayer: string;
+  style: string;
+  opacity: number;
+}
+
 export class MTNApi {
-  private endpoints = {
-    publicCoverage: 'https://www.mtn.co.za/home/coverage/query',
-    coverageMap: 'https://www.mtn.co.za/home/coverage/',
-    geoserver: 'https://mtnsi.mtn.co.za/cache/geoserver/wms',
-    coverageApi: 'https://mtnsi.mtn.co.za/coverage/api/point',
-    tiles: 'https://mtnsi.mtn.co.za/tiles',
-    consumerApi: 'https://api.mtn.co.za/coverage/v1/availability',
-    signalApi: 'https://api.mtn.co.za/coverage/v1/signal'
-  };
+  private endpoints: ReturnType<typeof mtnEndpoints>;
 
   // WMS Layer configurations extracted from official MTN coverage map documentation
-  private technologyLayers = {
+  private technologyLayers: Record<string, LayerConfig> = {
     'ALL': {
       mlid: 'EBU-RBUS-ALL',
       geoserverLayer: 'mtnsi:MTN-EBU-RBUS-ALL2',
@@ -77,10 +99,23 @@ export class MTNApi {
     west: 16
   };
 
-  private cache = new Map<string, { data: CoverageResult; timestamp: number }>();
-  private cacheTimeout = 300000; // 5 minutes
+  // Timeouts, retries and a circuit breaker per endpoint (and per GeoServer layer)
+  private http = new ResilientFetcher({ timeout: 8000, retries: 2 });
 
-  async checkCoverage(latitude: number, longitude: number, address?: string): Promise<CoverageResult> {
+  constructor(options: MTNApiOptions = {}) {
+    this.endpoints = mtnEndpoints({
+      gis: options.baseUrls?.gis || import.meta.env?.VITE_MTN_GIS_BASE_URL,
+      api: options.baseUrls?.api || import.meta.env?.VITE_MTN_API_BASE_URL,
+      web: options.baseUrls?.web || import.meta.env?.VITE_MTN_WEB_BASE_URL
+    });
+  }
+
+  async checkCoverage(
+    latitude: number,
+    longitude: number,
+    address?: string,
+    options: CoverageCheckOptions = {}
+  ): Promise<CoverageResult> {
     // Validate coordinates are in South Africa
     if (!this.isInSouthAfrica(latitude, longitude)) {
       return {
@@ -94,37 +129,32 @@ export class MTNApi {
       };
     }
 
-    // Check cache first
-    const cacheKey = `${latitude.toFixed(4)},${longitude.toFixed(4)}`;
-    const cached = this.getFromCache(cacheKey);
-    if (cached) {
-      return cached;
-    }
-
     const results: CoverageResult = {
       coordinates: { lat: latitude, lng: longitude },
       address: address || `${latitude}, ${longitude}`,
-      province: this.getProvince(latitude, longitude),
+      province: provinceResolver.resolve(latitude, longitude),
       timestamp: new Date().toISOString(),
       coverage: {},
       errors: [],
       success: false
     };
 
-    // Try real MTN GeoServer WMS coverage data first
-    const realCoverage = await this.getRealMTNCoverage(latitude, longitude, address);
+    // Try real MTN GeoServer WMS coverage data first (cached per technology)
+    const realCoverage = await this.getRealMTNCoverage(latitude, longitude, address, options);
+    results.errors.push(...realCoverage.errors);
 
-    if (realCoverage) {
-      results.coverage = realCoverage;
+    if (realCoverage.coverage) {
+      results.coverage = realCoverage.coverage;
+      results.lastChecked = realCoverage.lastChecked;
       results.success = true;
-      this.addToCache(cacheKey, results);
-      return results;
+      return normalizeCoverageResult(results);
     }
 
     // Real MTN API failed - no fallback, return failure
     console.log('Real MTN API failed (likely CORS)');
 
     // Fallback to other API endpoints if WMS lookup fails
+    const fallbackEndpoints = ['publicCoverage', 'coverageApi', 'geoserver', 'consumerApi'];
     const coveragePromises = [
       this.tryPublicCoverageQuery(latitude, longitude),
       this.tryCoverageApiPoint(latitude, longitude),
@@ -140,20 +170,13 @@ export class MTNApi {
         if (response.status === 'fulfilled' && response.value) {
           Object.assign(results.coverage, response.value);
         } else if (response.status === 'rejected') {
-          results.errors.push({
-            endpoint: index,
-            error: response.reason?.message || 'Unknown error'
-          });
+          results.errors.push(this.toErrorInfo(fallbackEndpoints[index], response.reason));
         }
       });
 
       // Determine overall success
       results.success = Object.keys(results.coverage).length > 0;
 
-      // Add to cache
-      if (results.success) {
-        this.addToCache(cacheKey, results);
-      }
     } catch (error) {
       results.errors.push({
         endpoint: 'general',
@@ -161,10 +184,10 @@ export class MTNApi {
       });
     }
 
-    return results;
+    return normalizeCoverageResult(results);
   }
 
-  private async tryPublicCoverageQuery(lat: number, lng: number): Promise<Partial<CoverageData> | null> {
+  private async tryPublicCoverageQuery(lat: number, lng: number): Promise<CoverageData | null> {
     try {
       const url = `${this.endpoints.publicCoverage}`;
       const params = new URLSearchParams({
@@ -173,7 +196,7 @@ export class MTNApi {
         type: 'all'
       });
 
-      const response = await fetch(`${url}?${params}`, {
+      const response = await this.http.fetch('publicCoverage', `${url}?${params}`, {
         method: 'GET',
         headers: {
           'Accept': 'application/json',
@@ -185,21 +208,25 @@ export class MTNApi {
         const data = await response.json();
         return {
           publicQuery: {
+            kind: 'publicQuery',
             available: true,
-            data: data,
+            data: parseObjectPayload(data, 'public coverage query'),
+            types: [],
             source: 'MTN Public Coverage Query'
           }
         };
       }
     } catch (error) {
+      // Timeouts and open breakers are reported in CoverageResult.errors
+      if (error instanceof ResilienceError) throw error;
       console.error('Public coverage query failed:', error);
     }
     return null;
   }
 
-  private async tryCoverageApiPoint(lat: number, lng: number): Promise<Partial<CoverageData> | null> {
+  private async tryCoverageApiPoint(lat: number, lng: number): Promise<CoverageData | null> {
     try {
-      const response = await fetch(this.endpoints.coverageApi, {
+      const response = await this.http.fetch('coverageApi', this.endpoints.coveragePoint, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -215,19 +242,22 @@ export class MTNApi {
         const data = await response.json();
         return {
           coveragePoint: {
+            kind: 'coveragePoint',
             available: true,
-            types: data,
+            types: parseCoveragePointPayload(data),
             source: 'MTN Coverage API Point'
           }
         };
       }
     } catch (error) {
+      // Timeouts and open breakers are reported in CoverageResult.errors
+      if (error instanceof ResilienceError) throw error;
       console.error('Coverage API point failed:', error);
     }
     return null;
   }
 
-  private async tryWMSFeatureInfo(lat: number, lng: number): Promise<Partial<CoverageData> | null> {
+  private async tryWMSFeatureInfo(lat: number, lng: number): Promise<CoverageData | null> {
     try {
       const bbox = `${lng - 0.01},${lat - 0.01},${lng + 0.01},${lat + 0.01}`;
 
@@ -246,7 +276,7 @@ export class MTNApi {
         info_format: 'application/json'
       });
 
-      const response = await fetch(`${this.endpoints.geoserver}?${params}`, {
+      const response = await this.http.fetch('geoserver', `${this.endpoints.geoserver}?${params}`, {
         method: 'GET',
         headers: {
           'Accept': 'application/json'
@@ -257,19 +287,23 @@ export class MTNApi {
         const data = await response.json();
         return {
           wmsFeatures: {
+            kind: 'wmsFeatures',
             available: true,
-            features: data.features || [],
+            features: parseFeatureCollection(data),
+            types: [],
             source: 'MTN WMS Service'
           }
         };
       }
     } catch (error) {
+      // Timeouts and open breakers are reported in CoverageResult.errors
+      if (error instanceof ResilienceError) throw error;
       console.error('WMS GetFeatureInfo failed:', error);
     }
     return null;
   }
 
-  private async tryAlternativeEndpoint(lat: number, lng: number): Promise<Partial<CoverageData> | null> {
+  private async tryAlternativeEndpoint(lat: number, lng: number): Promise<CoverageData | null> {
     try {
       const url = `${this.endpoints.consumerApi}`;
       const params = new URLSearchParams({
@@ -278,7 +312,7 @@ export class MTNApi {
         service: 'UNCAPPED_WIRELESS'
       });
 
-      const response = await fetch(`${url}?${params}`, {
+      const response = await this.http.fetch('consumerApi', `${url}?${params}`, {
         method: 'GET',
         headers: {
           'Accept': 'application/json'
@@ -289,13 +323,17 @@ export class MTNApi {
         const data = await response.json();
         return {
           consumerApi: {
+            kind: 'consumerApi',
             available: true,
-            services: data,
+            services: parseObjectPayload(data, 'consumer API'),
+            types: [],
             source: 'MTN Consumer API'
           }
         };
       }
     } catch (error) {
+      // Timeouts and open breakers are reported in CoverageResult.errors
+      if (error instanceof ResilienceError) throw error;
       console.error('Alternative endpoint failed:', error);
     }
     return null;
@@ -305,48 +343,87 @@ export class MTNApi {
    * Get real MTN coverage data using the actual GeoServer WMS API
    * This method queries the official MTN coverage layers for each technology
    */
-  private async getRealMTNCoverage(lat: number, lng: number, address?: string): Promise<Partial<CoverageData> | null> {
-    try {
-      const availableTechnologies = [];
-      const errors = [];
-
-      // Check each technology layer
-      for (const [techType, layerConfig] of Object.entries(this.technologyLayers)) {
-        try {
-          const coverage = await this.checkTechnologyCoverage(lat, lng, techType as TechnologyType, layerConfig);
-          if (coverage) {
-            availableTechnologies.push(coverage);
-          }
-        } catch (error) {
-          errors.push({ tech: techType, error: error instanceof Error ? error.message : 'Unknown error' });
-        }
+  private async getRealMTNCoverage(
+    lat: number,
+    lng: number,
+    address: string | undefined,
+    options: CoverageCheckOptions
+  ): Promise<{ coverage: CoverageData | null; lastChecked?: string; errors: ErrorInfo[] }> {
+    const availableTechnologies: TechnologyCoverage[] = [];
+    const layerErrors: Array<{ tech: string; error: string }> = [];
+    const errors: ErrorInfo[] = [];
+    let lastChecked: string | undefined;
+
+    // Query every layer in parallel so one slow layer cannot stall the rest
+    const layers = Object.entries(this.technologyLayers);
+    const responses = await Promise.allSettled(layers.map(([techType, layerConfig]) => {
+      const technology = techType as TechnologyType;
+      return coverageCache.getOrFetch(
+        coverageCache.key('mtnGeoServer', lat, lng, technology),
+        technology,
+        () => this.checkTechnologyCoverage(lat, lng, technology, layerConfig),
+        options
+      );
+    }));
+
+    responses.forEach((response, index) => {
+      const techType = layers[index][0];
+
+      if (response.status === 'rejected') {
+        const info = this.toErrorInfo(`geoserver:${techType}`, response.reason);
+        layerErrors.push({ tech: techType, error: info.error });
+        errors.push(info);
+        return;
       }
 
-      if (availableTechnologies.length === 0) {
-        console.log('No MTN coverage found at this location:', { lat, lng, errors });
-        return null;
+      const cached = response.value;
+      if (cached.fromCache && (!lastChecked || cached.checkedAt < lastChecked)) {
+        lastChecked = cached.checkedAt;
+      }
+      if (cached.value) {
+        availableTechnologies.push(cached.value);
       }
+    });
 
-      return {
+    if (availableTechnologies.length === 0) {
+      console.log('No MTN coverage found at this location:', { lat, lng, errors: layerErrors });
+      return { coverage: null, errors };
+    }
+
+    return {
+      coverage: {
         mtnGeoServer: {
+          kind: 'mtnGeoServer',
           available: true,
           types: availableTechnologies,
           source: 'MTN GeoServer WMS',
           coordinates: { lat, lng },
           address: address,
-          errors: errors.length > 0 ? errors : undefined
+          errors: layerErrors.length > 0 ? layerErrors : undefined
         }
-      };
-    } catch (error) {
-      console.error('Real MTN coverage lookup failed:', error);
-      return null;
-    }
+      },
+      lastChecked,
+      errors
+    };
   }
 
   /**
-   * Check coverage for a specific technology using MTN's WMS GetFeatureInfo
+   * ErrorInfo for a failed endpoint, carrying the resilience error code if any
    */
-  private async checkTechnologyCoverage(lat: number, lng: number, techType: TechnologyType, layerConfig: any): Promise<any | null> {
+  private toErrorInfo(endpoint: string, error: unknown): ErrorInfo {
+    return {
+      endpoint,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      ...(error instanceof ResilienceError ? { code: error.code } : {})
+    };
+  }
+
+  /**
+   * Check coverage for a specific technology using MTN's WMS GetFeatureInfo.
+   * Returns null when the layer has no coverage here; throws when the lookup fails
+   * so that failures are never cached as "no coverage".
+   */
+  private async checkTechnologyCoverage(lat: number, lng: number, techType: TechnologyType, layerConfig: LayerConfig): Promise<TechnologyCoverage | null> {
     try {
       // Convert lat/lng to EPSG:900913 (Spherical Mercator) for MTN's system
       const mercatorCoords = this.convertToSphericalMercator(lat, lng);
@@ -381,7 +458,7 @@ export class MTNApi {
         FEATURE_COUNT: '50'
       });
 
-      const response = await fetch(`${this.endpoints.geoserver}?${params}`, {
+      const response = await this.http.fetch(`geoserver:${techType}`, `${this.endpoints.geoserver}?${params}`, {
         method: 'GET',
         headers: {
           'Accept': 'application/json',
@@ -390,14 +467,12 @@ export class MTNApi {
       });
 
       if (response.ok) {
-        const data = await response.json();
+        const features = parseFeatureCollection(await response.json());
 
         // Check if any features were returned (indicates coverage)
-        const hasCoverage = data.features && data.features.length > 0;
-
-        if (hasCoverage) {
+        if (features.length > 0) {
           // Analyze the coverage data to determine strength and quality
-          const coverageAnalysis = this.analyzeCoverageFeatures(data.features, techType);
+          const coverageAnalysis = this.analyzeCoverageFeatures(features, techType);
 
           return {
             type: techType,
@@ -405,18 +480,17 @@ export class MTNApi {
             strength: coverageAnalysis.strength,
             quality: coverageAnalysis.quality,
             infrastructureType: this.getTechnologyDescription(techType),
-            features: data.features,
-            layerInfo: layerConfig
+            features
           };
         }
       } else {
-        console.log(`No ${techType} coverage found:`, response.status, response.statusText);
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
 
       return null;
     } catch (error) {
       console.error(`Error checking ${techType} coverage:`, error);
-      return null;
+      throw error;
     }
   }
 
@@ -440,7 +514,7 @@ export class MTNApi {
   /**
    * Analyze coverage features to determine signal strength and quality
    */
-  private analyzeCoverageFeatures(features: any[], techType: TechnologyType): { strength: string, quality: number } {
+  private analyzeCoverageFeatures(features: GeoJSONFeature[], techType: TechnologyType): { strength: NonNullable<TechnologyCoverage['strength']>, quality: number } {
     if (!features || features.length === 0) {
       return { strength: 'low', quality: 0 };
     }
@@ -473,20 +547,21 @@ export class MTNApi {
       quality = Math.round(totalQuality / qualityCount);
     } else {
       // Default quality based on technology type
-      const techQuality = {
+      const techQuality: Record<TechnologyType, number> = {
         '2G': 60,
         '3G': 70,
         '4G': 85,
         '5G': 95,
         'UNCAPPED_WIRELESS': 80,
         'FIBRE': 98,
+        'LICENSED_WIRELESS': 90,
         'FIXED_LTE': 75
       };
       quality = techQuality[techType] || 70;
     }
 
     // Determine strength based on quality and feature count
-    let strength: string;
+    let strength: NonNullable<TechnologyCoverage['strength']>;
     if (quality >= 85 && features.length >= 3) strength = 'high';
     else if (quality >= 65 || features.length >= 2) strength = 'medium';
     else strength = 'low';
@@ -498,13 +573,14 @@ export class MTNApi {
    * Get human-readable description for technology type
    */
   private getTechnologyDescription(techType: TechnologyType): string {
-    const descriptions = {
+    const descriptions: Record<TechnologyType, string> = {
       '2G': 'Legacy Network',
       '3G': 'Enhanced Network',
       '4G': 'LTE Network',
       '5G': '5G Network',
       'UNCAPPED_WIRELESS': 'Fixed Wireless Access',
       'FIBRE': 'Fibre Network',
+      'LICENSED_WIRELESS': 'Licensed Wireless Access',
       'FIXED_LTE': 'Fixed LTE Access'
     };
     return descriptions[techType] || 'Network Coverage';
@@ -513,7 +589,7 @@ export class MTNApi {
   // Removed infrastructure analysis fallback - using only live MTN APIs
 
   private analyzeLocation(lat: number, lng: number, address?: string) {
-    const province = this.getProvince(lat, lng);
+    const province = provinceResolver.resolve(lat, lng);
 
     // Calculate distance from major cities
     const majorCities = [
@@ -583,8 +659,12 @@ export class MTNApi {
     return R * c;
   }
 
-  getTileUrl(z: number, x: number, y: number, layer = 'uncapped_wireless'): string {
-    return `${this.endpoints.tiles}/${layer}/${z}/${x}/${y}.png`;
+  /**
+   * Direct GeoServer GetMap URL for one XYZ tile. The browser normally goes
+   * through apiClient.getTileUrl so tiles are cached by the proxy.
+   */
+  getTileUrl(z: number, x: number, y: number, technology: TechnologyType | 'ALL' = 'UNCAPPED_WIRELESS'): string {
+    return buildTileUrl(technology, z, x, y, this.endpoints.geoserver) || '';
   }
 
   /**
@@ -637,44 +717,6 @@ export class MTNApi {
            lng >= this.saBounds.west &&
            lng <= this.saBounds.east;
   }
-
-  private getProvince(lat: number, lng: number): string {
-    const provinces = {
-      'Gauteng': { lat: [-26.5, -25.0], lng: [27.5, 29.0] },
-      'Western Cape': { lat: [-34.5, -31.0], lng: [17.5, 21.0] },
-      'KwaZulu-Natal': { lat: [-31.5, -27.0], lng: [28.5, 33.0] },
-      'Eastern Cape': { lat: [-33.5, -30.0], lng: [22.0, 28.5] },
-      'Limpopo': { lat: [-25.5, -22.0], lng: [26.5, 31.5] },
-      'Mpumalanga': { lat: [-26.5, -24.0], lng: [28.5, 32.0] },
-      'North West': { lat: [-27.5, -24.0], lng: [22.0, 28.5] },
-      'Free State': { lat: [-30.0, -26.5], lng: [24.0, 29.5] },
-      'Northern Cape': { lat: [-32.0, -26.0], lng: [16.0, 26.0] }
-    };
-
-    for (const [province, bounds] of Object.entries(provinces)) {
-      if (lat >= bounds.lat[0] && lat <= bounds.lat[1] &&
-          lng >= bounds.lng[0] && lng <= bounds.lng[1]) {
-        return province;
-      }
-    }
-    return 'Unknown';
-  }
-
-  private addToCache(key: string, data: CoverageResult): void {
-    this.cache.set(key, {
-      data: data,
-      timestamp: Date.now()
-    });
-  }
-
-  private getFromCache(key: string): CoverageResult | null {
-    const cached = this.cache.get(key);
-    if (cached && (Date.now() - cached.timestamp) < this.cacheTimeout) {
-      return cached.data;
-    }
-    this.cache.delete(key);
-    return null;
-  }
 }
 
 export const mtnApi = new MTNApi();
\ No newline at end of file
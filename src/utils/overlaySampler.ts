@@ -0,0 +1,148 @@
+// Reads coverage straight off the Tarana GroundOverlay image: a point is
+// mapped to its pixel inside the overlay's LatLonBox and the pixel colour is
+// classified against a palette of coverage classes. GroundOverlay images are
+// plain lat/lng grids, so the mapping is linear in both axes.
+
+import { decodePng, DecodedImage } from './pngDecoder';
+
+export interface OverlayBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export interface OverlayClass {
+  name: string;
+  color: string; // #rrggbb as drawn in the overlay
+  available: boolean;
+  strength?: 'high' | 'medium' | 'low';
+}
+
+export interface OverlaySample {
+  inBounds: boolean;
+  pixel?: { x: number; y: number };
+  rgba?: [number, number, number, number];
+  coverageClass: OverlayClass | null; // null: transparent or no palette colour close enough
+  transparent?: boolean; // in bounds but nothing drawn there
+}
+
+export interface OverlaySamplerOptions {
+  palette?: OverlayClass[];
+  tolerance?: number; // largest RGB distance still matching a palette colour
+  minAlpha?: number; // more transparent pixels count as no coverage
+  loadImage?: (url: string) => Promise<ArrayBuffer>;
+}
+
+export const DEFAULT_OVERLAY_PALETTE: OverlayClass[] = [
+  { name: 'Excellent', color: '#00b050', available: true, strength: 'high' },
+  { name: 'Good', color: '#92d050', available: true, strength: 'high' },
+  { name: 'Fair', color: '#ffff00', available: true, strength: 'medium' },
+  { name: 'Marginal', color: '#ffc000', available: true, strength: 'low' },
+  { name: 'No service', color: '#ff0000', available: false }
+];
+
+function parseColor(hex: string): [number, number, number] {
+  const value = hex.replace('#', '');
+  return [0, 2, 4].map(index => parseInt(value.slice(index, index + 2), 16)) as [number, number, number];
+}
+
+/**
+ * Pixel containing a point, or null outside the overlay
+ */
+export function overlayPixel(bounds: OverlayBounds, width: number, height: number, lat: number, lng: number): { x: number; y: number } | null {
+  const fx = (lng - bounds.west) / (bounds.east - bounds.west);
+  const fy = (bounds.north - lat) / (bounds.north - bounds.south);
+  if (!(fx >= 0 && fx <= 1 && fy >= 0 && fy <= 1)) return null;
+
+  return {
+    x: Math.min(Math.floor(fx * width), width - 1),
+    y: Math.min(Math.floor(fy * height), height - 1)
+  };
+}
+
+/**
+ * Closest palette class within `tolerance`, or null
+ */
+export function classifyColor(
+  rgba: ArrayLike<number>,
+  palette: OverlayClass[] = DEFAULT_OVERLAY_PALETTE,
+  tolerance = 60,
+  minAlpha = 32
+): OverlayClass | null {
+  if (rgba[3] < minAlpha) return null;
+
+  let best: OverlayClass | null = null;
+  let bestDistance = tolerance;
+  for (const entry of palette) {
+    const [r, g, b] = parseColor(entry.color);
+    const distance = Math.hypot(rgba[0] - r, rgba[1] - g, rgba[2] - b);
+    if (distance <= bestDistance) {
+      best = entry;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/**
+ * Samples coverage overlays; each image is fetched and decoded once
+ */
+export class OverlaySampler {
+  private images = new Map<string, Promise<DecodedImage>>();
+  private palette: OverlayClass[];
+  private tolerance: number;
+  private minAlpha: number;
+  private loadImage: (url: string) => Promise<ArrayBuffer>;
+
+  constructor(options: OverlaySamplerOptions = {}) {
+    this.palette = options.palette ?? DEFAULT_OVERLAY_PALETTE;
+    this.tolerance = options.tolerance ?? 60;
+    this.minAlpha = options.minAlpha ?? 32;
+    this.loadImage = options.loadImage ?? (async url => {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`Failed to load coverage overlay: ${response.statusText}`);
+      return response.arrayBuffer();
+    });
+  }
+
+  /**
+   * Use a different set of coverage classes, e.g. for another vendor's export
+   */
+  setPalette(palette: OverlayClass[], tolerance = this.tolerance): void {
+    this.palette = palette;
+    this.tolerance = tolerance;
+  }
+
+  async sample(overlay: { imageUrl: string; bounds: OverlayBounds }, lat: number, lng: number): Promise<OverlaySample> {
+    const image = await this.image(overlay.imageUrl);
+    const pixel = overlayPixel(overlay.bounds, image.width, image.height, lat, lng);
+    if (!pixel) {
+      return { inBounds: false, coverageClass: null };
+    }
+
+    const at = (pixel.y * image.width + pixel.x) * 4;
+    const rgba = Array.from(image.data.subarray(at, at + 4)) as [number, number, number, number];
+    return {
+      inBounds: true,
+      pixel,
+      rgba,
+      coverageClass: classifyColor(rgba, this.palette, this.tolerance, this.minAlpha),
+      transparent: rgba[3] < this.minAlpha
+    };
+  }
+
+  clear(): void {
+    this.images.clear();
+  }
+
+  private image(url: string): Promise<DecodedImage> {
+    if (!this.images.has(url)) {
+      const decoded = this.loadImage(url).then(decodePng);
+      // Let a failed load be retried on the next sample
+      decoded.catch(() => this.images.delete(url));
+      this.images.set(url, decoded);
+    }
+    return this.images.get(url)!;
+  }
+}
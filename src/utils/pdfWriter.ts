@@ -0,0 +1,255 @@
+// Minimal PDF 1.4 writer for client-side reports: text in the standard
+// Helvetica fonts, filled/stroked rectangles, lines and JPEG images. Enough
+// for a one or two page document without pulling in a PDF library.
+
+export interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: string;
+}
+
+export interface ShapeOptions {
+  fill?: string;
+  stroke?: string;
+  lineWidth?: number;
+}
+
+interface PdfImage {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+// Helvetica advance widths (1/1000 em) for ASCII 32-126, from the standard AFM
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+// Helvetica-Bold is close enough to a fixed factor wider for wrapping purposes
+const BOLD_FACTOR = 1.08;
+
+const REPLACEMENTS: Record<string, string> = {
+  '‘': "'", '’': "'", '“': '"', '”': '"',
+  '–': '-', '—': '-', '…': '...', '→': '->'
+};
+
+/**
+ * Map text onto the single-byte WinAnsi range the standard fonts cover
+ */
+function toWinAnsi(text: string): string {
+  return Array.from(text)
+    .map(char => {
+      if (REPLACEMENTS[char]) return REPLACEMENTS[char];
+      const code = char.charCodeAt(0);
+      return (code >= 32 && code <= 126) || (code >= 160 && code <= 255) ? char : '?';
+    })
+    .join('');
+}
+
+function escapeText(text: string): string {
+  return text.replace(/[\\()]/g, match => `\\${match}`);
+}
+
+function rgb(hex: string): string {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]
+    .map(channel => (channel / 255).toFixed(3))
+    .join(' ');
+}
+
+function latin1(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    bytes[i] = text.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+}
+
+const num = (value: number) => Number(value.toFixed(2)).toString();
+
+/**
+ * A4 portrait document. Coordinates are in points from the top-left corner;
+ * text y positions are baselines.
+ */
+export class PdfDocument {
+  readonly width = 595.28;
+  readonly height = 841.89;
+
+  private pages: string[][] = [];
+  private images: PdfImage[] = [];
+  private current = 0;
+
+  constructor() {
+    this.addPage();
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+    this.current = this.pages.length - 1;
+  }
+
+  /**
+   * Switch drawing to an existing page, e.g. to add footers once the page count is known
+   */
+  setPage(index: number): void {
+    if (index < 0 || index >= this.pages.length) {
+      throw new RangeError(`No page ${index}`);
+    }
+    this.current = index;
+  }
+
+  /**
+   * Width of a string in points
+   */
+  textWidth(text: string, size: number, bold = false): number {
+    const units = Array.from(toWinAnsi(text)).reduce((total, char) => {
+      const code = char.charCodeAt(0);
+      return total + (code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556);
+    }, 0);
+    return (units * size / 1000) * (bold ? BOLD_FACTOR : 1);
+  }
+
+  /**
+   * Break text into lines no wider than maxWidth, splitting on spaces
+   */
+  wrapText(text: string, size: number, maxWidth: number, bold = false): string[] {
+    const lines: string[] = [];
+    let line = '';
+
+    text.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && this.textWidth(candidate, size, bold) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    });
+
+    if (line) lines.push(line);
+    return lines;
+  }
+
+  text(text: string, x: number, y: number, options: TextOptions = {}): void {
+    const { size = 10, bold = false, color = '#000000' } = options;
+    this.draw(
+      `BT /${bold ? 'F2' : 'F1'} ${num(size)} Tf ${rgb(color)} rg ` +
+      `${num(x)} ${num(this.height - y)} Td (${escapeText(toWinAnsi(text))}) Tj ET`
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, options: ShapeOptions = {}): void {
+    const { fill, stroke, lineWidth = 1 } = options;
+    if (!fill && !stroke) return;
+
+    const ops = [
+      fill ? `${rgb(fill)} rg` : '',
+      stroke ? `${rgb(stroke)} RG ${num(lineWidth)} w` : '',
+      `${num(x)} ${num(this.height - y - height)} ${num(width)} ${num(height)} re`,
+      fill && stroke ? 'B' : fill ? 'f' : 'S'
+    ];
+    this.draw(ops.filter(Boolean).join(' '));
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color = '#000000', lineWidth = 1): void {
+    this.draw(
+      `${rgb(color)} RG ${num(lineWidth)} w ` +
+      `${num(x1)} ${num(this.height - y1)} m ${num(x2)} ${num(this.height - y2)} l S`
+    );
+  }
+
+  /**
+   * Place a baseline JPEG, stretched to width x height points
+   */
+  image(jpeg: Uint8Array, pixelWidth: number, pixelHeight: number, x: number, y: number, width: number, height: number): void {
+    this.images.push({ data: jpeg, width: pixelWidth, height: pixelHeight });
+    const name = `Im${this.images.length}`;
+    this.draw(`q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(this.height - y - height)} cm /${name} Do Q`);
+  }
+
+  toBytes(): Uint8Array {
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+
+    const write = (chunk: string | Uint8Array) => {
+      const bytes = typeof chunk === 'string' ? latin1(chunk) : chunk;
+      chunks.push(bytes);
+      length += bytes.length;
+    };
+    const object = (id: number, body: string | Uint8Array[]) => {
+      offsets[id] = length;
+      write(`${id} 0 obj\n`);
+      (typeof body === 'string' ? [body] : body).forEach(write);
+      write('\nendobj\n');
+    };
+
+    // Object ids: catalog, page tree, two fonts, images, then a page and its content stream per page
+    const firstImage = 5;
+    const firstPage = firstImage + this.images.length;
+    const pageIds = this.pages.map((_, index) => firstPage + index * 2);
+
+    write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+    object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+    object(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+    object(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    object(4, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+    this.images.forEach((image, index) => {
+      object(firstImage + index, [
+        latin1(
+          `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+          `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>\nstream\n`
+        ),
+        image.data,
+        latin1('\nendstream')
+      ]);
+    });
+
+    const xObjects = this.images.map((_, index) => `/Im${index + 1} ${firstImage + index} 0 R`).join(' ');
+    this.pages.forEach((ops, index) => {
+      const pageId = pageIds[index];
+      const content = ops.join('\n');
+      object(pageId,
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(this.width)} ${num(this.height)}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >>${xObjects ? ` /XObject << ${xObjects} >>` : ''} >> ` +
+        `/Contents ${pageId + 1} 0 R >>`
+      );
+      object(pageId + 1, `<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    });
+
+    const objectCount = firstPage + this.pages.length * 2;
+    const xrefOffset = length;
+    write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+    for (let id = 1; id < objectCount; id++) {
+      write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    }
+    write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    const output = new Uint8Array(length);
+    let position = 0;
+    chunks.forEach(chunk => {
+      output.set(chunk, position);
+      position += chunk.length;
+    });
+    return output;
+  }
+
+  toBlob(): Blob {
+    // toBytes allocates an exactly-sized buffer, so it can be handed over whole
+    return new Blob([this.toBytes().buffer as ArrayBuffer], { type: 'application/pdf' });
+  }
+
+  private draw(op: string): void {
+    this.pages[this.current].push(op);
+  }
+}
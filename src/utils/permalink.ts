@@ -0,0 +1,136 @@
+// Shareable links for a coverage check. Everything needed to reproduce the
+// view lives in the query string:
+//
+//   ?address=Sandton&lat=-26.107600&lng=28.056700&tech=4G,FIBRE&z=15&layers=FIBRE:80:9
+//
+// `layers` only lists overlays whose opacity or stacking differs from the
+// defaults, as technology:opacity%:zIndex.
+
+import { OverlayState, TechnologyType, ToggleState } from '../types';
+import { isTechnologyType } from './coverageNormalizer';
+import { DEFAULT_OVERLAYS } from './coverageOverlay';
+
+export interface PermalinkState {
+  address: string;
+  lat: number;
+  lng: number;
+  technologies: TechnologyType[];
+  zoom?: number;
+  overlays?: Partial<Record<TechnologyType, { opacity: number; zIndex: number }>>;
+}
+
+const MAX_MAP_ZOOM = 22;
+const MAX_ADDRESS_LENGTH = 200;
+
+/**
+ * Query string (with leading "?") for a permalink
+ */
+export function encodePermalink(state: PermalinkState): string {
+  const params = new URLSearchParams({
+    address: state.address,
+    lat: state.lat.toFixed(6),
+    lng: state.lng.toFixed(6)
+  });
+
+  if (state.technologies.length > 0) {
+    params.set('tech', state.technologies.join(','));
+  }
+  if (state.zoom !== undefined) {
+    params.set('z', String(state.zoom));
+  }
+
+  const layers = Object.entries(state.overlays || {})
+    .map(([technology, settings]) => `${technology}:${Math.round(settings!.opacity * 100)}:${settings!.zIndex}`);
+  if (layers.length > 0) {
+    params.set('layers', layers.join(','));
+  }
+
+  return `?${params.toString()}`;
+}
+
+/**
+ * Read a permalink from a query string. Returns null unless it names a valid
+ * location; unknown technologies and malformed layer settings are dropped.
+ * The address is untrusted text from the link and is capped in length.
+ */
+export function decodePermalink(search: string): PermalinkState | null {
+  const params = new URLSearchParams(search);
+  const latText = params.get('lat')?.trim();
+  const lngText = params.get('lng')?.trim();
+  const lat = Number(latText);
+  const lng = Number(lngText);
+
+  if (!latText || !lngText || !Number.isFinite(lat) || !Number.isFinite(lng) ||
+      Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    return null;
+  }
+
+  const state: PermalinkState = {
+    address: (params.get('address') || '').trim().slice(0, MAX_ADDRESS_LENGTH) || `${lat}, ${lng}`,
+    lat,
+    lng,
+    technologies: (params.get('tech') || '').split(',').filter(isTechnologyType)
+  };
+
+  const zoom = Number(params.get('z'));
+  if (params.has('z') && Number.isInteger(zoom) && zoom >= 0 && zoom <= MAX_MAP_ZOOM) {
+    state.zoom = zoom;
+  }
+
+  const overlays: NonNullable<PermalinkState['overlays']> = {};
+  (params.get('layers') || '').split(',').forEach(entry => {
+    const [technology, opacity, zIndex] = entry.split(':');
+    const percent = Number(opacity);
+    const order = Number(zIndex);
+    if (isTechnologyType(technology) && Number.isFinite(percent) && percent >= 0 && percent <= 100 && Number.isInteger(order)) {
+      overlays[technology] = { opacity: percent / 100, zIndex: order };
+    }
+  });
+  if (Object.keys(overlays).length > 0) {
+    state.overlays = overlays;
+  }
+
+  return state;
+}
+
+/**
+ * Overlay settings that differ from the defaults, for encodePermalink
+ */
+export function changedOverlays(overlays: OverlayState): PermalinkState['overlays'] {
+  const changed: NonNullable<PermalinkState['overlays']> = {};
+  (Object.keys(overlays) as TechnologyType[]).forEach(technology => {
+    const { opacity, zIndex } = overlays[technology];
+    const defaults = DEFAULT_OVERLAYS[technology];
+    if (Math.round(opacity * 100) !== Math.round(defaults.opacity * 100) || zIndex !== defaults.zIndex) {
+      changed[technology] = { opacity, zIndex };
+    }
+  });
+  return changed;
+}
+
+/**
+ * Full overlay settings from a permalink, on top of the defaults
+ */
+export function restoreOverlays(overrides: PermalinkState['overlays']): OverlayState {
+  const overlays = { ...DEFAULT_OVERLAYS };
+  Object.entries(overrides || {}).forEach(([technology, settings]) => {
+    overlays[technology as TechnologyType] = { ...overlays[technology as TechnologyType], ...settings };
+  });
+  return overlays;
+}
+
+/**
+ * Toggle state with exactly the given technologies switched on
+ */
+export function toToggleState(technologies: TechnologyType[]): ToggleState {
+  return {
+    '2G': technologies.includes('2G'),
+    '3G': technologies.includes('3G'),
+    '4G': technologies.includes('4G'),
+    '5G': technologies.includes('5G'),
+    'UNCAPPED_WIRELESS': technologies.includes('UNCAPPED_WIRELESS'),
+    'FIBRE': technologies.includes('FIBRE'),
+    'LICENSED_WIRELESS': technologies.includes('LICENSED_WIRELESS'),
+    'FIXED_LTE': technologies.includes('FIXED_LTE')
+  };
+}
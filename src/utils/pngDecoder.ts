@@ -0,0 +1,150 @@
+// Minimal PNG decoder to 8-bit RGBA: greyscale, RGB, palette and alpha
+// images at any bit depth, non-interlaced. Decoding the bytes ourselves
+// (instead of drawing to a canvas) keeps colours exactly as stored: no colour
+// management, gamma or premultiplied alpha shifting them.
+
+export interface DecodedImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // RGBA, row-major from the top
+}
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+/**
+ * Undo the per-row filters; returns the rows without their filter bytes
+ */
+function unfilter(data: Uint8Array, height: number, stride: number, bpp: number): Uint8Array {
+  const out = new Uint8Array(height * stride);
+
+  for (let y = 0; y < height; y++) {
+    const filter = data[y * (stride + 1)];
+    const source = y * (stride + 1) + 1;
+    const row = y * stride;
+    const previous = row - stride;
+
+    for (let x = 0; x < stride; x++) {
+      const left = x >= bpp ? out[row + x - bpp] : 0;
+      const up = y > 0 ? out[previous + x] : 0;
+      const upLeft = y > 0 && x >= bpp ? out[previous + x - bpp] : 0;
+      const value = data[source + x];
+
+      switch (filter) {
+        case 0: out[row + x] = value; break;
+        case 1: out[row + x] = value + left; break;
+        case 2: out[row + x] = value + up; break;
+        case 3: out[row + x] = value + ((left + up) >> 1); break;
+        case 4: out[row + x] = value + paeth(left, up, upLeft); break;
+        default: throw new Error(`Invalid PNG filter type ${filter}`);
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * Decode PNG bytes to RGBA
+ */
+export async function decodePng(bytes: ArrayBuffer | Uint8Array): Promise<DecodedImage> {
+  const data = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  if (!SIGNATURE.every((value, index) => data[index] === value)) {
+    throw new Error('Not a PNG image');
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let width = 0, height = 0, bitDepth = 8, colorType = 6;
+  let palette: Uint8Array | null = null;
+  let transparency: Uint8Array | null = null;
+  const idat: Uint8Array[] = [];
+
+  for (let offset = 8; offset + 8 <= data.length;) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...data.subarray(offset + 4, offset + 8));
+    const chunk = data.subarray(offset + 8, offset + 8 + length);
+
+    if (type === 'IHDR') {
+      width = view.getUint32(offset + 8);
+      height = view.getUint32(offset + 12);
+      [bitDepth, colorType] = [chunk[8], chunk[9]];
+      if (chunk[12] !== 0) throw new Error('Interlaced PNGs are not supported');
+    } else if (type === 'PLTE') {
+      palette = chunk;
+    } else if (type === 'tRNS') {
+      transparency = chunk;
+    } else if (type === 'IDAT') {
+      idat.push(chunk);
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset += 12 + length;
+  }
+
+  const channels = CHANNELS[colorType];
+  if (!channels || width === 0 || height === 0) {
+    throw new Error(`Unsupported PNG colour type ${colorType}`);
+  }
+
+  const compressed = new Uint8Array(idat.reduce((total, chunk) => total + chunk.length, 0));
+  idat.reduce((at, chunk) => { compressed.set(chunk, at); return at + chunk.length; }, 0);
+
+  const bitsPerPixel = channels * bitDepth;
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  const rows = unfilter(await inflate(compressed), height, stride, Math.max(1, bitsPerPixel >> 3));
+
+  // Sample `index` of a row at the image bit depth
+  const sample = (row: number, index: number): number => {
+    if (bitDepth === 8) return rows[row * stride + index];
+    if (bitDepth === 16) return (rows[row * stride + index * 2] << 8) | rows[row * stride + index * 2 + 1];
+    const bit = index * bitDepth;
+    return (rows[row * stride + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & ((1 << bitDepth) - 1);
+  };
+  const max = (1 << bitDepth) - 1;
+  const to8 = bitDepth === 8 ? (value: number) => value : (value: number) => Math.round((value * 255) / max);
+  // tRNS for greyscale and RGB images is one transparent colour, 16 bits per channel
+  const key = transparency && colorType !== 3
+    ? Array.from({ length: transparency.length >> 1 }, (_, index) => (transparency![index * 2] << 8) | transparency![index * 2 + 1])
+    : null;
+
+  const out = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const at = (y * width + x) * 4;
+      const first = x * channels;
+
+      if (colorType === 3) {
+        const index = sample(y, first);
+        out[at] = palette?.[index * 3] ?? 0;
+        out[at + 1] = palette?.[index * 3 + 1] ?? 0;
+        out[at + 2] = palette?.[index * 3 + 2] ?? 0;
+        out[at + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+      } else if (colorType === 0 || colorType === 4) {
+        const grey = sample(y, first);
+        out[at] = out[at + 1] = out[at + 2] = to8(grey);
+        out[at + 3] = colorType === 4 ? to8(sample(y, first + 1)) : key && key[0] === grey ? 0 : 255;
+      } else {
+        const [r, g, b] = [sample(y, first), sample(y, first + 1), sample(y, first + 2)];
+        out[at] = to8(r);
+        out[at + 1] = to8(g);
+        out[at + 2] = to8(b);
+        out[at + 3] = colorType === 6 ? to8(sample(y, first + 3))
+          : key && key[0] === r && key[1] === g && key[2] === b ? 0 : 255;
+      }
+    }
+  }
+
+  return { width, height, data: out };
+}
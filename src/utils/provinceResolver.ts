@@ -0,0 +1,119 @@
+import { provinceBoundaries } from '../data/provinces';
+
+interface ProvincePolygon {
+  name: string;
+  ring: number[][]; // [lng, lat] pairs, closed
+  bounds: {
+    north: number;
+    south: number;
+    east: number;
+    west: number;
+  };
+}
+
+/**
+ * Resolves South African provinces from coordinates using the bundled,
+ * simplified province polygons in src/data/provinces.ts
+ */
+export class ProvinceResolver {
+  private polygons: ProvincePolygon[];
+  // Simplified borders leave slivers along coasts and rivers; points this close
+  // to a province still resolve to it instead of 'Unknown'
+  private readonly SNAP_DISTANCE = 10; // km
+
+  constructor(collection: { features: Array<{ properties: { name: string }; geometry: { coordinates: number[][][] } }> } = provinceBoundaries) {
+    this.polygons = collection.features.map(feature => {
+      const ring = feature.geometry.coordinates[0];
+      const lngs = ring.map(point => point[0]);
+      const lats = ring.map(point => point[1]);
+
+      return {
+        name: feature.properties.name,
+        ring,
+        bounds: {
+          north: Math.max(...lats),
+          south: Math.min(...lats),
+          east: Math.max(...lngs),
+          west: Math.min(...lngs)
+        }
+      };
+    });
+  }
+
+  /**
+   * Get the province containing the point, or 'Unknown' outside South Africa
+   */
+  resolve(lat: number, lng: number): string {
+    for (const polygon of this.polygons) {
+      if (this.inBounds(polygon, lat, lng) && this.pointInRing(polygon.ring, lat, lng)) {
+        return polygon.name;
+      }
+    }
+
+    let nearest: { name: string; distance: number } | null = null;
+    for (const polygon of this.polygons) {
+      const distance = this.distanceToRing(polygon.ring, lat, lng);
+      if (distance <= this.SNAP_DISTANCE && (!nearest || distance < nearest.distance)) {
+        nearest = { name: polygon.name, distance };
+      }
+    }
+
+    return nearest ? nearest.name : 'Unknown';
+  }
+
+  getProvinceNames(): string[] {
+    return this.polygons.map(polygon => polygon.name);
+  }
+
+  private inBounds(polygon: ProvincePolygon, lat: number, lng: number): boolean {
+    const { north, south, east, west } = polygon.bounds;
+    return lat >= south && lat <= north && lng >= west && lng <= east;
+  }
+
+  /**
+   * Ray casting point-in-polygon test
+   */
+  private pointInRing(ring: number[][], lat: number, lng: number): boolean {
+    let inside = false;
+
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i];
+      const [xj, yj] = ring[j];
+
+      if ((yi > lat) !== (yj > lat) && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+        inside = !inside;
+      }
+    }
+
+    return inside;
+  }
+
+  /**
+   * Approximate distance in km from the point to the polygon edge
+   */
+  private distanceToRing(ring: number[][], lat: number, lng: number): number {
+    // Equirectangular projection is accurate enough at these distances
+    const kmPerDegLat = 111.32;
+    const kmPerDegLng = 111.32 * Math.cos(lat * Math.PI / 180);
+    let min = Infinity;
+
+    for (let i = 0; i < ring.length - 1; i++) {
+      const ax = (ring[i][0] - lng) * kmPerDegLng;
+      const ay = (ring[i][1] - lat) * kmPerDegLat;
+      const bx = (ring[i + 1][0] - lng) * kmPerDegLng;
+      const by = (ring[i + 1][1] - lat) * kmPerDegLat;
+
+      const dx = bx - ax;
+      const dy = by - ay;
+      const lengthSquared = dx * dx + dy * dy;
+      const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+
+      min = Math.min(min, Math.hypot(ax + t * dx, ay + t * dy));
+    }
+
+    return min;
+  }
+}
+
+// Export singleton instance
+export const provinceResolver = new ProvinceResolver();
@@ -0,0 +1,183 @@
+// Static k-d tree over points on the earth's surface. Points are stored as
+// unit vectors, where straight-line (chord) distance grows with great-circle
+// distance, so nearest and radius queries are exact without any projection
+// and work the same at every latitude.
+
+const EARTH_RADIUS_KM = 6371;
+// Slack on the chord bound so floating point never drops a point the
+// Haversine distance would keep
+const CHORD_EPSILON = 1e-9;
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface Neighbour<T> {
+  item: T;
+  distance: number; // km
+}
+
+/**
+ * Great-circle distance in km (Haversine)
+ */
+export function haversineDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRadians = (degrees: number) => degrees * (Math.PI / 180);
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) *
+    Math.sin(dLng / 2) * Math.sin(dLng / 2);
+
+  return EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+function toVector(lat: number, lng: number): [number, number, number] {
+  const phi = lat * (Math.PI / 180);
+  const lambda = lng * (Math.PI / 180);
+  return [Math.cos(phi) * Math.cos(lambda), Math.cos(phi) * Math.sin(lambda), Math.sin(phi)];
+}
+
+/**
+ * Squared chord length on the unit sphere for a great-circle distance
+ */
+function chordSquared(distanceKm: number): number {
+  const angle = Math.min(distanceKm / EARTH_RADIUS_KM, Math.PI);
+  const chord = 2 * Math.sin(angle / 2);
+  return chord * chord * (1 + CHORD_EPSILON) + CHORD_EPSILON;
+}
+
+/**
+ * Spatial index built once over a fixed list of points, with radius and
+ * k-nearest queries. Results are ordered by distance, ties by input order,
+ * the same as a sorted linear scan.
+ */
+export class SpatialIndex<T extends LatLng> {
+  private readonly items: T[];
+  private readonly coords: Float64Array; // x, y, z per item
+  private readonly order: Int32Array; // item indexes in tree order
+  private readonly axes: Uint8Array; // split axis of the node at each tree position
+
+  constructor(items: T[]) {
+    this.items = items;
+    this.coords = new Float64Array(items.length * 3);
+    items.forEach((item, index) => this.coords.set(toVector(item.lat, item.lng), index * 3));
+
+    this.order = Int32Array.from(items.keys());
+    this.axes = new Uint8Array(items.length);
+    this.build(0, items.length);
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  /**
+   * Every item within `radiusKm`, closest first
+   */
+  withinRadius(lat: number, lng: number, radiusKm: number): Neighbour<T>[] {
+    const query = toVector(lat, lng);
+    const limit = chordSquared(radiusKm);
+    const found: number[] = [];
+
+    const visit = (lo: number, hi: number) => {
+      if (lo >= hi) return;
+      const mid = (lo + hi) >> 1;
+      const index = this.order[mid];
+
+      if (this.chordTo(index, query) <= limit) found.push(index);
+
+      const diff = query[this.axes[mid]] - this.coords[index * 3 + this.axes[mid]];
+      const [near, far] = diff <= 0 ? [[lo, mid], [mid + 1, hi]] : [[mid + 1, hi], [lo, mid]];
+      visit(near[0], near[1]);
+      if (diff * diff <= limit) visit(far[0], far[1]);
+    };
+    visit(0, this.order.length);
+
+    return this.rank(found, lat, lng).filter(neighbour => neighbour.distance <= radiusKm);
+  }
+
+  /**
+   * The `count` closest items, optionally no further than `maxDistanceKm`
+   */
+  nearest(lat: number, lng: number, count: number, maxDistanceKm = Infinity): Neighbour<T>[] {
+    if (count <= 0) return [];
+
+    const query = toVector(lat, lng);
+    const limit = chordSquared(maxDistanceKm);
+    // Best candidates so far, sorted by chord then index
+    const best: Array<{ index: number; chord: number }> = [];
+    const bound = () => best.length < count ? limit : best[best.length - 1].chord;
+
+    const visit = (lo: number, hi: number) => {
+      if (lo >= hi) return;
+      const mid = (lo + hi) >> 1;
+      const index = this.order[mid];
+      const chord = this.chordTo(index, query);
+
+      if (chord <= bound()) {
+        let at = best.length;
+        while (at > 0 && (best[at - 1].chord > chord || (best[at - 1].chord === chord && best[at - 1].index > index))) at--;
+        best.splice(at, 0, { index, chord });
+        if (best.length > count) best.pop();
+      }
+
+      const diff = query[this.axes[mid]] - this.coords[index * 3 + this.axes[mid]];
+      const [near, far] = diff <= 0 ? [[lo, mid], [mid + 1, hi]] : [[mid + 1, hi], [lo, mid]];
+      visit(near[0], near[1]);
+      if (diff * diff <= bound()) visit(far[0], far[1]);
+    };
+    visit(0, this.order.length);
+
+    return this.rank(best.map(candidate => candidate.index), lat, lng)
+      .filter(neighbour => neighbour.distance <= maxDistanceKm);
+  }
+
+  /**
+   * Median split on the widest axis, recursively, so the tree stays balanced
+   */
+  private build(lo: number, hi: number): void {
+    if (hi - lo <= 1) return;
+
+    let axis = 0;
+    let widest = -1;
+    for (let a = 0; a < 3; a++) {
+      let min = Infinity;
+      let max = -Infinity;
+      for (let i = lo; i < hi; i++) {
+        const value = this.coords[this.order[i] * 3 + a];
+        if (value < min) min = value;
+        if (value > max) max = value;
+      }
+      if (max - min > widest) {
+        widest = max - min;
+        axis = a;
+      }
+    }
+
+    this.order.subarray(lo, hi).sort((a, b) => this.coords[a * 3 + axis] - this.coords[b * 3 + axis]);
+    const mid = (lo + hi) >> 1;
+    this.axes[mid] = axis;
+    this.build(lo, mid);
+    this.build(mid + 1, hi);
+  }
+
+  private chordTo(index: number, [x, y, z]: number[]): number {
+    const dx = this.coords[index * 3] - x;
+    const dy = this.coords[index * 3 + 1] - y;
+    const dz = this.coords[index * 3 + 2] - z;
+    return dx * dx + dy * dy + dz * dz;
+  }
+
+  /**
+   * Haversine distances for the candidates, closest first, ties in input order
+   */
+  private rank(indexes: number[], lat: number, lng: number): Neighbour<T>[] {
+    return indexes
+      .map(index => ({ index, distance: haversineDistance(lat, lng, this.items[index].lat, this.items[index].lng) }))
+      .sort((a, b) => a.distance - b.distance || a.index - b.index)
+      .map(({ index, distance }) => ({ item: this.items[index], distance }));
+  }
+}
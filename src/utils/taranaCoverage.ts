@@ -1,15 +1,63 @@
-import { kmlParser, TaranaTower, TaranaCoverageData } from './kmlParser';
+import { KMLParser, kmlParser, TaranaTower, TaranaCoverageData } from './kmlParser';
 import { CoverageResult } from '../types';
+import { normalizeCoverageResult } from './coverageNormalizer';
+import { provinceResolver } from './provinceResolver';
+import { SpatialIndex } from './spatialIndex';
+import { ElevationModel, elevationModel } from './elevationModel';
+import { LineOfSightOptions, LineOfSightResult, analyzeLineOfSight } from './lineOfSight';
+import { OverlayClass, OverlaySample, OverlaySampler } from './overlaySampler';
+
+export interface TowerAssessment {
+  tower: TaranaTower;
+  distance: number; // km
+  effectiveDistance: number; // km an omnidirectional node would need to be at for the same signal
+  offAxis?: number; // degrees between the antenna heading and the point; undefined without a heading
+  attenuation: number; // dB lost to the sector pattern
+  signalStrength: number;
+}
 
 export interface TaranaCoveragePoint {
   available: boolean;
   strength: 'high' | 'medium' | 'low';
-  nearestTowers: Array<{
-    tower: TaranaTower;
-    distance: number;
-    signalStrength: number;
-  }>;
+  nearestTowers: TowerAssessment[]; // serving towers, best first
   coverageRadius: number;
+  overlay?: OverlaySample; // the overlay image's own reading; undefined when it has no usable image
+}
+
+/**
+ * Horizontal pattern of a base node sector antenna. The KML icon heading
+ * is taken as the antenna azimuth (degrees clockwise from north).
+ */
+export interface SectorModel {
+  beamwidth: number; // degrees, half-power (3 dB) beamwidth
+  frontToBack: number; // dB, attenuation directly behind the antenna
+  pathLossExponent: number; // turns dB of attenuation into lost range
+}
+
+export const DEFAULT_SECTOR_MODEL: SectorModel = {
+  beamwidth: 90,
+  frontToBack: 25,
+  pathLossExponent: 3.5
+};
+
+/**
+ * Initial bearing from the first point to the second, 0-360 degrees clockwise from north
+ */
+export function bearing(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRadians = (degrees: number) => degrees * (Math.PI / 180);
+  const dLng = toRadians(lng2 - lng1);
+  const y = Math.sin(dLng) * Math.cos(toRadians(lat2));
+  const x = Math.cos(toRadians(lat1)) * Math.sin(toRadians(lat2)) -
+    Math.sin(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.cos(dLng);
+  return (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+}
+
+/**
+ * Attenuation in dB at `offAxis` degrees from boresight, using the parabolic
+ * pattern from 3GPP TR 36.814: 12 (θ/θ3dB)², capped at the front-to-back ratio
+ */
+export function sectorAttenuation(offAxis: number, model: SectorModel = DEFAULT_SECTOR_MODEL): number {
+  return Math.min(12 * (offAxis / model.beamwidth) ** 2, model.frontToBack);
 }
 
 /**
@@ -17,19 +65,58 @@ export interface TaranaCoveragePoint {
  */
 export class TaranaCoverageService {
   private coverageData: TaranaCoverageData | null = null;
+  private towerIndex: SpatialIndex<TaranaTower> | null = null;
   private readonly MAX_COVERAGE_RADIUS = 15; // km - typical fixed wireless range
   private readonly HIGH_STRENGTH_RADIUS = 5; // km
   private readonly MEDIUM_STRENGTH_RADIUS = 10; // km
 
+  private sectorModel: SectorModel;
+
+  constructor(
+    private parser: KMLParser = kmlParser,
+    sectorModel: Partial<SectorModel> = {},
+    private overlaySampler: OverlaySampler = new OverlaySampler()
+  ) {
+    this.sectorModel = { ...DEFAULT_SECTOR_MODEL, ...sectorModel };
+  }
+
+  /**
+   * Change the antenna pattern used for later checks
+   */
+  setSectorModel(sectorModel: Partial<SectorModel>): void {
+    this.sectorModel = { ...this.sectorModel, ...sectorModel };
+  }
+
+  /**
+   * Change the colours used to read coverage classes off the overlay image
+   */
+  setOverlayPalette(palette: OverlayClass[], tolerance?: number): void {
+    this.overlaySampler.setPalette(palette, tolerance);
+  }
+
   /**
    * Initialize coverage data
    */
   async initialize(): Promise<void> {
     if (!this.coverageData) {
-      this.coverageData = await kmlParser.loadTaranaCoverage();
+      this.setDataset(await this.parser.loadTaranaCoverage());
     }
   }
 
+  /**
+   * Replace the dataset with an uploaded KMZ (or KML) export
+   */
+  async loadDataset(file: Blob, fileName?: string): Promise<TaranaCoverageData> {
+    return this.setDataset(await this.parser.loadFile(file, fileName));
+  }
+
+  /**
+   * The loaded dataset, if any
+   */
+  getDataset(): TaranaCoverageData | null {
+    return this.coverageData;
+  }
+
   /**
    * Check coverage at specific coordinates
    */
@@ -40,87 +127,126 @@ export class TaranaCoverageService {
       throw new Error('Failed to load Tarana coverage data');
     }
 
-    // Find nearby towers within coverage radius
-    const nearbyTowers = this.findNearbyTowers(lat, lng);
+    // Towers whose sector reaches the point, best signal first
+    const servingTowers = this.findServingTowers(lat, lng);
+    const overlay = await this.sampleOverlay(lat, lng);
 
-    if (nearbyTowers.length === 0) {
+    if (servingTowers.length === 0) {
       return {
         available: false,
         strength: 'low',
         nearestTowers: [],
-        coverageRadius: 0
+        coverageRadius: 0,
+        overlay
       };
     }
 
-    // Calculate coverage strength based on nearest tower
-    const nearestTower = nearbyTowers[0];
-    const strength = this.calculateSignalStrength(nearestTower.distance);
+    // Calculate coverage strength based on the best serving tower
+    const strength = this.calculateSignalStrength(servingTowers[0].effectiveDistance);
 
     return {
       available: true,
       strength,
-      nearestTowers: nearbyTowers.slice(0, 5), // Top 5 towers
-      coverageRadius: this.MAX_COVERAGE_RADIUS
+      nearestTowers: servingTowers.slice(0, 5), // Top 5 towers
+      coverageRadius: this.MAX_COVERAGE_RADIUS,
+      overlay
     };
   }
 
   /**
-   * Find towers within coverage radius, sorted by distance
+   * Read the point off the dataset's coverage overlay. This is the vendor's
+   * own propagation map, so it is reported next to the distance estimate
+   * rather than replacing it; a missing or unreadable image just leaves it out.
    */
-  private findNearbyTowers(lat: number, lng: number): Array<{
-    tower: TaranaTower;
-    distance: number;
-    signalStrength: number;
-  }> {
-    if (!this.coverageData) return [];
-
-    const nearbyTowers: Array<{
-      tower: TaranaTower;
-      distance: number;
-      signalStrength: number;
-    }> = [];
-
-    for (const tower of this.coverageData.towers) {
-      const distance = this.calculateDistance(lat, lng, tower.lat, tower.lng);
-
-      if (distance <= this.MAX_COVERAGE_RADIUS) {
-        const signalStrength = this.calculateSignalScore(distance);
-        nearbyTowers.push({
-          tower,
-          distance,
-          signalStrength
-        });
-      }
+  private async sampleOverlay(lat: number, lng: number): Promise<OverlaySample | undefined> {
+    const overlay = this.coverageData?.coverageOverlay;
+    if (!overlay?.imageUrl || overlay.bounds.north <= overlay.bounds.south || overlay.bounds.east <= overlay.bounds.west) {
+      return undefined;
     }
 
-    // Sort by distance (closest first)
-    return nearbyTowers.sort((a, b) => a.distance - b.distance);
+    try {
+      return await this.overlaySampler.sample(overlay, lat, lng);
+    } catch (error) {
+      console.warn('Could not read the Tarana coverage overlay:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * The `count` closest towers at any distance, e.g. to say how far off coverage is
+   */
+  async findNearestTowers(lat: number, lng: number, count = 5): Promise<TowerAssessment[]> {
+    await this.initialize();
+    return (this.towerIndex?.nearest(lat, lng, count) ?? [])
+      .map(({ item, distance }) => this.assessTower(item, distance, lat, lng));
+  }
+
+  /**
+   * Terrain line-of-sight from a customer to the towers that serve it (or,
+   * when none do, the closest ones), one profile and verdict per tower
+   */
+  async checkLineOfSight(
+    lat: number,
+    lng: number,
+    options: Partial<LineOfSightOptions> & { count?: number; elevation?: ElevationModel } = {}
+  ): Promise<LineOfSightResult[]> {
+    const { count = 3, elevation = elevationModel, ...settings } = options;
+    await this.initialize();
+
+    const serving = this.findServingTowers(lat, lng);
+    const candidates = serving.length > 0 ? serving.slice(0, count) : await this.findNearestTowers(lat, lng, count);
+
+    return Promise.all(candidates.map(({ tower }) => analyzeLineOfSight(elevation, { lat, lng }, tower, settings)));
   }
 
   /**
-   * Calculate distance between two points using Haversine formula
+   * Towers within coverage radius whose sector still reaches the point once
+   * the antenna pattern is applied, strongest first
    */
-  private calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
-    const R = 6371; // Earth's radius in kilometers
-    const dLat = this.toRadians(lat2 - lat1);
-    const dLng = this.toRadians(lng2 - lng1);
+  private findServingTowers(lat: number, lng: number): TowerAssessment[] {
+    if (!this.towerIndex) return [];
+
+    return this.towerIndex.withinRadius(lat, lng, this.MAX_COVERAGE_RADIUS)
+      .map(({ item, distance }) => this.assessTower(item, distance, lat, lng))
+      .filter(assessment => assessment.effectiveDistance <= this.MAX_COVERAGE_RADIUS)
+      .sort((a, b) => a.effectiveDistance - b.effectiveDistance || a.distance - b.distance);
+  }
 
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(this.toRadians(lat1)) * Math.cos(this.toRadians(lat2)) *
-      Math.sin(dLng / 2) * Math.sin(dLng / 2);
+  /**
+   * Score a tower for a point. Sector attenuation is turned into extra
+   * distance, so a point 3 km behind an antenna scores like one much further
+   * out in front of it. Towers without a heading are treated as omnidirectional.
+   */
+  private assessTower(tower: TaranaTower, distance: number, lat: number, lng: number): TowerAssessment {
+    let offAxis: number | undefined;
+    let attenuation = 0;
+
+    if (tower.heading !== undefined && !isNaN(tower.heading) && distance > 0) {
+      const difference = Math.abs(bearing(tower.lat, tower.lng, lat, lng) - tower.heading) % 360;
+      offAxis = difference > 180 ? 360 - difference : difference;
+      attenuation = sectorAttenuation(offAxis, this.sectorModel);
+    }
 
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    const distance = R * c;
+    const effectiveDistance = distance * 10 ** (attenuation / (10 * this.sectorModel.pathLossExponent));
 
-    return distance;
+    return {
+      tower,
+      distance,
+      effectiveDistance,
+      offAxis,
+      attenuation,
+      signalStrength: this.calculateSignalScore(effectiveDistance)
+    };
   }
 
   /**
-   * Convert degrees to radians
+   * Use a dataset and index its towers for lookups
    */
-  private toRadians(degrees: number): number {
-    return degrees * (Math.PI / 180);
+  private setDataset(data: TaranaCoverageData): TaranaCoverageData {
+    this.coverageData = data;
+    this.overlaySampler.clear();
+    this.towerIndex = new SpatialIndex(data.towers);
+    return data;
   }
 
   /**
@@ -199,9 +325,10 @@ export class TaranaCoverageService {
     address: string,
     coveragePoint: TaranaCoveragePoint
   ): CoverageResult {
-    const province = this.getProvinceFromCoordinates(lat, lng);
+    const province = provinceResolver.resolve(lat, lng);
+    const serving = coveragePoint.nearestTowers[0];
 
-    return {
+    return normalizeCoverageResult({
       success: coveragePoint.available,
       coordinates: { lat, lng },
       address,
@@ -209,41 +336,41 @@ export class TaranaCoverageService {
       timestamp: new Date().toISOString(),
       coverage: {
         taranaStatic: {
+          kind: 'taranaStatic',
           available: coveragePoint.available,
           types: [{
             type: 'UNCAPPED_WIRELESS',
             available: coveragePoint.available,
             strength: coveragePoint.strength,
+            quality: serving?.signalStrength,
             details: {
               nearestTowers: coveragePoint.nearestTowers.length,
               coverageRadius: `${coveragePoint.coverageRadius}km`,
-              signalStrength: coveragePoint.nearestTowers[0]?.signalStrength || 0
+              signalStrength: coveragePoint.nearestTowers[0]?.signalStrength || 0,
+              ...(serving ? { servingTower: serving.tower.name, servingDistance: `${serving.distance.toFixed(1)}km` } : {}),
+              ...(serving?.offAxis !== undefined ? { offAxis: Math.round(serving.offAxis) } : {}),
+              ...(coveragePoint.overlay ? { overlayCoverage: this.describeOverlay(coveragePoint.overlay) } : {})
             }
           }],
           source: 'Tarana Fixed Wireless (Static KMZ Data)',
           metadata: {
-            dataDate: this.coverageData?.metadata.date || '2025-07-16',
+            dataDate: this.coverageData?.metadata.date ?? 'unknown',
             totalTowers: this.coverageData?.towers.length || 0
           }
         }
-      }
-    };
+      },
+      errors: []
+    });
   }
 
   /**
-   * Determine province from coordinates (simplified)
+   * Coverage class read off the overlay, for the result details. A colour
+   * the palette does not know says nothing about coverage either way.
    */
-  private getProvinceFromCoordinates(lat: number, lng: number): string {
-    // Simplified province detection based on coordinate ranges
-    if (lat > -26 && lng > 27.5) return 'Gauteng';
-    if (lat < -32 && lng < 20) return 'Western Cape';
-    if (lat < -28 && lng > 29) return 'KwaZulu-Natal';
-    if (lat > -26 && lng < 26) return 'North West';
-    if (lat > -25) return 'Limpopo';
-    if (lat > -30 && lng < 25) return 'Northern Cape';
-    if (lat > -27 && lng > 25 && lng < 30) return 'Free State';
-    if (lat > -27 && lng > 30) return 'Mpumalanga';
-    return 'Eastern Cape';
+  private describeOverlay(sample: OverlaySample): string {
+    if (!sample.inBounds) return 'Outside overlay';
+    if (sample.coverageClass) return sample.coverageClass.name;
+    return sample.transparent ? 'No coverage' : 'Unknown';
   }
 
   /**
@@ -251,7 +378,9 @@ export class TaranaCoverageService {
    */
   clearCache(): void {
     this.coverageData = null;
-    kmlParser.clearCache();
+    this.towerIndex = null;
+    this.overlaySampler.clear();
+    this.parser.clearCache();
   }
 }
 
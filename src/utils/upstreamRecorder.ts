@@ -0,0 +1,142 @@
+// Record and replay for the browser ApiClient. Fixtures are kept in
+// localStorage so a recorded session survives reloads; export them as a JSON
+// bundle to attach to a bug report, and import a bundle to replay the check.
+import {
+  MemoryFixtureStore,
+  RECORDING_MODES,
+  RecordingMode,
+  UpstreamFixture,
+  createRecordingFetch
+} from '../shared/recording';
+
+const FIXTURES_KEY = 'mtn-upstream-fixtures';
+const MODE_KEY = 'mtn-upstream-mode';
+
+type RecorderStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+export interface FixtureBundle {
+  version: 1;
+  exportedAt: string;
+  fixtures: UpstreamFixture[];
+}
+
+export interface UpstreamRecorderOptions {
+  storage?: RecorderStorage;
+  fetchImpl?: typeof fetch;
+  mode?: RecordingMode;
+}
+
+function loadFixtures(storage?: RecorderStorage): UpstreamFixture[] {
+  try {
+    const saved = storage?.getItem(FIXTURES_KEY);
+    const parsed = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Memory store that writes through to storage
+ */
+export class BrowserFixtureStore extends MemoryFixtureStore {
+  constructor(private storage?: RecorderStorage) {
+    super(loadFixtures(storage));
+  }
+
+  put(fixture: UpstreamFixture): void {
+    super.put(fixture);
+    this.save();
+  }
+
+  putAll(fixtures: UpstreamFixture[]): void {
+    fixtures.forEach(fixture => super.put(fixture));
+    this.save();
+  }
+
+  clear(): void {
+    super.clear();
+    this.save();
+  }
+
+  private save(): void {
+    try {
+      this.storage?.setItem(FIXTURES_KEY, JSON.stringify(this.list()));
+    } catch (error) {
+      // Usually the storage quota; the fixtures stay available until reload
+      console.warn('Could not persist recorded responses:', error);
+    }
+  }
+}
+
+/**
+ * fetch() for ApiClient that follows the selected recording mode
+ */
+export class UpstreamRecorder {
+  readonly store: BrowserFixtureStore;
+  private storage?: RecorderStorage;
+  private fetchImpl: typeof fetch;
+  private currentMode: RecordingMode;
+  private recordingFetch: (url: string, init?: RequestInit) => Promise<Response>;
+
+  constructor(options: UpstreamRecorderOptions = {}) {
+    this.storage = options.storage ?? (typeof localStorage !== 'undefined' ? localStorage : undefined);
+    this.fetchImpl = options.fetchImpl ?? ((...args) => fetch(...args));
+    this.store = new BrowserFixtureStore(this.storage);
+
+    // A mode picked at runtime wins over the build-time default
+    const saved = this.storage?.getItem(MODE_KEY) as RecordingMode | null;
+    const configured = import.meta.env?.VITE_UPSTREAM_MODE as RecordingMode | undefined;
+    this.currentMode = options.mode
+      ?? [saved, configured].find((mode): mode is RecordingMode => RECORDING_MODES.includes(mode as RecordingMode))
+      ?? 'live';
+    this.recordingFetch = this.build();
+  }
+
+  get mode(): RecordingMode {
+    return this.currentMode;
+  }
+
+  get fixtureCount(): number {
+    return this.store.list().length;
+  }
+
+  setMode(mode: RecordingMode): void {
+    this.currentMode = mode;
+    this.storage?.setItem(MODE_KEY, mode);
+    this.recordingFetch = this.build();
+  }
+
+  fetch(url: string, init?: RequestInit): Promise<Response> {
+    return this.recordingFetch(url, init);
+  }
+
+  exportFixtures(now = new Date()): Blob {
+    const bundle: FixtureBundle = { version: 1, exportedAt: now.toISOString(), fixtures: this.store.list() };
+    return new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+  }
+
+  /**
+   * Add the fixtures from an exported bundle; returns how many were imported
+   */
+  importFixtures(bundle: string | FixtureBundle): number {
+    const parsed = typeof bundle === 'string' ? JSON.parse(bundle) : bundle;
+    if (!parsed || !Array.isArray(parsed.fixtures)) {
+      throw new Error('Not a recorded responses file');
+    }
+
+    const fixtures = (parsed.fixtures as UpstreamFixture[]).filter(fixture => fixture && fixture.id && fixture.response);
+    this.store.putAll(fixtures);
+    return fixtures.length;
+  }
+
+  clearFixtures(): void {
+    this.store.clear();
+  }
+
+  private build() {
+    return createRecordingFetch({ mode: this.currentMode, store: this.store, fetchImpl: this.fetchImpl });
+  }
+}
+
+export const upstreamRecorder = new UpstreamRecorder();
@@ -4,6 +4,13 @@ interface ImportMetaEnv {
   readonly VITE_GOOGLE_MAPS_API_KEY: string
   readonly VITE_SUPABASE_URL: string
   readonly VITE_SUPABASE_ANON_KEY: string
+  readonly VITE_DFA_BASE_URL?: string
+  readonly VITE_MTN_GIS_BASE_URL?: string
+  readonly VITE_MTN_API_BASE_URL?: string
+  readonly VITE_MTN_WEB_BASE_URL?: string
+  readonly VITE_UPSTREAM_MODE?: string
+  readonly VITE_TARANA_KMZ_URL?: string
+  readonly VITE_DEM_BASE_URL?: string
 }
 
 interface ImportMeta {
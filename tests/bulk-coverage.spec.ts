@@ -0,0 +1,155 @@
+import { test, expect } from '@playwright/test';
+import JSZip from 'jszip';
+import { BulkCoverageRunner, createBulkJob, exportBulkCSV, exportBulkXLSX, getBulkProgress, parseCSV } from '../src/utils/bulkCoverage';
+import { ProxyCoverageResponse, TECHNOLOGY_TYPES } from '../src/types';
+
+class MemoryStorage {
+  private items = new Map<string, string>();
+  getItem(key: string) { return this.items.get(key) ?? null; }
+  setItem(key: string, value: string) { this.items.set(key, value); }
+  removeItem(key: string) { this.items.delete(key); }
+}
+
+// 4G covered, 5G timing out, everything else not covered; "Nowhere" does not geocode
+function stubClient(unknownAddresses: string[] = ['Nowhere']) {
+  const checked: string[] = [];
+  return {
+    checked,
+    async geocodeAddress(address: string) {
+      if (unknownAddresses.includes(address)) return { results: [] };
+      return { results: [{ formatted_address: `${address}, South Africa`, geometry: { location: { lat: -26.1, lng: 28.05 } } }] };
+    },
+    async checkMultipleTechnologies(lat: number, lng: number, technologies: string[]) {
+      checked.push(`${lat},${lng}`);
+      return Object.fromEntries(technologies.map((tech): [string, ProxyCoverageResponse | { error: string }] => [
+        tech,
+        tech === '5G'
+          ? { error: 'Upstream timeout' }
+          : { type: 'features', features: tech === '4G' ? [{ layer: '4G', id: '1', attributes: {} }] : [] }
+      ]));
+    },
+    parseCoverageResult(result: ProxyCoverageResponse | undefined) {
+      return result?.type === 'features' && result.features.length > 0;
+    }
+  };
+}
+
+const CSV = [
+  '\uFEFFName,Address,Latitude,Longitude',
+  '"Head office","12 Main Rd, Sandton",,',
+  'Depot,,-26.2,28.1',
+  '"Shop ""A""","Unit 4\r\nRosebank",,',
+  'Lost,Nowhere,,'
+].join('\r\n') + '\r\n';
+
+test.describe('Bulk coverage CSV', () => {
+  test('parses quoted fields, embedded commas and quotes, CRLF and a BOM', () => {
+    expect(parseCSV(CSV)).toEqual([
+      ['Name', 'Address', 'Latitude', 'Longitude'],
+      ['Head office', '12 Main Rd, Sandton', '', ''],
+      ['Depot', '', '-26.2', '28.1'],
+      ['Shop "A"', 'Unit 4\r\nRosebank', '', ''],
+      ['Lost', 'Nowhere', '', '']
+    ]);
+    expect(parseCSV('a,b\n1,2')).toEqual([['a', 'b'], ['1', '2']]);
+    expect(parseCSV('a\r\n\r\n,\r\nb')).toEqual([['a'], ['b']]);
+  });
+
+  test('detects address and coordinate columns and enforces the row limit', () => {
+    const job = createBulkJob(CSV, 'sites.csv');
+    expect(job.fileName).toBe('sites.csv');
+    expect(job.rows.map(row => row.input)).toEqual([
+      { address: '12 Main Rd, Sandton', lat: undefined, lng: undefined },
+      { address: undefined, lat: -26.2, lng: 28.1 },
+      { address: 'Unit 4\r\nRosebank', lat: undefined, lng: undefined },
+      { address: 'Nowhere', lat: undefined, lng: undefined }
+    ]);
+    expect(job.rows.every(row => row.status === 'pending')).toBe(true);
+
+    expect(createBulkJob('LAT,Lon\n-26,28', 'coords.csv').rows[0].input).toEqual({ address: undefined, lat: -26, lng: 28 });
+    expect(() => createBulkJob('', 'empty.csv')).toThrow('CSV file is empty');
+    expect(() => createBulkJob('name,lat\nx,-26', 'partial.csv')).toThrow('CSV needs an "address" column or "lat" and "lng" columns');
+
+    const rows = (count: number) => ['lat,lng', ...Array.from({ length: count }, () => '-26,28')].join('\n');
+    expect(createBulkJob(rows(5000), 'max.csv').rows).toHaveLength(5000);
+    expect(() => createBulkJob(rows(5001), 'big.csv')).toThrow('CSV has 5001 rows, the limit is 5000');
+  });
+});
+
+test.describe('Bulk coverage runner', () => {
+  test('runs rows, saves progress and resumes a job after an abort', async () => {
+    const storage = new MemoryStorage();
+    const client = stubClient();
+    const runner = new BulkCoverageRunner({ client, storage });
+    const job = createBulkJob(CSV, 'sites.csv');
+
+    const controller = new AbortController();
+    await runner.run(job, {
+      concurrency: 1,
+      technologies: ['4G', '5G'],
+      signal: controller.signal,
+      onProgress: (_, progress) => { if (progress.done === 2) controller.abort(); }
+    });
+    expect(getBulkProgress(job)).toEqual({ total: 4, done: 2, failed: 0, pending: 2 });
+    expect(job.rows[0]).toMatchObject({
+      status: 'done',
+      address: '12 Main Rd, Sandton, South Africa',
+      coverage: { '4G': true, '5G': 'error' },
+      error: '5G: Upstream timeout'
+    });
+    expect(job.rows[1]).toMatchObject({ status: 'done', address: '-26.2, 28.1', lat: -26.2, lng: 28.1 });
+
+    // A fresh runner picks the saved job up where it stopped
+    const resumed = new BulkCoverageRunner({ client, storage });
+    const saved = resumed.loadJob()!;
+    expect(getBulkProgress(saved)).toEqual(getBulkProgress(job));
+    await resumed.run(saved, { technologies: ['4G', '5G'] });
+    expect(client.checked).toHaveLength(3);
+    expect(getBulkProgress(saved)).toEqual({ total: 4, done: 3, failed: 1, pending: 0 });
+    expect(saved.rows[3]).toMatchObject({ status: 'error', error: 'Address not found: Nowhere' });
+
+    resumed.clearJob();
+    expect(resumed.loadJob()).toBeNull();
+  });
+
+  test('resetFailed requeues failed rows only', async () => {
+    const storage = new MemoryStorage();
+    const runner = new BulkCoverageRunner({ client: stubClient(), storage });
+    const job = await runner.run(createBulkJob(CSV, 'sites.csv'), { technologies: ['4G'] });
+    expect(getBulkProgress(job).failed).toBe(1);
+
+    runner.resetFailed(job);
+    expect(job.rows[3]).toMatchObject({ status: 'pending', error: undefined });
+    expect(getBulkProgress(runner.loadJob()!)).toEqual({ total: 4, done: 3, failed: 0, pending: 1 });
+
+    // The address geocodes now, so only that row is checked again
+    const retryClient = stubClient([]);
+    await new BulkCoverageRunner({ client: retryClient, storage }).run(job, { technologies: ['4G'] });
+    expect(retryClient.checked).toHaveLength(1);
+    expect(job.rows[3]).toMatchObject({ status: 'done', coverage: { '4G': true } });
+  });
+
+  test('exports one row per input with a column per technology', async () => {
+    const runner = new BulkCoverageRunner({ client: stubClient(), storage: new MemoryStorage() });
+    const job = await runner.run(createBulkJob(CSV, 'sites.csv'), { technologies: ['4G', '5G'] });
+
+    const [header, ...rows] = parseCSV(await exportBulkCSV(job).text());
+    expect(header).toEqual(['row', 'input_address', 'input_lat', 'input_lng', 'address', 'lat', 'lng', 'status', 'error', ...TECHNOLOGY_TYPES]);
+    expect(rows).toHaveLength(4);
+    const technologyCells = (row: string[]) => Object.fromEntries(TECHNOLOGY_TYPES.map((tech, index) => [tech, row[9 + index]]));
+
+    expect(rows[0].slice(0, 9)).toEqual(['1', '12 Main Rd, Sandton', '', '', '12 Main Rd, Sandton, South Africa', '-26.1', '28.05', 'done', '5G: Upstream timeout']);
+    expect(technologyCells(rows[0])).toMatchObject({ '4G': 'Yes', '5G': 'ERROR', FIBRE: '' });
+    expect(rows[1].slice(0, 4)).toEqual(['2', '', '-26.2', '28.1']);
+    expect(rows[2][1]).toBe('Unit 4\r\nRosebank');
+    expect(rows[3].slice(7, 9)).toEqual(['error', 'Address not found: Nowhere']);
+    expect(Object.values(technologyCells(rows[3])).every(cell => cell === '')).toBe(true);
+
+    const workbook = await JSZip.loadAsync(await (await exportBulkXLSX(job)).arrayBuffer());
+    const sheet = await workbook.file('xl/worksheets/sheet1.xml')!.async('string');
+    expect(sheet.match(/<row /g)).toHaveLength(5);
+    expect(sheet).toContain('<c r="A1" t="inlineStr"><is><t>row</t></is></c>');
+    expect(sheet).toContain('<c r="L2" t="inlineStr"><is><t>Yes</t></is></c>');
+    expect(sheet).toContain('<c r="M2" t="inlineStr"><is><t>ERROR</t></is></c>');
+  });
+});
@@ -0,0 +1,91 @@
+import { test, expect } from '@playwright/test';
+import handler from '../api/coverage-batch.js';
+import { asRecord, callRoute, jsonBody } from './support/fakeResponse';
+
+const call = (query: Record<string, string>) => callRoute(handler, query);
+
+test.describe('Batched coverage route', () => {
+  const realFetch = globalThis.fetch;
+  let requested: string[];
+  let boxes: string[];
+
+  test.beforeEach(() => {
+    requested = [];
+    boxes = [];
+    globalThis.fetch = (async (url: string) => {
+      const layer = new URL(url).searchParams.get('LAYERS')!;
+      requested.push(layer);
+      boxes.push(new URL(url).searchParams.get('BBOX')!);
+
+      if (layer === 'PMPCoverage') {
+        return new Response('upstream exploded', { status: 500, statusText: 'Internal Server Error' });
+      }
+      if (layer === 'FTTBCoverage') {
+        return new Response('no features were found\n', { headers: { 'content-type': 'text/plain' } });
+      }
+      return new Response([
+        `Results for FeatureType 'mtnsi:${layer}':`,
+        '--------------------------------------------',
+        'signal = Good',
+        '--------------------------------------------'
+      ].join('\n'), { headers: { 'content-type': 'text/plain' } });
+    }) as typeof fetch;
+  });
+
+  test.afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  test('returns one result per technology with per-item errors', async () => {
+    const res = await call({
+      lat: '-26.1001',
+      lng: '28.0501',
+      technologies: 'UNCAPPED_WIRELESS,FIBRE,LICENSED_WIRELESS,FIBRE'
+    });
+
+    expect(res.statusCode).toBe(200);
+    const results = asRecord(jsonBody(res).results);
+    expect(Object.keys(results)).toEqual(['UNCAPPED_WIRELESS', 'FIBRE', 'LICENSED_WIRELESS']);
+    expect(results.UNCAPPED_WIRELESS).toMatchObject({
+      status: 'ok',
+      cache: 'MISS',
+      data: { type: 'features', features: [{ layer: 'mtnsi:UncappedWirelessEBU', attributes: { signal: 'Good' } }] }
+    });
+    expect(results.FIBRE).toMatchObject({ status: 'ok', data: { type: 'features', features: [] } });
+    expect(results.LICENSED_WIRELESS).toMatchObject({ status: 'error', error: 'MTN API error: 500 Internal Server Error' });
+  });
+
+  test('serves repeat checks from the server cache', async () => {
+    const query = { lat: '-26.2001', lng: '28.1501', technologies: '4G,FIBRE' };
+    await call(query);
+    const before = requested.length;
+
+    const res = await call(query);
+
+    expect(requested.length).toBe(before);
+    expect(res.headers['X-Cache-Hits']).toBe('2/2');
+    expect(res.body).toMatchObject({ results: { '4G': { cache: 'HIT' } } });
+  });
+
+  test('queries upstream at the exact point and only snaps the cache key', async () => {
+    const box = (lat: number, lng: number) => [lng - 0.01, lat - 0.01, lng + 0.01, lat + 0.01].join(',');
+
+    await call({ lat: '-26.30012', lng: '28.25037', technologies: 'FIBRE' });
+    expect(boxes).toEqual([box(-26.30012, 28.25037)]);
+
+    // A click a few metres away shares the entry
+    const nearby = await call({ lat: '-26.30031', lng: '28.25018', technologies: 'FIBRE' });
+    expect(asRecord(jsonBody(nearby).results).FIBRE).toMatchObject({ cache: 'HIT' });
+    expect(boxes).toHaveLength(1);
+
+    // A refresh asks about the point itself
+    const refreshed = await call({ lat: '-26.30031', lng: '28.25018', technologies: 'FIBRE', refresh: '1' });
+    expect(asRecord(jsonBody(refreshed).results).FIBRE).toMatchObject({ cache: 'BYPASS' });
+    expect(boxes).toEqual([box(-26.30012, 28.25037), box(-26.30031, 28.25018)]);
+  });
+
+  test('rejects unknown technologies and bad coordinates', async () => {
+    expect((await call({ lat: '-26.2', lng: '28.0', technologies: '4G,6G' })).statusCode).toBe(400);
+    expect((await call({ lat: 'north', lng: '28.0' })).statusCode).toBe(400);
+  });
+});
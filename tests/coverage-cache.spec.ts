@@ -0,0 +1,65 @@
+import { test, expect } from '@playwright/test';
+import { CoverageCache } from '../src/utils/coverageCache';
+
+const HOUR = 60 * 60 * 1000;
+
+test.describe('Coverage cache', () => {
+  let now: number;
+  const clock = () => now;
+
+  test.beforeEach(() => {
+    now = Date.UTC(2025, 0, 1);
+  });
+
+  test('expires entries on the per-technology TTL', async () => {
+    const cache = new CoverageCache({ now: clock, ttls: { '5G': HOUR, 'FIBRE': 24 * HOUR } });
+    await cache.set(cache.key('test', -26.2041, 28.0473, '5G'), '5G', 'five');
+    await cache.set(cache.key('test', -26.2041, 28.0473, 'FIBRE'), 'FIBRE', 'fibre');
+
+    now += 2 * HOUR;
+
+    expect(await cache.get(cache.key('test', -26.2041, 28.0473, '5G'))).toBeNull();
+    expect((await cache.get(cache.key('test', -26.2041, 28.0473, 'FIBRE')))?.value).toBe('fibre');
+  });
+
+  test('evicts the least recently used entry once full', async () => {
+    const cache = new CoverageCache({ now: clock, maxEntries: 2 });
+
+    await cache.set('a', '4G', 1);
+    now += 1000;
+    await cache.set('b', '4G', 2);
+    now += 1000;
+    await cache.get('a'); // touch a so b becomes the oldest
+    now += 1000;
+    await cache.set('c', '4G', 3);
+
+    expect(await cache.size()).toBe(2);
+    expect(await cache.get('b')).toBeNull();
+    expect((await cache.get('a'))?.value).toBe(1);
+  });
+
+  test('serves cached values until forced to refresh', async () => {
+    const cache = new CoverageCache({ now: clock });
+    let calls = 0;
+    const fetcher = async () => ++calls;
+
+    const first = await cache.getOrFetch('key', '4G', fetcher);
+    now += 1000;
+    const second = await cache.getOrFetch('key', '4G', fetcher);
+    const forced = await cache.getOrFetch('key', '4G', fetcher, { forceRefresh: true });
+
+    expect(first).toMatchObject({ value: 1, fromCache: false });
+    expect(second).toMatchObject({ value: 1, fromCache: true, checkedAt: first.checkedAt });
+    expect(forced).toMatchObject({ value: 2, fromCache: false });
+  });
+
+  test('does not cache failed lookups', async () => {
+    const cache = new CoverageCache({ now: clock });
+
+    await expect(cache.getOrFetch('key', '3G', async () => {
+      throw new Error('upstream down');
+    })).rejects.toThrow('upstream down');
+
+    expect(await cache.get('key')).toBeNull();
+  });
+});
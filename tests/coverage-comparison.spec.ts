@@ -0,0 +1,61 @@
+import { test, expect } from '@playwright/test';
+import { buildComparison, comparisonLabel, describeCell, exportComparisonCSV } from '../src/utils/coverageComparison';
+import { CoverageResult, TechnologyCoverage } from '../src/types';
+
+function location(address: string, lat: number, types: TechnologyCoverage[]): CoverageResult {
+  return {
+    coordinates: { lat, lng: 28.0473 },
+    address,
+    province: 'Gauteng',
+    timestamp: '2025-01-01T10:00:00.000Z',
+    coverage: {
+      mtnProxy: { kind: 'mtnProxy', available: types.length > 0, source: 'MTN Proxy', types }
+    },
+    errors: [],
+    success: true
+  };
+}
+
+const sandton = location('Sandton', -26.1076, [
+  { type: '4G', available: true, strength: 'high', quality: 90 },
+  { type: 'FIBRE', available: true }
+]);
+const soweto = location('Soweto', -26.2485, [
+  { type: '4G', available: true, strength: 'medium' },
+  { type: 'FIBRE', available: false }
+]);
+const midrand = location('Midrand, "Waterfall"', -25.9992, [
+  { type: '4G', available: true, strength: 'high', quality: 90 }
+]);
+
+test.describe('Coverage comparison', () => {
+  test('builds one row per reported technology with the best location marked', () => {
+    const rows = buildComparison([sandton, soweto, midrand]);
+
+    expect(rows.map(row => row.technology)).toEqual(['4G', 'FIBRE']);
+    expect(rows[0].best).toEqual([0, 2]);
+    expect(rows[1].cells[2]).toBeNull();
+    expect(rows[1].best).toEqual([0]);
+  });
+
+  test('does not mark a winner when every location ties', () => {
+    const rows = buildComparison([sandton, midrand]);
+    expect(rows.find(row => row.technology === '4G')!.best).toEqual([]);
+  });
+
+  test('describes cells and labels columns', () => {
+    expect(describeCell(sandton.coverage.mtnProxy!.types[0])).toBe('Yes (high, 90%)');
+    expect(describeCell({ type: 'FIBRE', available: false })).toBe('No');
+    expect(describeCell(null)).toBe('');
+    expect([0, 1, 2, 3].map(comparisonLabel)).toEqual(['A', 'B', 'C', 'D']);
+  });
+
+  test('exports a CSV with a column per location', async () => {
+    const csv = await exportComparisonCSV([sandton, midrand]).text();
+    const lines = csv.split('\r\n');
+
+    expect(lines[0]).toBe(',A: Sandton,"B: Midrand, ""Waterfall"""');
+    expect(lines[1]).toBe('Coordinates,"-26.107600, 28.047300","-25.999200, 28.047300"');
+    expect(lines).toContain('FIBRE,Yes *,');
+  });
+});
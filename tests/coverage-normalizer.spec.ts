@@ -0,0 +1,75 @@
+import { test, expect } from '@playwright/test';
+import {
+  CoverageValidationError,
+  getTechnologyCoverage,
+  normalizeCoverageResult,
+  parseCoveragePointPayload,
+  parseFeatureCollection
+} from '../src/utils/coverageNormalizer';
+
+test.describe('Coverage normalizer', () => {
+  test('infers legacy source kinds from their keys', () => {
+    const result = normalizeCoverageResult({
+      coordinates: { lat: -26.2041, lng: 28.0473 },
+      coverage: {
+        taranaStatic: {
+          available: true,
+          types: [{ type: 'UNCAPPED_WIRELESS', available: true, strength: 'high' }],
+          source: 'Tarana',
+          metadata: { dataDate: '2025-07-16', totalTowers: 12 }
+        },
+        dfa: {
+          types: [{ type: 'FIBRE', available: false }],
+          source: 'DFA'
+        }
+      }
+    });
+
+    expect(result.coverage.taranaStatic.kind).toBe('taranaStatic');
+    expect(result.coverage.dfa).toMatchObject({ kind: 'provider', providerId: 'dfa', available: false });
+    expect(result.province).toBe('Gauteng');
+    expect(result.success).toBe(true);
+  });
+
+  test('drops unknown technologies and invalid optional fields', () => {
+    const [tech, ...rest] = parseCoveragePointPayload([
+      { type: '4G', available: true, strength: 'excellent', quality: 140 },
+      { type: 'ALL', available: true },
+      'not a technology'
+    ]);
+
+    expect(rest).toHaveLength(0);
+    expect(tech).toEqual({ type: '4G', available: true, quality: 100 });
+  });
+
+  test('turns a legacy error string into an ErrorInfo', () => {
+    const result = normalizeCoverageResult({
+      coordinates: { lat: -33.9249, lng: 18.4241 },
+      coverage: {},
+      error: 'Coverage check failed'
+    });
+
+    expect(result.errors).toEqual([{ endpoint: 'api', error: 'Coverage check failed' }]);
+    expect(result.success).toBe(false);
+  });
+
+  test('rejects malformed upstream payloads', () => {
+    expect(() => parseFeatureCollection({ features: 'none' })).toThrow(CoverageValidationError);
+    expect(() => parseCoveragePointPayload({ status: 'ok' })).toThrow(CoverageValidationError);
+  });
+
+  test('flattens technologies across sources with their source name', () => {
+    const result = normalizeCoverageResult({
+      coordinates: { lat: -29.8587, lng: 31.0218 },
+      coverage: {
+        mtnProxy: { types: [{ type: '5G', available: true }], source: 'MTN proxy' },
+        dfa: { kind: 'provider', types: [{ type: 'FIBRE', available: true }], source: 'DFA' }
+      }
+    });
+
+    expect(getTechnologyCoverage(result.coverage).map(tech => [tech.type, tech.source])).toEqual([
+      ['5G', 'MTN proxy'],
+      ['FIBRE', 'DFA']
+    ]);
+  });
+});
@@ -0,0 +1,80 @@
+import { test, expect } from '@playwright/test';
+import { CoverageTileLayer, DEFAULT_OVERLAYS, moveOverlay, overlayOrder, parseHexColor, tintPixels } from '../src/utils/coverageOverlay';
+import { ToggleState } from '../src/types';
+import { TILE_SIZE } from '../src/shared/tiles.js';
+
+const toggles = (...enabled: string[]): ToggleState => ({
+  '2G': false,
+  '3G': false,
+  '4G': false,
+  '5G': false,
+  'UNCAPPED_WIRELESS': false,
+  'FIBRE': false,
+  'LICENSED_WIRELESS': false,
+  'FIXED_LTE': false,
+  ...Object.fromEntries(enabled.map(tech => [tech, true]))
+});
+
+test.describe('Coverage overlays', () => {
+  test('gives every technology a distinct colour and z-index', () => {
+    const settings = Object.values(DEFAULT_OVERLAYS);
+
+    expect(new Set(settings.map(layer => layer.color.toLowerCase())).size).toBe(settings.length);
+    expect(new Set(settings.map(layer => layer.zIndex)).size).toBe(settings.length);
+  });
+
+  test('stacks only enabled technologies by z-index', () => {
+    expect(overlayOrder(toggles('FIBRE', '2G', 'FIXED_LTE'), DEFAULT_OVERLAYS)).toEqual(['2G', 'FIXED_LTE', 'FIBRE']);
+    expect(overlayOrder(toggles(), DEFAULT_OVERLAYS)).toEqual([]);
+  });
+
+  test('moves layers past hidden neighbours', () => {
+    const stack = overlayOrder(toggles('FIBRE', 'FIXED_LTE'), DEFAULT_OVERLAYS);
+    const moved = moveOverlay(DEFAULT_OVERLAYS, stack, 'FIXED_LTE', 1);
+
+    expect(overlayOrder(toggles('FIBRE', 'FIXED_LTE'), moved)).toEqual(['FIBRE', 'FIXED_LTE']);
+    expect(moveOverlay(moved, ['FIBRE', 'FIXED_LTE'], 'FIXED_LTE', 1)).toBe(moved);
+  });
+
+  test('tints visible pixels and keeps their alpha', () => {
+    const pixels = new Uint8ClampedArray([10, 20, 30, 0, 200, 100, 50, 128]);
+    tintPixels(pixels, parseHexColor('#E11D48'));
+
+    expect(Array.from(pixels)).toEqual([10, 20, 30, 0, 0xe1, 0x1d, 0x48, 128]);
+    expect(() => parseHexColor('red')).toThrow();
+  });
+
+  test('restyles tiles already on screen when the colour or opacity changes', () => {
+    // Just enough of google.maps and a 2D canvas for the layer to run in Node
+    (globalThis as { google?: unknown }).google = { maps: { Size: class { constructor(public width: number, public height: number) {} } } };
+    let puts = 0;
+    const pixels = new Uint8ClampedArray(TILE_SIZE * TILE_SIZE * 4);
+    pixels.set([200, 100, 50, 128]);
+    const context = {
+      getImageData: () => ({ data: pixels }),
+      putImageData: () => { puts++; }
+    };
+    const ownerDocument = {
+      createElement: () => ({ style: {} as Record<string, string>, getContext: () => context })
+    } as unknown as Document;
+
+    const layer = new CoverageTileLayer('4G', '#10B981', 0.5, () => '');
+    const tile = layer.getTile(null, 3, ownerDocument) as HTMLCanvasElement;
+    expect(tile.style.opacity).toBe('0.5');
+
+    layer.setOpacity(0.8);
+    expect(tile.style.opacity).toBe('0.8');
+
+    layer.setColor('#E11D48');
+    expect(Array.from(pixels.subarray(0, 4))).toEqual([0xe1, 0x1d, 0x48, 128]);
+    expect(puts).toBe(1);
+
+    // Same colour: nothing to redraw; released tiles are left alone
+    layer.setColor('#e11d48');
+    layer.releaseTile(tile);
+    layer.setColor('#3B82F6');
+    expect(puts).toBe(1);
+
+    delete (globalThis as { google?: unknown }).google;
+  });
+});
@@ -0,0 +1,119 @@
+import { test, expect } from '@playwright/test';
+import { CoverageProvider, ProviderCoverage, TechnologyCoverage, TechnologyType } from '../src/types';
+import { CoverageProviderRegistry } from '../src/utils/coverageProviders';
+
+// Sandton, Johannesburg
+const LAT = -26.1076;
+const LNG = 28.0567;
+
+function stubProvider(
+  id: string,
+  priority: number,
+  types: Array<Partial<TechnologyCoverage> & { type: TechnologyType }>,
+  extra: Partial<ProviderCoverage> = {}
+): CoverageProvider & { calls: number } {
+  return {
+    id,
+    name: `${id} stub`,
+    priority,
+    technologies: types.map(tech => tech.type),
+    calls: 0,
+    async checkCoverage() {
+      this.calls++;
+      return { source: `${id} stub`, types: types.map(tech => ({ available: false, ...tech })), ...extra };
+    }
+  };
+}
+
+function failingProvider(id: string, message: string): CoverageProvider {
+  return {
+    id,
+    name: `${id} stub`,
+    priority: 1000,
+    technologies: ['4G'],
+    checkCoverage: () => Promise.reject(new Error(message))
+  };
+}
+
+test.describe('Coverage provider registry', () => {
+  test('priority merge takes the highest priority answer per technology', async () => {
+    const registry = new CoverageProviderRegistry();
+    registry.register(stubProvider('low', 10, [{ type: '4G', available: true, strength: 'high' }, { type: 'FIBRE', available: true }]));
+    registry.register(stubProvider('high', 100, [{ type: '4G', available: false }]));
+
+    const result = await registry.checkCoverage(LAT, LNG, 'Sandton');
+    const fourG = result.technologies!.find(tech => tech.type === '4G')!;
+    expect(fourG).toMatchObject({ available: false, provider: 'high' });
+    expect(fourG.providers.map(answer => [answer.providerId, answer.available])).toEqual([['high', false], ['low', true]]);
+    expect(result.technologies!.find(tech => tech.type === 'FIBRE')).toMatchObject({ available: true, provider: 'low' });
+    expect(Object.keys(result.coverage).sort()).toEqual(['high', 'low']);
+    expect(result.success).toBe(true);
+  });
+
+  test("'any' merge takes the highest priority answer that reports coverage", async () => {
+    const registry = new CoverageProviderRegistry('any');
+    registry.register(stubProvider('low', 10, [{ type: '4G', available: true, strength: 'medium' }]));
+    registry.register(stubProvider('high', 100, [{ type: '4G', available: false }, { type: '5G', available: false }]));
+
+    const result = await registry.checkCoverage(LAT, LNG);
+    expect(result.technologies!.find(tech => tech.type === '4G')).toMatchObject({ available: true, strength: 'medium', provider: 'low' });
+    expect(result.technologies!.find(tech => tech.type === '5G')).toMatchObject({ available: false, provider: 'high' });
+
+    registry.setMergeStrategy('priority');
+    const byPriority = await registry.checkCoverage(LAT, LNG);
+    expect(byPriority.technologies!.find(tech => tech.type === '4G')).toMatchObject({ available: false, provider: 'high' });
+  });
+
+  test('a rejected provider is reported in errors without failing the check', async () => {
+    const registry = new CoverageProviderRegistry();
+    registry.register(failingProvider('broken', 'upstream down'));
+    registry.register(stubProvider('working', 10, [{ type: '4G', available: true }], {
+      errors: [{ endpoint: 'working:5G', error: 'layer missing' }]
+    }));
+
+    const result = await registry.checkCoverage(LAT, LNG);
+    expect(result.success).toBe(true);
+    expect(result.errors).toEqual([
+      { endpoint: 'broken', error: 'upstream down' },
+      { endpoint: 'working:5G', error: 'layer missing' }
+    ]);
+    expect(result.technologies!.map(tech => tech.provider)).toEqual(['working']);
+
+    registry.setEnabled('working', false);
+    const allFailed = await registry.checkCoverage(LAT, LNG);
+    expect(allFailed.success).toBe(false);
+    expect(allFailed.errors).toEqual([{ endpoint: 'broken', error: 'upstream down' }]);
+  });
+
+  test('only enabled providers are queried and providers can be looked up by id', async () => {
+    const registry = new CoverageProviderRegistry();
+    const mtn = stubProvider('mtn', 100, [{ type: '4G', available: true }]);
+    const tarana = stubProvider('tarana', 50, [{ type: 'UNCAPPED_WIRELESS', available: true }]);
+    registry.register(tarana, { enabled: false });
+    registry.register(mtn);
+
+    expect(registry.getProviders().map(provider => provider.id)).toEqual(['mtn']);
+    expect(registry.getProvider('tarana')).toBe(tarana);
+    expect(registry.getProvider('missing')).toBeUndefined();
+
+    await registry.checkCoverage(LAT, LNG);
+    expect([mtn.calls, tarana.calls]).toEqual([1, 0]);
+
+    registry.setEnabled('tarana', true);
+    expect(registry.getProviders().map(provider => provider.id)).toEqual(['mtn', 'tarana']);
+    const result = await registry.checkCoverage(LAT, LNG);
+    expect(result.technologies!.map(tech => tech.type)).toEqual(['4G', 'UNCAPPED_WIRELESS']);
+    expect(tarana.calls).toBe(1);
+
+    registry.setEnabled('mtn', false);
+    registry.setEnabled('tarana', false);
+    const none = await registry.checkCoverage(LAT, LNG);
+    expect(none.success).toBe(false);
+    expect(none.errors).toEqual([{ endpoint: 'registry', error: 'No coverage providers are enabled' }]);
+
+    expect(() => registry.register(mtn)).toThrow('Coverage provider already registered: mtn');
+    expect(() => registry.setEnabled('missing', true)).toThrow('Unknown coverage provider: missing');
+    expect(registry.unregister('mtn')).toBe(true);
+    expect(registry.getProvider('mtn')).toBeUndefined();
+  });
+});
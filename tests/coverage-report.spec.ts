@@ -0,0 +1,101 @@
+import { test, expect } from '@playwright/test';
+import { PdfDocument } from '../src/utils/pdfWriter';
+import { COVERAGE_DISCLAIMER, buildCoverageReport, projectToWorld } from '../src/utils/coverageReport';
+import { CoverageResult } from '../src/types';
+
+const result: CoverageResult = {
+  coordinates: { lat: -26.1076, lng: 28.0567 },
+  address: 'Sandton City (Main Entrance), Johannesburg',
+  province: 'Gauteng',
+  timestamp: '2025-01-01T10:00:00.000Z',
+  coverage: {
+    mtnProxy: {
+      kind: 'mtnProxy',
+      available: true,
+      source: 'MTN Proxy',
+      types: [
+        { type: '4G', available: true, strength: 'high', quality: 90 },
+        { type: 'FIBRE', available: false }
+      ]
+    }
+  },
+  errors: [],
+  success: true
+};
+
+async function pdfText(blob: Blob): Promise<string> {
+  return Buffer.from(await blob.arrayBuffer()).toString('latin1');
+}
+
+test.describe('PDF coverage report', () => {
+  test('writes a well-formed document with a valid cross-reference table', () => {
+    const pdf = new PdfDocument();
+    pdf.text('Page one', 40, 40);
+    pdf.addPage();
+    pdf.text('Page two', 40, 40);
+    const raw = Buffer.from(pdf.toBytes()).toString('latin1');
+
+    expect(raw.startsWith('%PDF-1.4')).toBe(true);
+    expect(raw.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(raw).toContain('/Count 2');
+
+    const xrefOffset = Number(raw.match(/startxref\n(\d+)/)![1]);
+    expect(raw.slice(xrefOffset, xrefOffset + 4)).toBe('xref');
+
+    const entries = raw.slice(xrefOffset).split('\n').slice(3).filter(line => / n $/.test(line));
+    entries.forEach((entry, index) => {
+      const offset = Number(entry.slice(0, 10));
+      const header = `${index + 1} 0 obj\n`;
+      expect(raw.slice(offset, offset + header.length)).toBe(header);
+    });
+  });
+
+  test('escapes and transliterates text for the standard fonts', () => {
+    const pdf = new PdfDocument();
+    pdf.text('Tower (north) \\ “main” – site', 40, 40);
+    const raw = Buffer.from(pdf.toBytes()).toString('latin1');
+
+    expect(raw).toContain('(Tower \\(north\\) \\\\ "main" - site) Tj');
+  });
+
+  test('wraps text to the available width', () => {
+    const pdf = new PdfDocument();
+    const lines = pdf.wrapText(COVERAGE_DISCLAIMER, 10, 150);
+
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.join(' ')).toBe(COVERAGE_DISCLAIMER);
+    lines.forEach(line => expect(pdf.textWidth(line, 10)).toBeLessThanOrEqual(150));
+  });
+
+  test('includes location details, the technology table and the disclaimer', async () => {
+    const raw = await pdfText(buildCoverageReport(result, { generatedAt: new Date('2025-01-02T08:00:00Z') }));
+
+    expect(raw).toContain('(MTN Coverage Report) Tj');
+    expect(raw).toContain('Sandton City \\(Main Entrance\\), Johannesburg');
+    expect(raw).toContain('(-26.107600, 28.056700) Tj');
+    expect(raw).toContain('(Gauteng) Tj');
+    expect(raw).toContain('(90%) Tj');
+    expect(raw).toContain('(- MTN Proxy) Tj');
+    expect(raw).toContain('environmental factors');
+    expect(raw).not.toContain('/XObject');
+  });
+
+  test('embeds the map snapshot as a JPEG image', async () => {
+    const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0xff, 0xd9]);
+    const raw = await pdfText(buildCoverageReport(result, {
+      snapshot: { jpeg, width: 1040, height: 560, technologies: ['4G', 'FIBRE'] }
+    }));
+
+    expect(raw).toContain('/Subtype /Image /Width 1040 /Height 560');
+    expect(raw).toContain('/Filter /DCTDecode /Length 8');
+    expect(raw).toContain('/Im1 Do');
+    expect(raw).toContain('Overlays: 4G LTE, Fibre.');
+  });
+
+  test('projects coordinates onto the mercator tile grid', () => {
+    const point = projectToWorld(-26.1076, 28.0567, 10);
+
+    expect(Math.floor(point.x / 256)).toBe(591);
+    expect(Math.floor(point.y / 256)).toBe(588);
+  });
+});
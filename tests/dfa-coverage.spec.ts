@@ -0,0 +1,70 @@
+import { test, expect } from '@playwright/test';
+import { DFACoverageService } from '../src/utils/dfaCoverage';
+import { startDFAStandIn, point, path } from './support/dfaStandIn';
+
+// Sandton, Johannesburg
+const LAT = -26.1076;
+const LNG = 28.0567;
+
+test.describe('DFA coverage provider', () => {
+  let standIn: Awaited<ReturnType<typeof startDFAStandIn>>;
+
+  test.beforeAll(async () => {
+    standIn = await startDFAStandIn({
+      'DFA_Connected_Buildings/MapServer/0': [
+        { attributes: { OBJECTID: 1, Status: 'Connected' }, geometry: point(LAT, LNG) }
+      ],
+      'Promotions/MapServer/1': [
+        { attributes: { OBJECTID: 7 }, geometry: point(LAT - 0.01, LNG) }
+      ],
+      'API_BasedOSPLayers/MapServer/1': [
+        // Runs east-west roughly 110m north of the near-net building
+        { attributes: { OBJECTID: 3, Status: 'Completed' }, geometry: path([LAT - 0.019, LNG - 0.01], [LAT - 0.019, LNG + 0.01]) }
+      ]
+    });
+  });
+
+  test.afterAll(async () => {
+    await standIn.close();
+  });
+
+  test('reports a connected building', async () => {
+    const service = new DFACoverageService({ baseUrl: standIn.baseUrl });
+    const result = await service.checkCoverage(LAT, LNG);
+
+    expect(result.status).toBe('connected');
+    expect(result.available).toBe(true);
+    expect(result.connectedBuildings).toHaveLength(1);
+  });
+
+  test('reports a near-net building', async () => {
+    const service = new DFACoverageService({ baseUrl: standIn.baseUrl });
+    const result = await service.checkCoverage(LAT - 0.01, LNG);
+
+    expect(result.status).toBe('near-net');
+    expect(result.description).toBe('DFA near-net building');
+  });
+
+  test('reports ductbank distance within the search radius', async () => {
+    const service = new DFACoverageService({ baseUrl: standIn.baseUrl, ductbankRadius: 250 });
+    const result = await service.checkCoverage(LAT - 0.02, LNG);
+
+    expect(result.status).toBe('ductbank');
+    expect(result.ductbankDistance).toBeGreaterThan(100);
+    expect(result.ductbankDistance).toBeLessThan(120);
+  });
+
+  test('reports nothing when no infrastructure is in range', async () => {
+    const service = new DFACoverageService({ baseUrl: standIn.baseUrl, ductbankRadius: 50 });
+    const result = await service.checkCoverage(LAT - 0.02, LNG);
+
+    expect(result.available).toBe(false);
+    expect(result.ductbankDistance).toBeNull();
+  });
+
+  test('surfaces ArcGIS error bodies', async () => {
+    const service = new DFACoverageService({ baseUrl: `${standIn.baseUrl}/missing` });
+
+    await expect(service.checkCoverage(LAT, LNG)).rejects.toThrow('DFA query failed');
+  });
+});
@@ -0,0 +1,55 @@
+import { test, expect } from '@playwright/test';
+import { FeatureInfoError, parseFeatureInfoText } from '../api/_lib/featureInfo.js';
+
+test.describe('GetFeatureInfo text parser', () => {
+  test('parses features with layer, id and typed attributes', () => {
+    const text = [
+      "Results for FeatureType 'mtnsi:MTNSA-Coverage-4G':",
+      '--------------------------------------------',
+      'the_geom = [GEOMETRY (MultiPolygon) with 128 points]',
+      'fid = MTNSA-Coverage-4G.1042',
+      'signal = Good',
+      'band = 1800',
+      '--------------------------------------------',
+      'fid = MTNSA-Coverage-4G.1043',
+      'signal = Fair',
+      'band = 2100',
+      '--------------------------------------------'
+    ].join('\n');
+
+    expect(parseFeatureInfoText(text)).toEqual([
+      { layer: 'mtnsi:MTNSA-Coverage-4G', id: 'MTNSA-Coverage-4G.1042', attributes: { signal: 'Good', band: 1800 } },
+      { layer: 'mtnsi:MTNSA-Coverage-4G', id: 'MTNSA-Coverage-4G.1043', attributes: { signal: 'Fair', band: 2100 } }
+    ]);
+  });
+
+  test('keeps features from several layers apart and numbers features without an id', () => {
+    const text = [
+      "Results for FeatureType 'mtnsi:FTTBCoverage':",
+      '--------------------------------------------',
+      'status = Feasible',
+      '--------------------------------------------',
+      "Results for FeatureType 'mtnsi:PMPCoverage':",
+      '--------------------------------------------',
+      'status = Planned',
+      'notes = ',
+      '--------------------------------------------'
+    ].join('\r\n');
+
+    expect(parseFeatureInfoText(text)).toEqual([
+      { layer: 'mtnsi:FTTBCoverage', id: 'mtnsi:FTTBCoverage.1', attributes: { status: 'Feasible' } },
+      { layer: 'mtnsi:PMPCoverage', id: 'mtnsi:PMPCoverage.2', attributes: { status: 'Planned', notes: '' } }
+    ]);
+  });
+
+  test('returns no features for an empty result', () => {
+    expect(parseFeatureInfoText('no features were found\n')).toEqual([]);
+    expect(parseFeatureInfoText('')).toEqual([]);
+  });
+
+  test('raises GeoServer service exceptions', () => {
+    const xml = '<?xml version="1.0"?><ServiceExceptionReport><ServiceException code="LayerNotDefined">Unknown layer</ServiceException></ServiceExceptionReport>';
+    expect(() => parseFeatureInfoText(xml)).toThrow(FeatureInfoError);
+    expect(() => parseFeatureInfoText(xml)).toThrow('GeoServer exception: Unknown layer');
+  });
+});
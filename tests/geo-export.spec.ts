@@ -0,0 +1,101 @@
+import { test, expect } from '@playwright/test';
+import { DOMParser } from '@xmldom/xmldom';
+import { kml } from '@tmcw/togeojson';
+import { locationProperties, resultsToGeoJSON, resultsToKML, toWgs84 } from '../src/utils/geoExport';
+import { CoverageResult } from '../src/types';
+
+// A 4G polygon returned by GeoServer in EPSG:900913 metres around Sandton
+const sandtonPolygon = {
+  type: 'Feature' as const,
+  id: 'coverage.1',
+  geometry: {
+    type: 'Polygon',
+    coordinates: [[
+      [3123000, -3011000], [3124000, -3011000], [3124000, -3012000], [3123000, -3012000], [3123000, -3011000]
+    ]]
+  },
+  properties: { signal: 'Good', band: 'L1800' }
+};
+
+const sandton: CoverageResult = {
+  coordinates: { lat: -26.1076, lng: 28.0567 },
+  address: 'Sandton City & Surrounds',
+  province: 'Gauteng',
+  timestamp: '2025-01-01T10:00:00.000Z',
+  coverage: {
+    mtnGeoServer: {
+      kind: 'mtnGeoServer',
+      available: true,
+      source: 'MTN GeoServer',
+      coordinates: { lat: -26.1076, lng: 28.0567 },
+      types: [
+        { type: '4G', available: true, strength: 'high', quality: 90, features: [sandtonPolygon] },
+        { type: 'FIBRE', available: false }
+      ]
+    }
+  },
+  errors: [],
+  success: true
+};
+
+const soweto: CoverageResult = {
+  ...sandton,
+  coordinates: { lat: -26.2485, lng: 27.854 },
+  address: 'Soweto',
+  coverage: {
+    mtnProxy: { kind: 'mtnProxy', available: true, source: 'MTN Proxy', types: [{ type: '3G', available: true, strength: 'low' }] }
+  },
+  errors: [{ endpoint: 'FIBRE', error: 'MTN API error: 500' }]
+};
+
+test.describe('GeoJSON and KML export', () => {
+  test('stores per-technology availability as flat properties', () => {
+    expect(locationProperties(sandton)).toMatchObject({
+      kind: 'location',
+      address: 'Sandton City & Surrounds',
+      '4G_available': true,
+      '4G_strength': 'high',
+      '4G_quality': 90,
+      FIBRE_available: false,
+      sources: 'MTN GeoServer'
+    });
+    expect(locationProperties(soweto).errors).toBe('FIBRE: MTN API error: 500');
+  });
+
+  test('exports a point per location plus returned feature geometries', () => {
+    const collection = resultsToGeoJSON([sandton, soweto]);
+
+    expect(collection.features.map(feature => feature.geometry?.type)).toEqual(['Point', 'Polygon', 'Point']);
+    expect(collection.features[0].geometry).toEqual({ type: 'Point', coordinates: [28.0567, -26.1076] });
+    expect(collection.features[1]).toMatchObject({
+      id: 'coverage.1',
+      properties: { kind: 'coverage', technology: '4G', source: 'MTN GeoServer', signal: 'Good', location: 'Sandton City & Surrounds' }
+    });
+  });
+
+  test('converts spherical mercator geometries to WGS84', () => {
+    const [[[lng, lat]]] = toWgs84(sandtonPolygon.geometry).coordinates as number[][][];
+
+    expect(lng).toBeCloseTo(28.0544, 3);
+    expect(lat).toBeCloseTo(-26.0962, 3);
+
+    const degrees = { type: 'Point', coordinates: [28.05, -26.1] };
+    expect(toWgs84(degrees)).toBe(degrees);
+  });
+
+  test('writes KML that reads back with the same data', () => {
+    const text = resultsToKML([sandton, soweto]);
+    const parsed = kml(new DOMParser().parseFromString(text, 'text/xml') as unknown as Document);
+
+    expect(parsed.features).toHaveLength(3);
+    expect(parsed.features[0].properties).toMatchObject({
+      name: 'Sandton City & Surrounds',
+      '4G_available': 'true',
+      '4G_quality': '90',
+      timestamp: '2025-01-01T10:00:00.000Z'
+    });
+    expect(parsed.features[1].properties).toMatchObject({ technology: '4G', band: 'L1800', styleUrl: '#coverage-4G' });
+    expect(parsed.features[1].geometry?.type).toBe('Polygon');
+    expect(text).toContain('<Style id="coverage-4G"><LineStyle><color>ff81b910</color>');
+  });
+});
@@ -0,0 +1,135 @@
+import { test, expect } from '@playwright/test';
+import { DOMParser } from '@xmldom/xmldom';
+import JSZip from 'jszip';
+import { DEFAULT_TARANA_SOURCE, KMLParser, extractDataDate, extractDate } from '../src/utils/kmlParser';
+import { TaranaCoverageService } from '../src/utils/taranaCoverage';
+
+const parseXml = (text: string) => new DOMParser().parseFromString(text, 'text/xml') as unknown as Document;
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3]);
+
+function taranaKml({ metadata = '', href = 'files/coverage.png' } = {}) {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2"><Document>
+  <name>Tarana coverage</name>
+  ${metadata}
+  <GroundOverlay>
+    <Icon><href>${href}</href></Icon>
+    <LatLonBox><north>-25.9</north><south>-26.3</south><east>28.3</east><west>27.8</west></LatLonBox>
+  </GroundOverlay>
+  <Placemark><name>ST: Sandton North</name>
+    <Style><IconStyle><heading>120</heading></IconStyle></Style>
+    <Point><coordinates>28.0567,-26.1076,1650</coordinates></Point>
+  </Placemark>
+  <Placemark><name>ST: Midrand</name><Point><coordinates>28.1280,-25.9990,1520</coordinates></Point></Placemark>
+  <Placemark><name>Customer site</name><Point><coordinates>28.0,-26.0,0</coordinates></Point></Placemark>
+</Document></kml>`;
+}
+
+async function kmz(files: Record<string, string | Uint8Array>) {
+  const zip = new JSZip();
+  Object.entries(files).forEach(([name, content]) => zip.file(name, content));
+  return zip.generateAsync({ type: 'arraybuffer' });
+}
+
+test.describe('Tarana KMZ parsing', () => {
+  test('unpacks towers and the overlay image from a KMZ archive', async () => {
+    const parser = new KMLParser(parseXml);
+    const archive = await kmz({ 'doc.kml': taranaKml(), 'files/coverage.png': PNG });
+
+    const data = await parser.parseKMZ(archive, 'Tarana_Coverage_2025-07-16.kmz');
+
+    expect(data.towers.map(tower => tower.name)).toEqual(['Sandton North', 'Midrand']);
+    expect(data.towers[0]).toMatchObject({ lat: -26.1076, lng: 28.0567, altitude: 1650, heading: 120 });
+    expect(data.coverageOverlay.bounds).toEqual({ north: -25.9, south: -26.3, east: 28.3, west: 27.8 });
+    expect(data.metadata).toMatchObject({ date: '2025-07-16', source: 'Tarana_Coverage_2025-07-16.kmz', totalTowers: 2 });
+
+    expect(data.coverageOverlay.imageUrl).toMatch(/^blob:/);
+    const image = await (await fetch(data.coverageOverlay.imageUrl)).arrayBuffer();
+    expect(new Uint8Array(image)).toEqual(PNG);
+    URL.revokeObjectURL(data.coverageOverlay.imageUrl);
+  });
+
+  test('finds a root KML that is not called doc.kml and resolves paths relative to it', async () => {
+    const parser = new KMLParser(parseXml);
+    const archive = await kmz({
+      'export/tarana.kml': taranaKml({ href: '../images/overlay.png' }),
+      'images/overlay.png': PNG
+    });
+
+    const data = await parser.parseKMZ(archive, 'export.kmz');
+    expect(data.towers).toHaveLength(2);
+    expect(data.coverageOverlay.imageUrl).toMatch(/^blob:/);
+    expect(data.metadata.date).toBeNull();
+    URL.revokeObjectURL(data.coverageOverlay.imageUrl);
+
+    await expect(parser.parseKMZ(await kmz({ 'readme.txt': 'nothing here' }), 'empty.kmz'))
+      .rejects.toThrow('No KML document in empty.kmz');
+  });
+
+  test('prefers document metadata over the file name for the data date', () => {
+    const date = (metadata: string, fileName = 'tarana_20240101.kmz') =>
+      extractDataDate(parseXml(taranaKml({ metadata })), fileName);
+
+    expect(date('<TimeStamp><when>2025-08-01T00:00:00Z</when></TimeStamp>')).toBe('2025-08-01');
+    expect(date('<TimeSpan><begin>2025-01-01</begin><end>2025-09-30</end></TimeSpan>')).toBe('2025-09-30');
+    expect(date('<ExtendedData><Data name="Export Date"><value>2025/10/02</value></Data></ExtendedData>')).toBe('2025-10-02');
+    expect(date('<description>Coverage export 2025_11_05</description>')).toBe('2025-11-05');
+    expect(date('')).toBe('2024-01-01');
+    expect(date('', 'tarana.kmz')).toBeNull();
+
+    expect(extractDate('Tarana 20250716 v2')).toBe('2025-07-16');
+    expect(extractDate('build 12345678')).toBeNull();
+  });
+
+  test('falls back to the unpacked doc.kml when the bundled KMZ is missing', async () => {
+    const realFetch = globalThis.fetch;
+    const requested: string[] = [];
+    globalThis.fetch = (async (url: string) => {
+      requested.push(url);
+      return url.endsWith('/doc.kml')
+        ? new Response(taranaKml({ href: 'https://example.com/o.png' }))
+        : new Response('Not Found', { status: 404, statusText: 'Not Found' });
+    }) as typeof fetch;
+    Object.defineProperty(globalThis, 'location', { value: { href: 'http://localhost/' }, configurable: true });
+
+    try {
+      const data = await new KMLParser(parseXml).loadTaranaCoverage();
+      expect(requested).toEqual([DEFAULT_TARANA_SOURCE, '/coverage/tarana/doc.kml']);
+      expect(data.towers).toHaveLength(2);
+      expect(data.metadata.source).toBe('doc.kml');
+
+      // Explicitly configured sources are not second-guessed
+      requested.length = 0;
+      await expect(new KMLParser(parseXml).loadTaranaCoverage('/exports/tarana.kmz'))
+        .rejects.toThrow('Failed to load Tarana coverage: Not Found');
+      expect(requested).toEqual(['/exports/tarana.kmz']);
+    } finally {
+      globalThis.fetch = realFetch;
+      delete (globalThis as { location?: unknown }).location;
+    }
+  });
+
+  test('uploaded files replace the dataset used for coverage checks', async () => {
+    const parser = new KMLParser(parseXml);
+    const service = new TaranaCoverageService(parser);
+
+    const upload = new Blob([await kmz({ 'doc.kml': taranaKml(), 'files/coverage.png': PNG })]);
+    const data = await service.loadDataset(upload, 'tarana-2025-12-01.kmz');
+    expect(data.metadata.date).toBe('2025-12-01');
+    expect(service.getDataset()).toBe(data);
+
+    const point = await service.checkCoverage(-26.11, 28.06);
+    expect(point.available).toBe(true);
+    expect(point.nearestTowers[0].tower.name).toBe('Sandton North');
+    expect(service.formatCoverageResult(-26.11, 28.06, 'Sandton', point).coverage.taranaStatic)
+      .toMatchObject({ metadata: { dataDate: '2025-12-01', totalTowers: 2 } });
+
+    // Plain KML uploads work too, and a file without towers is rejected
+    const kml = await service.loadDataset(new Blob([taranaKml({ href: 'https://example.com/o.png' })]), 'tarana.kml');
+    expect(kml.coverageOverlay.imageUrl).toBe('https://example.com/o.png');
+    await expect(service.loadDataset(new Blob(['<kml><Document/></kml>']), 'empty.kml'))
+      .rejects.toThrow('No Tarana towers found in empty.kml');
+    expect(service.getDataset()).toBe(kml);
+  });
+});
@@ -0,0 +1,112 @@
+import { test, expect } from '@playwright/test';
+import { buildLegendUrl, parseLegendGraphic, LegendError } from '../api/_lib/legend.js';
+import handler from '../api/legend.js';
+import { CoverageLegendService } from '../src/utils/coverageLegend';
+import { bundledLegends } from '../src/data/legends';
+import { callRoute, jsonBody } from './support/fakeResponse';
+
+const polygonLegend = {
+  Legend: [{
+    layerName: 'MTNSA-Coverage-4G',
+    title: '4G',
+    rules: [
+      { title: 'Good', symbolizers: [{ Polygon: { fill: '#00A651', 'fill-opacity': '0.8' } }] },
+      { name: 'fair', symbolizers: [{ Line: { stroke: '#333333' } }, { Polygon: { fill: '#7FD3A8', 'fill-opacity': '0.4' } }] },
+      { title: 'Unstyled', symbolizers: [] }
+    ]
+  }]
+};
+
+const call = (query: Record<string, string>) => callRoute(handler, query);
+
+test.describe('GetLegendGraphic parsing', () => {
+  test('builds a JSON legend request for the technology style', () => {
+    const url = new URL(buildLegendUrl('FIBRE')!);
+
+    expect(url.searchParams.get('REQUEST')).toBe('GetLegendGraphic');
+    expect(url.searchParams.get('LAYER')).toBe('mtnsi:MTN-FTTB-Feasible');
+    expect(url.searchParams.get('STYLE')).toBe('MTN-FTTB-Feasible-G');
+    expect(url.searchParams.get('FORMAT')).toBe('application/json');
+    expect(buildLegendUrl('6G')).toBeNull();
+  });
+
+  test('flattens polygon rules and raster colour maps', () => {
+    expect(parseLegendGraphic(polygonLegend)).toEqual([
+      { label: 'Good', color: '#00A651', opacity: 0.8 },
+      { label: 'fair', color: '#333333', opacity: 1 }
+    ]);
+
+    expect(parseLegendGraphic({
+      Legend: [{
+        layerName: 'FTTB',
+        rules: [{
+          symbolizers: [{
+            Raster: {
+              colormap: {
+                entries: [
+                  { color: '#000000', quantity: '0', opacity: '0' },
+                  { color: '#00A651', quantity: '1', label: 'Feasible', opacity: '0.7' },
+                  { color: '#F7931E', quantity: '2' }
+                ]
+              }
+            }
+          }]
+        }]
+      }]
+    })).toEqual([
+      { label: 'Feasible', color: '#00A651', opacity: 0.7 },
+      { label: '2', color: '#F7931E', opacity: 1 }
+    ]);
+
+    expect(() => parseLegendGraphic({ layers: [] })).toThrow(LegendError);
+  });
+});
+
+test.describe('Legend proxy route', () => {
+  const realFetch = globalThis.fetch;
+
+  test.afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  test('returns parsed entries for the technology', async () => {
+    globalThis.fetch = (async () => new Response(JSON.stringify(polygonLegend), {
+      headers: { 'content-type': 'application/json' }
+    })) as typeof fetch;
+
+    const res = await call({ technology: '4G' });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toMatchObject({ technology: '4G', style: 'MTN-Coverage-4G' });
+    expect(jsonBody(res).entries).toHaveLength(2);
+  });
+
+  test('reports service exceptions as bad gateway', async () => {
+    globalThis.fetch = (async () => new Response('<ServiceExceptionReport/>', {
+      headers: { 'content-type': 'application/vnd.ogc.se_xml' }
+    })) as typeof fetch;
+
+    expect((await call({ technology: '5G' })).statusCode).toBe(502);
+    expect((await call({ technology: 'ALL_OF_THEM' })).statusCode).toBe(400);
+  });
+});
+
+test.describe('Coverage legend service', () => {
+  test('falls back to the bundled legend and retries later', async () => {
+    let calls = 0;
+    const service = new CoverageLegendService(async () => {
+      calls++;
+      if (calls === 1) throw new Error('offline');
+      return [{ label: 'Good', color: '#00A651', opacity: 0.8 }];
+    });
+
+    const first = await service.getLegend('FIBRE');
+    expect(first).toEqual({ technology: 'FIBRE', entries: bundledLegends.FIBRE, source: 'bundled' });
+
+    const second = await service.getLegend('FIBRE');
+    expect(second.source).toBe('upstream');
+
+    await service.getLegend('FIBRE');
+    expect(calls).toBe(2);
+  });
+});
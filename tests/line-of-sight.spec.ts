@@ -0,0 +1,191 @@
+import { test, expect } from '@playwright/test';
+import { DOMParser } from '@xmldom/xmldom';
+import { ElevationModel, demTileName, parseGeoTiff, parseHgt, sampleRaster } from '../src/utils/elevationModel';
+import { KMLParser, TaranaTower } from '../src/utils/kmlParser';
+import { analyzeLineOfSight, earthBulge, fresnelRadius, towerAntennaHeight } from '../src/utils/lineOfSight';
+import { TaranaCoverageService } from '../src/utils/taranaCoverage';
+
+const parseXml = (text: string) => new DOMParser().parseFromString(text, 'text/xml') as unknown as Document;
+
+type Terrain = (lat: number, lng: number) => number;
+
+// S27E028: 27-26°S, 28-29°E
+const TILE = { name: 'S27E028', south: -27, west: 28 };
+const CUSTOMER = { lat: -26.6, lng: 28.5 };
+const TOWER_LAT = -26.555; // ~5 km due north
+const RIDGE_LAT = (CUSTOMER.lat + TOWER_LAT) / 2;
+
+const slope: Terrain = (lat, lng) => 1000 + 100 * (lng - 28) + 200 * (lat + 27);
+const flat: Terrain = () => 1500;
+const ridge = (height: number): Terrain => lat => 1500 + height * Math.exp(-(((lat - RIDGE_LAT) / 0.004) ** 2));
+
+function hgt(terrain: Terrain, size = 1201, voids: number[] = []): ArrayBuffer {
+  const view = new DataView(new ArrayBuffer(size * size * 2));
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      const lat = TILE.south + 1 - row / (size - 1);
+      const lng = TILE.west + col / (size - 1);
+      view.setInt16((row * size + col) * 2, Math.round(terrain(lat, lng)), false);
+    }
+  }
+  voids.forEach(index => view.setInt16(index * 2, -32768, false));
+  return view.buffer;
+}
+
+// Minimal little-endian, single-strip float32 GeoTIFF with PixelIsArea georeferencing
+function geoTiff(terrain: Terrain, size: number): ArrayBuffer {
+  const entries: Array<[number, number, number[]]> = [
+    [256, 3, [size]], [257, 3, [size]], [258, 3, [32]], [259, 3, [1]],
+    [273, 4, [0]], [277, 3, [1]], [278, 3, [size]], [279, 4, [size * size * 4]], [339, 3, [3]],
+    [33550, 12, [1 / size, 1 / size, 0]],
+    [33922, 12, [0, 0, 0, TILE.west, TILE.south + 1, 0]],
+    [34735, 3, [1, 1, 0, 1, 1025, 0, 1, 1]]
+  ];
+  const typeSize: Record<number, number> = { 3: 2, 4: 4, 12: 8 };
+  const ifdSize = 2 + entries.length * 12 + 4;
+  let extra = 8 + ifdSize;
+  const layout = entries.map(([tag, type, values]) => {
+    const bytes = typeSize[type] * values.length;
+    const offset = bytes > 4 ? extra : null;
+    if (offset !== null) extra += bytes;
+    return { tag, type, values, offset };
+  });
+  const pixels = extra;
+  const view = new DataView(new ArrayBuffer(pixels + size * size * 4));
+
+  view.setUint16(0, 0x4949);
+  view.setUint16(2, 42, true);
+  view.setUint32(4, 8, true);
+  view.setUint16(8, entries.length, true);
+  layout.forEach(({ tag, type, values, offset }, index) => {
+    const entry = 10 + index * 12;
+    view.setUint16(entry, tag, true);
+    view.setUint16(entry + 2, type, true);
+    view.setUint32(entry + 4, values.length, true);
+    const target = offset ?? entry + 8;
+    values.forEach((value, i) => {
+      const data = tag === 273 ? pixels : value;
+      if (type === 3) view.setUint16(target + i * 2, data, true);
+      else if (type === 4) view.setUint32(target + i * 4, data, true);
+      else view.setFloat64(target + i * 8, data, true);
+    });
+    if (offset !== null) view.setUint32(entry + 8, offset, true);
+  });
+
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      const lat = TILE.south + 1 - (row + 0.5) / size;
+      const lng = TILE.west + (col + 0.5) / size;
+      view.setFloat32(pixels + (row * size + col) * 4, terrain(lat, lng), true);
+    }
+  }
+  return view.buffer;
+}
+
+function model(tile: ArrayBuffer) {
+  const requested: string[] = [];
+  const elevation = new ElevationModel(async name => {
+    requested.push(name);
+    return name === TILE.name ? tile : null;
+  });
+  return { elevation, requested };
+}
+
+function tower(altitude: number, lat = TOWER_LAT): TaranaTower {
+  return { id: 'bn1', name: 'Hilltop', lat, lng: CUSTOMER.lng, altitude, heading: 180 };
+}
+
+test.describe('Elevation model', () => {
+  test('reads SRTM .hgt tiles named after their south-west corner', async () => {
+    expect(demTileName(-26.1, 28.05)).toBe('S27E028');
+    expect(demTileName(0.5, -0.5)).toBe('N00W001');
+
+    const raster = parseHgt(TILE.name, hgt(slope, 121));
+    expect(raster).toMatchObject({ width: 121, west: 28, north: -26 });
+    expect(sampleRaster(raster, -26.5, 28.25)).toBeCloseTo(slope(-26.5, 28.25), 0);
+
+    const { elevation, requested } = model(hgt(slope, 121, [0]));
+    expect(await elevation.elevation(-26.3, 28.7)).toBeCloseTo(slope(-26.3, 28.7), 0);
+    expect(await elevation.elevation(-26.0001, 28.0001)).toBeNull(); // next to the void
+    expect(await elevation.elevation(-25.5, 28.5)).toBeNull(); // no tile
+    await elevation.elevation(-26.4, 28.4);
+    expect(requested).toEqual(['S27E028', 'S26E028']);
+
+    expect(() => parseHgt(TILE.name, new ArrayBuffer(10))).toThrow('not an SRTM .hgt tile');
+  });
+
+  test('reads uncompressed GeoTIFF tiles with the same heights', async () => {
+    const raster = parseGeoTiff(geoTiff(slope, 120));
+    expect(raster.west).toBeCloseTo(28 + 0.5 / 120, 9);
+    expect(raster.north).toBeCloseTo(-26 - 0.5 / 120, 9);
+
+    const { elevation } = model(geoTiff(slope, 120));
+    for (const [lat, lng] of [[-26.5, 28.25], [-26.9, 28.9], [-26.123, 28.456]]) {
+      expect(await elevation.elevation(lat, lng)).toBeCloseTo(slope(lat, lng), 2);
+    }
+  });
+});
+
+test.describe('Line of sight', () => {
+  test('uses the standard Fresnel, earth bulge and tower height rules', () => {
+    expect(fresnelRadius(2.5, 2.5, 5.8)).toBeCloseTo(8.04, 2);
+    expect(fresnelRadius(0, 5, 5.8)).toBe(0);
+    expect(earthBulge(2.5, 2.5, 4 / 3)).toBeCloseTo(0.37, 2);
+
+    expect(towerAntennaHeight(tower(1650), 1600, 30)).toBe(1650); // above sea level
+    expect(towerAntennaHeight(tower(25), 1600, 30)).toBe(1625); // above ground
+    expect(towerAntennaHeight(tower(0), 1600, 30)).toBe(1630); // default mast
+    expect(towerAntennaHeight(tower(0), null, 30)).toBeNull();
+  });
+
+  test('gives a clear, marginal or blocked verdict from the terrain profile', async () => {
+    const flatPath = await analyzeLineOfSight(model(hgt(flat)).elevation, CUSTOMER, tower(1530));
+    expect(flatPath.distance).toBeCloseTo(5, 0);
+    expect(flatPath).toMatchObject({ verdict: 'clear', customerAntenna: 1506, towerAntenna: 1530 });
+    expect(flatPath.profile).toHaveLength(128);
+    expect(flatPath.obstruction).toBeUndefined();
+
+    const lowRidge = await analyzeLineOfSight(model(hgt(ridge(15))).elevation, CUSTOMER, tower(1530));
+    expect(lowRidge.verdict).toBe('marginal');
+    expect(lowRidge.obstruction!.clearance).toBeGreaterThan(0);
+    expect(lowRidge.obstruction!.distance).toBeCloseTo(2.5, 0);
+
+    const highRidge = await analyzeLineOfSight(model(hgt(ridge(40))).elevation, CUSTOMER, tower(1530));
+    expect(highRidge.verdict).toBe('blocked');
+    expect(highRidge.worstClearance!).toBeLessThan(0);
+
+    // A taller mast clears the same ridge
+    const tallMast = await analyzeLineOfSight(model(hgt(ridge(40))).elevation, CUSTOMER, tower(1600));
+    expect(tallMast.verdict).toBe('clear');
+  });
+
+  test('reports unknown when the DEM does not cover the path', async () => {
+    const path = await analyzeLineOfSight(model(hgt(flat, 121)).elevation, CUSTOMER, tower(1530, -25.9));
+    expect(path.verdict).toBe('unknown');
+    expect(path.worstClearance).toBeNull();
+  });
+
+  test('checks the towers serving a point through the coverage service', async () => {
+    const service = new TaranaCoverageService(new KMLParser(parseXml));
+    const kml = `<kml><Document>
+      <Placemark><name>ST: Hilltop</name><Style><IconStyle><heading>180</heading></IconStyle></Style>
+        <Point><coordinates>${CUSTOMER.lng},${TOWER_LAT},1600</coordinates></Point></Placemark>
+      <Placemark><name>ST: Valley</name><Style><IconStyle><heading>0</heading></IconStyle></Style>
+        <Point><coordinates>${CUSTOMER.lng},-26.64,20</coordinates></Point></Placemark>
+    </Document></kml>`;
+    await service.loadDataset(new Blob([kml]), 'towers.kml');
+
+    const paths = await service.checkLineOfSight(CUSTOMER.lat, CUSTOMER.lng, { elevation: model(hgt(ridge(40))).elevation });
+    expect(paths.map(path => [path.tower.name, path.verdict])).toEqual([
+      ['Valley', 'clear'],
+      ['Hilltop', 'clear']
+    ]);
+
+    const higherRidge = model(hgt(ridge(80))).elevation;
+    const blocked = await service.checkLineOfSight(CUSTOMER.lat, CUSTOMER.lng, { elevation: higherRidge });
+    expect(blocked.map(path => path.verdict)).toEqual(['clear', 'blocked']);
+
+    const best = await service.checkLineOfSight(CUSTOMER.lat, CUSTOMER.lng, { elevation: higherRidge, count: 1 });
+    expect(best.map(path => path.tower.name)).toEqual(['Valley']);
+  });
+});
@@ -0,0 +1,115 @@
+import { test, expect } from '@playwright/test';
+import { LocationHistory, diffCoverage, filterHistory, historyId, historyTags } from '../src/utils/locationHistory';
+import { CoverageResult, TechnologyCoverage } from '../src/types';
+
+class MemoryStorage {
+  private items = new Map<string, string>();
+  getItem(key: string) { return this.items.get(key) ?? null; }
+  setItem(key: string, value: string) { this.items.set(key, value); }
+  removeItem(key: string) { this.items.delete(key); }
+}
+
+function check(address: string, lat: number, types: TechnologyCoverage[]): CoverageResult {
+  return {
+    coordinates: { lat, lng: 28.0473 },
+    address,
+    province: 'Gauteng',
+    timestamp: '2025-01-01T10:00:00.000Z',
+    coverage: {
+      mtnProxy: { kind: 'mtnProxy', available: true, source: 'MTN Proxy', types }
+    },
+    errors: [],
+    success: true
+  };
+}
+
+test.describe('Location history', () => {
+  let now: number;
+  let history: LocationHistory;
+
+  test.beforeEach(() => {
+    now = Date.UTC(2025, 0, 1);
+    history = new LocationHistory({ storage: new MemoryStorage(), maxEntries: 2, now: () => now });
+  });
+
+  test('keeps the latest snapshot per site, most recent first', () => {
+    history.record(check('Sandton', -26.1076, [{ type: '4G', available: true }]));
+    now += 1000;
+    history.record(check('Soweto', -26.2485, []));
+    now += 1000;
+    const { previous } = history.record(check('Sandton', -26.1076, [{ type: '4G', available: false }]));
+
+    expect(previous?.checkedAt).toBe('2025-01-01T00:00:00.000Z');
+    expect(history.list().map(entry => entry.address)).toEqual(['Sandton', 'Soweto']);
+  });
+
+  test('keeps favourites beyond the cap and through re-checks', () => {
+    history.record(check('Sandton', -26.1076, []));
+    const [sandton] = history.list();
+    history.pin(sandton.id, 'Head office', ['Clients', ' gauteng ', '']);
+
+    history.record(check('Soweto', -26.2485, []));
+    history.record(check('Midrand', -25.9992, []));
+    history.record(check('Sandton', -26.1076, []));
+    history.record(check('Rosebank', -26.1452, []));
+
+    const entries = history.list();
+    expect(entries.map(entry => entry.address)).toEqual(['Rosebank', 'Sandton', 'Midrand']);
+    expect(entries[1]).toMatchObject({ favourite: true, name: 'Head office', tags: ['clients', 'gauteng'] });
+
+    history.clearRecent();
+    expect(history.list().map(entry => entry.address)).toEqual(['Sandton']);
+  });
+
+  test('looks up a site without recording it again', () => {
+    history.record(check('Sandton', -26.1076, [{ type: '4G', available: true }]));
+    const before = history.list();
+
+    expect(history.get(historyId(-26.1076, 28.0473))?.result.address).toBe('Sandton');
+    expect(history.get(historyId(-26.2485, 28.0473))).toBeNull();
+    expect(history.list()).toEqual(before);
+  });
+
+  test('strips feature geometry from snapshots', () => {
+    history.record(check('Sandton', -26.1076, [{
+      type: 'FIBRE',
+      available: true,
+      features: [{ type: 'Feature', geometry: null, properties: {} }]
+    }]));
+
+    expect(history.list()[0].result.coverage.mtnProxy!.types[0]).toEqual({ type: 'FIBRE', available: true });
+  });
+
+  test('searches and filters by name, address and tag', () => {
+    history = new LocationHistory({ storage: new MemoryStorage(), now: () => now });
+    history.record(check('Sandton', -26.1076, []));
+    history.record(check('Soweto', -26.2485, []));
+    history.pin(history.list()[1].id, 'Head office', ['clients']);
+
+    const entries = history.list();
+    expect(filterHistory(entries, { query: 'head' }).map(entry => entry.address)).toEqual(['Sandton']);
+    expect(filterHistory(entries, { query: 'SOW' }).map(entry => entry.address)).toEqual(['Soweto']);
+    expect(filterHistory(entries, { tag: 'clients' })).toHaveLength(1);
+    expect(filterHistory(entries, { favouritesOnly: true })).toHaveLength(1);
+    expect(historyTags(entries)).toEqual(['clients']);
+  });
+
+  test('reports what changed between two checks', () => {
+    const before = check('Sandton', -26.1076, [
+      { type: '4G', available: true, strength: 'high' },
+      { type: '5G', available: false },
+      { type: 'FIBRE', available: true },
+      { type: 'FIXED_LTE', available: true, quality: 70 }
+    ]);
+    const after = check('Sandton', -26.1076, [
+      { type: '4G', available: true, strength: 'medium' },
+      { type: '5G', available: true },
+      { type: 'FIXED_LTE', available: true, quality: 70 }
+    ]);
+
+    expect(diffCoverage(before, after).map(change => [change.technology, change.kind])).toEqual([
+      ['4G', 'strength'],
+      ['5G', 'gained']
+    ]);
+  });
+});
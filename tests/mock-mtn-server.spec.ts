@@ -0,0 +1,101 @@
+import { test, expect } from '@playwright/test';
+import zlib from 'node:zlib';
+import { startMockMtnServer } from '../mock/mtn-server.js';
+import coverageHandler from '../api/coverage.js';
+import { buildTileUrl } from '../src/shared/tiles.js';
+import { MTNApi } from '../src/utils/mtnApi';
+import { callRoute, jsonBody } from './support/fakeResponse';
+
+// Sandton, inside the Johannesburg and Sandton fixtures
+const SANDTON = { lat: -26.1076, lng: 28.0567 };
+// Beaufort West, 2G/3G only
+const KAROO = { lat: -32.35, lng: 22.6 };
+
+const callProxy = (query: Record<string, string>) => callRoute(coverageHandler, { refresh: '1', ...query });
+
+// RGBA of one pixel from an unfiltered PNG as written by the mock
+function pixel(png: Buffer, x: number, y: number): number[] {
+  const width = png.readUInt32BE(16);
+  const idatLength = png.readUInt32BE(33);
+  const raw = zlib.inflateSync(png.subarray(41, 41 + idatLength));
+  const offset = y * (width * 4 + 1) + 1 + x * 4;
+  return Array.from(raw.subarray(offset, offset + 4));
+}
+
+test.describe('Mock MTN server', () => {
+  let mock: Awaited<ReturnType<typeof startMockMtnServer>>;
+  const savedEnv = { ...process.env };
+
+  test.beforeAll(async () => {
+    mock = await startMockMtnServer();
+    process.env.MTN_GIS_BASE_URL = mock.baseUrl;
+  });
+
+  test.afterAll(async () => {
+    process.env = savedEnv;
+    await mock.close();
+  });
+
+  test('lists every technology layer in GetCapabilities', async () => {
+    const response = await fetch(`${mock.baseUrl}/cache/geoserver/wms?SERVICE=WMS&REQUEST=GetCapabilities`);
+    const xml = await response.text();
+
+    expect(xml).toContain('<Name>mtnsi:MTNSA-Coverage-4G</Name>');
+    expect(xml).toContain('<Name>mtnsi:MTN-FTTB-Feasible</Name>');
+    expect(xml.match(/<Layer queryable="1">/g)).toHaveLength(9);
+  });
+
+  test('answers the coverage proxy from fixture polygons', async () => {
+    const sandton = await callProxy({ lat: String(SANDTON.lat), lng: String(SANDTON.lng), technology: 'FIBRE' });
+    expect(sandton.statusCode).toBe(200);
+    expect(jsonBody(sandton).features).toEqual([
+      expect.objectContaining({ layer: 'mtnsi:MTN-FTTB-Feasible', attributes: expect.objectContaining({ signal: 'Good', quality: 98 }) })
+    ]);
+
+    const karoo = await callProxy({ lat: String(KAROO.lat), lng: String(KAROO.lng), technology: 'FIBRE' });
+    expect(jsonBody(karoo).features).toEqual([]);
+
+    const cellular = await callProxy({ lat: String(KAROO.lat), lng: String(KAROO.lng), technology: '4G' });
+    expect(cellular.body).toMatchObject({
+      features: [{ layer: 'mtnsi:MTNSA-Coverage-2G' }, { layer: 'mtnsi:MTNSA-Coverage-3G' }]
+    });
+    expect(mock.requests.some(request => request.includes('REQUEST=GetFeatureInfo'))).toBe(true);
+  });
+
+  test('renders GetMap tiles from the fixtures', async () => {
+    // Zoom 10 tile over Johannesburg; Sandton falls inside it
+    const response = await fetch(buildTileUrl('4G', 10, 591, 588, `${mock.baseUrl}/cache/geoserver/wms`)!);
+    const png = Buffer.from(await response.arrayBuffer());
+
+    expect(response.headers.get('content-type')).toBe('image/png');
+    expect(png.subarray(1, 4).toString('ascii')).toBe('PNG');
+    expect(png.readUInt32BE(16)).toBe(256);
+    expect(pixel(png, 255, 255)).toEqual([0x00, 0xa6, 0x51, 204]);
+    expect(pixel(png, 0, 0)[3]).toBe(0);
+  });
+
+  test('serves the browser client end to end', async () => {
+    const api = new MTNApi({ baseUrls: { gis: mock.baseUrl, api: mock.baseUrl, web: mock.baseUrl } });
+    const result = await api.checkCoverage(SANDTON.lat, SANDTON.lng, 'Sandton');
+
+    const geoserver = result.coverage.mtnGeoServer;
+    expect(geoserver.types.find(tech => tech.type === '5G')).toMatchObject({ available: true, quality: 92 });
+    expect(geoserver.types.find(tech => tech.type === 'UNCAPPED_WIRELESS')).toBeUndefined();
+    expect(result.lastChecked).toBeUndefined();
+  });
+
+  test('serves the coverage point and consumer APIs', async () => {
+    const point = await fetch(`${mock.baseUrl}/coverage/api/point`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ location: KAROO, coverageTypes: ['3G', '4G'] })
+    });
+    expect(await point.json()).toEqual([
+      { type: '3G', available: true, strength: 'low', quality: 35, area: 'Beaufort West' },
+      { type: '4G', available: false }
+    ]);
+
+    const consumer = await fetch(`${mock.baseUrl}/coverage/v1/availability?latitude=${SANDTON.lat}&longitude=${SANDTON.lng}&service=UNCAPPED_WIRELESS`);
+    expect(await consumer.json()).toEqual({ service: 'UNCAPPED_WIRELESS', available: false, services: { UNCAPPED_WIRELESS: false } });
+  });
+});
@@ -0,0 +1,241 @@
+import { test, expect } from '@playwright/test';
+import { resolveObjectURL } from 'node:buffer';
+import zlib from 'node:zlib';
+import { DOMParser } from '@xmldom/xmldom';
+import JSZip from 'jszip';
+import { TaranaProvider } from '../src/utils/coverageProviders';
+import { KMLParser } from '../src/utils/kmlParser';
+import { decodePng } from '../src/utils/pngDecoder';
+import { DEFAULT_OVERLAY_PALETTE, OverlaySampler, classifyColor, overlayPixel } from '../src/utils/overlaySampler';
+import { TaranaCoverageService } from '../src/utils/taranaCoverage';
+import { PNG_SIGNATURE, encodePng, pngChunk } from './support/png';
+
+const parseXml = (text: string) => new DOMParser().parseFromString(text, 'text/xml') as unknown as Document;
+
+const BOUNDS = { north: -25.9, south: -26.3, east: 28.3, west: 27.8 };
+const GREEN = [0x00, 0xb0, 0x50, 255];
+const YELLOW = [0xff, 0xff, 0x00, 255];
+const RED = [0xff, 0x00, 0x00, 255];
+const CLEAR = [0, 0, 0, 0];
+
+// 4x4 overlay: 0.125° columns, 0.1° rows
+const OVERLAY = [
+  CLEAR, CLEAR, CLEAR, CLEAR,
+  CLEAR, YELLOW, YELLOW, CLEAR,
+  CLEAR, YELLOW, GREEN, RED,
+  CLEAR, CLEAR, CLEAR, CLEAR
+];
+
+function overlayPng(pixels = OVERLAY): Buffer {
+  return encodePng(4, 4, Buffer.from(pixels.flat()));
+}
+
+function taranaKml(href: string) {
+  return `<kml><Document>
+    <GroundOverlay><Icon><href>${href}</href></Icon>
+      <LatLonBox><north>${BOUNDS.north}</north><south>${BOUNDS.south}</south><east>${BOUNDS.east}</east><west>${BOUNDS.west}</west></LatLonBox>
+    </GroundOverlay>
+    <Placemark><name>ST: Sandton North</name><Point><coordinates>28.0567,-26.1076,1650</coordinates></Point></Placemark>
+  </Document></kml>`;
+}
+
+// Coverage service loaded with a KMZ holding the test overlay
+async function taranaService(): Promise<TaranaCoverageService> {
+  const zip = new JSZip();
+  zip.file('doc.kml', taranaKml('files/coverage.png'));
+  zip.file('files/coverage.png', overlayPng());
+
+  const sampler = new OverlaySampler({
+    loadImage: async url => {
+      const blob = resolveObjectURL(url);
+      if (!blob) throw new Error(`${url} not found`);
+      return blob.arrayBuffer();
+    }
+  });
+  const service = new TaranaCoverageService(new KMLParser(parseXml), {}, sampler);
+  await service.loadDataset(new Blob([await zip.generateAsync({ type: 'arraybuffer' })]), 'tarana.kmz');
+  return service;
+}
+
+// PNG with one filter type per row, so every filter gets undone at least once
+function filteredRgbPng(width: number, rows: number[][]): Buffer {
+  const bpp = 3;
+  const stride = width * bpp;
+  const paeth = (a: number, b: number, c: number) => {
+    const p = a + b - c;
+    const [pa, pb, pc] = [Math.abs(p - a), Math.abs(p - b), Math.abs(p - c)];
+    return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+  };
+
+  const raw = Buffer.alloc((stride + 1) * rows.length);
+  rows.forEach((row, y) => {
+    const filter = y % 5;
+    raw[y * (stride + 1)] = filter;
+    row.forEach((value, x) => {
+      const left = x >= bpp ? row[x - bpp] : 0;
+      const up = y > 0 ? rows[y - 1][x] : 0;
+      const upLeft = y > 0 && x >= bpp ? rows[y - 1][x - bpp] : 0;
+      const predictor = [0, left, up, (left + up) >> 1, paeth(left, up, upLeft)][filter];
+      raw[y * (stride + 1) + 1 + x] = (value - predictor) & 0xff;
+    });
+  });
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(rows.length, 4);
+  header.set([8, 2, 0, 0, 0], 8);
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlib.deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+// 2-bit palette PNG whose first palette entry is transparent
+function palettePng(indices: number[][]): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(indices[0].length, 0);
+  header.writeUInt32BE(indices.length, 4);
+  header.set([2, 3, 0, 0, 0], 8);
+  const raw = Buffer.concat(indices.map(row => {
+    const bytes = Buffer.alloc(1 + Math.ceil(row.length / 4));
+    row.forEach((index, x) => { bytes[1 + (x >> 2)] |= index << (6 - (x & 3) * 2); });
+    return bytes;
+  }));
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    pngChunk('IHDR', header),
+    pngChunk('PLTE', Buffer.from([0, 0, 0, ...GREEN.slice(0, 3), ...YELLOW.slice(0, 3), ...RED.slice(0, 3)])),
+    pngChunk('tRNS', Buffer.from([0])),
+    pngChunk('IDAT', zlib.deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+test.describe('PNG decoding', () => {
+  test('decodes RGBA, filtered RGB and palette images to the stored colours', async () => {
+    const rgba = await decodePng(overlayPng());
+    expect([rgba.width, rgba.height]).toEqual([4, 4]);
+    expect(Array.from(rgba.data)).toEqual(OVERLAY.flat());
+
+    const rows = Array.from({ length: 10 }, (_, y) => Array.from({ length: 7 * 3 }, (_, x) => (x * 37 + y * 91 + x * y) & 0xff));
+    const rgb = await decodePng(filteredRgbPng(7, rows));
+    const expected = rows.flatMap(row => Array.from({ length: 7 }, (_, x) => [...row.slice(x * 3, x * 3 + 3), 255]).flat());
+    expect(Array.from(rgb.data)).toEqual(expected);
+
+    const indexed = await decodePng(palettePng([[0, 1, 2, 3, 1], [3, 2, 1, 0, 0]]));
+    expect(Array.from(indexed.data.subarray(0, 20))).toEqual([...CLEAR, ...GREEN, ...YELLOW, ...RED, ...GREEN]);
+    expect(Array.from(indexed.data.subarray(20, 28))).toEqual([...RED, ...YELLOW]);
+
+    await expect(decodePng(new Uint8Array([1, 2, 3]))).rejects.toThrow('Not a PNG image');
+  });
+});
+
+test.describe('Coverage overlay sampling', () => {
+  test('maps points to overlay pixels and classifies their colour', () => {
+    expect(overlayPixel(BOUNDS, 4, 4, -26.11, 28.06)).toEqual({ x: 2, y: 2 });
+    expect(overlayPixel(BOUNDS, 4, 4, BOUNDS.north, BOUNDS.west)).toEqual({ x: 0, y: 0 });
+    expect(overlayPixel(BOUNDS, 4, 4, BOUNDS.south, BOUNDS.east)).toEqual({ x: 3, y: 3 });
+    expect(overlayPixel(BOUNDS, 4, 4, -25.8, 28.0)).toBeNull();
+    expect(overlayPixel(BOUNDS, 4, 4, -26.0, 28.4)).toBeNull();
+
+    expect(classifyColor(GREEN)?.name).toBe('Excellent');
+    expect(classifyColor([20, 170, 90, 200])?.name).toBe('Excellent'); // anti-aliased edge
+    expect(classifyColor(RED)).toMatchObject({ name: 'No service', available: false });
+    expect(classifyColor([0, 0, 255, 255])).toBeNull(); // not a palette colour
+    expect(classifyColor([0, 176, 80, 10])).toBeNull(); // transparent
+  });
+
+  test('samples decoded overlays once per image with a configurable palette', async () => {
+    const loads: string[] = [];
+    const sampler = new OverlaySampler({
+      loadImage: async url => {
+        loads.push(url);
+        return new Uint8Array(overlayPng()).buffer;
+      }
+    });
+    const overlay = { imageUrl: 'overlay.png', bounds: BOUNDS };
+
+    expect(await sampler.sample(overlay, -26.11, 28.06)).toMatchObject({
+      inBounds: true,
+      pixel: { x: 2, y: 2 },
+      rgba: GREEN,
+      coverageClass: { name: 'Excellent', available: true, strength: 'high' }
+    });
+    expect((await sampler.sample(overlay, -26.05, 27.95)).coverageClass?.name).toBe('Fair');
+    expect(await sampler.sample(overlay, -25.95, 27.85)).toMatchObject({ inBounds: true, coverageClass: null, transparent: true });
+    expect(await sampler.sample(overlay, -25.5, 28.0)).toEqual({ inBounds: false, coverageClass: null });
+    expect(loads).toEqual(['overlay.png']);
+
+    sampler.setPalette([...DEFAULT_OVERLAY_PALETTE, { name: 'Planned', color: '#000000', available: false }]);
+    expect((await sampler.sample(overlay, -25.95, 27.85)).coverageClass).toBeNull(); // still transparent
+    sampler.setPalette([{ name: 'Covered', color: '#ffff00', available: true, strength: 'medium' }], 10);
+    expect((await sampler.sample(overlay, -26.05, 27.95)).coverageClass?.name).toBe('Covered');
+    expect((await sampler.sample(overlay, -26.11, 28.06)).coverageClass).toBeNull();
+
+    // A failed load is not cached
+    let attempts = 0;
+    const flaky = new OverlaySampler({
+      loadImage: async () => {
+        if (attempts++ === 0) throw new Error('offline');
+        return new Uint8Array(overlayPng()).buffer;
+      }
+    });
+    await expect(flaky.sample(overlay, -26.11, 28.06)).rejects.toThrow('offline');
+    expect((await flaky.sample(overlay, -26.11, 28.06)).coverageClass?.name).toBe('Excellent');
+  });
+
+  test('reports the overlay reading next to the distance estimate', async () => {
+    const service = await taranaService();
+
+    const covered = await service.checkCoverage(-26.11, 28.06);
+    expect(covered.available).toBe(true);
+    expect(covered.overlay?.coverageClass?.name).toBe('Excellent');
+    expect(service.formatCoverageResult(-26.11, 28.06, 'Sandton', covered).coverage.taranaStatic?.types[0].details)
+      .toMatchObject({ servingTower: 'Sandton North', overlayCoverage: 'Excellent' });
+
+    // The overlay can disagree with the distance estimate
+    const noService = await service.checkCoverage(-26.11, 28.2);
+    expect(noService.available).toBe(true);
+    expect(noService.overlay?.coverageClass).toMatchObject({ available: false });
+
+    const outside = await service.checkCoverage(-26.5, 28.06);
+    expect(service.formatCoverageResult(-26.5, 28.06, 'South', outside).coverage.taranaStatic?.types[0].details)
+      .toMatchObject({ overlayCoverage: 'Outside overlay' });
+
+    // Datasets whose image cannot be read just leave the overlay out
+    await service.loadDataset(new Blob([taranaKml('https://example.com/missing.png')]), 'tarana.kml');
+    const unread = await service.checkCoverage(-26.11, 28.06);
+    expect(unread.available).toBe(true);
+    expect(unread.overlay).toBeUndefined();
+    expect(service.formatCoverageResult(-26.11, 28.06, 'Sandton', unread).coverage.taranaStatic?.types[0].details)
+      .not.toHaveProperty('overlayCoverage');
+  });
+
+  test('the Tarana provider reports the overlay class next to the distance estimate', async () => {
+    const service = await taranaService();
+    const provider = new TaranaProvider(service);
+
+    // Red pixel within range of the tower: the distance estimate still decides
+    const east = await service.checkCoverage(-26.11, 28.2);
+    expect((await provider.checkCoverage(-26.11, 28.2)).types).toMatchObject([{
+      type: 'UNCAPPED_WIRELESS',
+      available: east.available,
+      strength: east.strength,
+      details: { overlayCoverage: 'No service', servingTower: 'Sandton North' }
+    }]);
+
+    expect((await provider.checkCoverage(-26.05, 27.95)).types[0].details).toMatchObject({ overlayCoverage: 'Fair' });
+    expect((await provider.checkCoverage(-25.95, 27.85)).types[0].details).toMatchObject({ overlayCoverage: 'No coverage' });
+    expect((await provider.checkCoverage(-26.5, 28.06)).types[0].details).toMatchObject({ overlayCoverage: 'Outside overlay' });
+
+    // A colour the palette does not know is unknown, not unavailable
+    service.setOverlayPalette([{ name: 'Covered', color: '#00b050', available: true, strength: 'high' }], 10);
+    const fair = await service.checkCoverage(-26.05, 27.95);
+    expect(fair.available).toBe(true);
+    expect((await provider.checkCoverage(-26.05, 27.95)).types[0])
+      .toMatchObject({ available: true, strength: fair.strength, details: { overlayCoverage: 'Unknown' } });
+  });
+});
@@ -0,0 +1,84 @@
+import { test, expect } from '@playwright/test';
+import { DOMImplementation, XMLSerializer } from '@xmldom/xmldom';
+import {
+  changedOverlays,
+  decodePermalink,
+  encodePermalink,
+  restoreOverlays,
+  toToggleState
+} from '../src/utils/permalink';
+import { DEFAULT_OVERLAYS } from '../src/utils/coverageOverlay';
+import { infoWindowContent } from '../src/utils/infoWindow';
+
+test.describe('Permalinks', () => {
+  test('round-trips location, toggles, zoom and overlays', () => {
+    const search = encodePermalink({
+      address: 'Sandton City, Johannesburg',
+      lat: -26.1076,
+      lng: 28.0567,
+      technologies: ['4G', 'FIBRE'],
+      zoom: 15,
+      overlays: { FIBRE: { opacity: 0.8, zIndex: 9 } }
+    });
+
+    expect(search).toBe('?address=Sandton+City%2C+Johannesburg&lat=-26.107600&lng=28.056700&tech=4G%2CFIBRE&z=15&layers=FIBRE%3A80%3A9');
+    expect(decodePermalink(search)).toEqual({
+      address: 'Sandton City, Johannesburg',
+      lat: -26.1076,
+      lng: 28.0567,
+      technologies: ['4G', 'FIBRE'],
+      zoom: 15,
+      overlays: { FIBRE: { opacity: 0.8, zIndex: 9 } }
+    });
+  });
+
+  test('rejects links without a valid location and drops bad settings', () => {
+    expect(decodePermalink('')).toBeNull();
+    expect(decodePermalink('?lat=-26.2&lng=abc')).toBeNull();
+    expect(decodePermalink('?lat=-126.2&lng=28')).toBeNull();
+    expect(decodePermalink('?lat=&lng=28')).toBeNull();
+    expect(decodePermalink('?lat=%20&lng=28')).toBeNull();
+    expect(decodePermalink('?lng=28')).toBeNull();
+
+    expect(decodePermalink('?lat=-26.2&lng=28.04&tech=4G,6G&z=99&layers=FIBRE:150:1,3G:40:x,5G:40:2')).toEqual({
+      address: '-26.2, 28.04',
+      lat: -26.2,
+      lng: 28.04,
+      technologies: ['4G'],
+      overlays: { '5G': { opacity: 0.4, zIndex: 2 } }
+    });
+  });
+
+  test('treats the address as plain text and caps its length', () => {
+    const hostile = '<img src=x onerror=alert(1)>';
+    const permalink = decodePermalink(`?lat=-26.2&lng=28.04&address=${encodeURIComponent(hostile)}`);
+    expect(permalink?.address).toBe(hostile);
+
+    const ownerDocument = new DOMImplementation().createDocument(null, null, null) as unknown as Document;
+    const content = infoWindowContent({ address: permalink!.address, province: 'Gauteng', success: true }, ownerDocument);
+    expect(content.getElementsByTagName('img')).toHaveLength(0);
+    expect(content.getElementsByTagName('h3')[0].textContent).toBe(hostile);
+    expect(new XMLSerializer().serializeToString(content as unknown as Node)).toContain('&lt;img src=x onerror=alert(1)&gt;');
+
+    expect(decodePermalink(`?lat=-26.2&lng=28.04&address=${'a'.repeat(500)}`)?.address).toHaveLength(200);
+    expect(decodePermalink('?lat=-26.2&lng=28.04&address=%20%20')?.address).toBe('-26.2, 28.04');
+  });
+
+  test('only encodes overlays that differ from the defaults', () => {
+    const overlays = {
+      ...DEFAULT_OVERLAYS,
+      '4G': { ...DEFAULT_OVERLAYS['4G'], opacity: 0.9 }
+    };
+
+    expect(changedOverlays(DEFAULT_OVERLAYS)).toEqual({});
+    expect(changedOverlays(overlays)).toEqual({ '4G': { opacity: 0.9, zIndex: DEFAULT_OVERLAYS['4G'].zIndex } });
+    expect(restoreOverlays(changedOverlays(overlays))).toEqual(overlays);
+  });
+
+  test('builds toggle state from a technology list', () => {
+    const toggles = toToggleState(['5G', 'FIXED_LTE']);
+
+    expect(Object.keys(toggles)).toHaveLength(8);
+    expect(Object.entries(toggles).filter(([, enabled]) => enabled).map(([tech]) => tech)).toEqual(['5G', 'FIXED_LTE']);
+  });
+});
@@ -0,0 +1,36 @@
+import { test, expect } from '@playwright/test';
+import { provinceResolver } from '../src/utils/provinceResolver';
+
+test.describe('Province resolver', () => {
+  const cities: Array<[string, number, number, string]> = [
+    ['Johannesburg', -26.2041, 28.0473, 'Gauteng'],
+    ['Pretoria', -25.7479, 28.2293, 'Gauteng'],
+    ['Bronkhorstspruit', -25.81, 28.74, 'Gauteng'],
+    ['Delmas', -26.15, 28.68, 'Mpumalanga'],
+    ['Witbank', -25.8713, 29.2332, 'Mpumalanga'],
+    ['Secunda', -26.5167, 29.1667, 'Mpumalanga'],
+    ['Nelspruit', -25.4753, 30.9694, 'Mpumalanga'],
+    ['Polokwane', -23.9045, 29.4689, 'Limpopo'],
+    ['Rustenburg', -25.6676, 27.2421, 'North West'],
+    ['Kimberley', -28.7282, 24.7499, 'Northern Cape'],
+    ['Bloemfontein', -29.0852, 26.1596, 'Free State'],
+    ['Durban', -29.8587, 31.0218, 'KwaZulu-Natal'],
+    ['Port Elizabeth', -33.9608, 25.6022, 'Eastern Cape'],
+    ['Cape Town', -33.9249, 18.4241, 'Western Cape']
+  ];
+
+  for (const [name, lat, lng, province] of cities) {
+    test(`resolves ${name} to ${province}`, () => {
+      expect(provinceResolver.resolve(lat, lng)).toBe(province);
+    });
+  }
+
+  test('returns Unknown inside Lesotho and outside South Africa', () => {
+    expect(provinceResolver.resolve(-29.52, 28.6)).toBe('Unknown'); // Thaba-Tseka
+    expect(provinceResolver.resolve(-24.65, 25.9)).toBe('Unknown'); // Gaborone
+  });
+
+  test('snaps coastal points just outside the simplified outline', () => {
+    expect(provinceResolver.resolve(-34.05, 18.35)).toBe('Western Cape'); // Hout Bay
+  });
+});
@@ -0,0 +1,191 @@
+import { test, expect } from '@playwright/test';
+import { readFileSync } from 'node:fs';
+import { UPSTREAM_BUDGETS } from '../api/_lib/budgets.js';
+import {
+  CircuitOpenError,
+  ResilientFetcher,
+  UpstreamTimeoutError
+} from '../src/shared/resilience.js';
+
+const respond = (status: number) => new Response('{}', { status });
+
+test.describe('Resilient fetcher', () => {
+  let now: number;
+  let delays: number[];
+
+  const fetcherWith = (fetchImpl: typeof fetch, options = {}) => new ResilientFetcher({
+    fetchImpl,
+    now: () => now,
+    sleep: async ms => { delays.push(ms); },
+    random: () => 1,
+    ...options
+  });
+
+  test.beforeEach(() => {
+    now = Date.UTC(2025, 0, 1);
+    delays = [];
+  });
+
+  test('retries idempotent requests with exponential backoff', async () => {
+    const statuses = [503, 502, 200];
+    const http = fetcherWith(async () => respond(statuses.shift()!), { retries: 2, baseDelay: 100 });
+
+    const response = await http.fetch('geoserver', 'https://example.test/wms');
+
+    expect(response.status).toBe(200);
+    expect(delays).toEqual([100, 200]);
+    expect(http.getStatus().geoserver).toMatchObject({ state: 'closed', failures: 0 });
+  });
+
+  test('does not retry POST requests', async () => {
+    let calls = 0;
+    const http = fetcherWith(async () => {
+      calls++;
+      return respond(500);
+    });
+
+    const response = await http.fetch('coverageApi', 'https://example.test/point', { method: 'POST' });
+
+    expect(response.status).toBe(500);
+    expect(calls).toBe(1);
+  });
+
+  test('aborts slow requests with an UPSTREAM_TIMEOUT error', async () => {
+    const http = fetcherWith((_url, init) => new Promise((_resolve, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    }), { timeout: 20, retries: 0 });
+
+    const error = await http.fetch('geoserver:4G', 'https://example.test/wms').catch(err => err);
+
+    expect(error).toBeInstanceOf(UpstreamTimeoutError);
+    expect(error.code).toBe('UPSTREAM_TIMEOUT');
+  });
+
+  test('gives up at the deadline, backoff included', async () => {
+    let calls = 0;
+    const http = fetcherWith(async () => {
+      calls++;
+      now += 100;
+      throw new TypeError('fetch failed');
+    }, {
+      timeout: 100,
+      retries: 5,
+      deadline: 250,
+      baseDelay: 1000,
+      maxDelay: 1000,
+      sleep: async (ms: number) => { delays.push(ms); now += ms; }
+    });
+
+    const error = await http.fetch('geoserver:4G', 'https://example.test/wms').catch(err => err);
+
+    expect(error).toBeInstanceOf(UpstreamTimeoutError);
+    expect(error.message).toContain('250ms');
+    expect(calls).toBe(1);
+    expect(delays).toEqual([150]);
+    expect(http.getStatus()['geoserver:4G'].failures).toBe(1);
+  });
+
+  test('keeps every route\'s worst case inside its Vercel maxDuration', () => {
+    const { functions } = JSON.parse(readFileSync(new URL('../vercel.json', import.meta.url), 'utf8'));
+    const routes = {
+      'api/coverage.js': UPSTREAM_BUDGETS.coverage,
+      'api/coverage-batch.js': UPSTREAM_BUDGETS.coverage,
+      'api/tiles/**/*.js': UPSTREAM_BUDGETS.tiles,
+      'api/legend.js': UPSTREAM_BUDGETS.legend
+    };
+
+    // At least 2 s left over for the cache, parsing and writing the response
+    for (const [route, budget] of Object.entries(routes)) {
+      expect(new ResilientFetcher(budget).worstCaseDuration(), route).toBeLessThanOrEqual(functions[route].maxDuration * 1000 - 2000);
+    }
+
+    expect(new ResilientFetcher({ timeout: 10000, retries: 2 }).worstCaseDuration()).toBe(30750);
+    expect(new ResilientFetcher({ timeout: 10000, retries: 2, deadline: 25000 }).worstCaseDuration()).toBe(25000);
+  });
+
+  test('opens the breaker after repeated failures and half-opens after the reset timeout', async () => {
+    let healthy = false;
+    const http = fetcherWith(async () => {
+      if (!healthy) throw new TypeError('fetch failed');
+      return respond(200);
+    }, { retries: 0, failureThreshold: 3, resetTimeout: 30000 });
+
+    for (let i = 0; i < 3; i++) {
+      await expect(http.fetch('consumerApi', 'https://example.test/')).rejects.toThrow('fetch failed');
+    }
+
+    const open = await http.fetch('consumerApi', 'https://example.test/').catch(err => err);
+    expect(open).toBeInstanceOf(CircuitOpenError);
+    expect(open.code).toBe('CIRCUIT_OPEN');
+
+    // Other endpoints keep their own breaker
+    await expect(http.fetch('geoserver', 'https://example.test/')).rejects.toThrow('fetch failed');
+
+    now += 30000;
+    healthy = true;
+    expect((await http.fetch('consumerApi', 'https://example.test/')).status).toBe(200);
+    expect(http.getStatus().consumerApi.state).toBe('closed');
+  });
+
+  test('re-opens straight away when the half-open trial fails', async () => {
+    const http = fetcherWith(async () => {
+      throw new TypeError('fetch failed');
+    }, { retries: 0, failureThreshold: 2, resetTimeout: 1000 });
+
+    await http.fetch('geoserver', 'https://example.test/').catch(() => {});
+    await http.fetch('geoserver', 'https://example.test/').catch(() => {});
+    now += 1000;
+    await http.fetch('geoserver', 'https://example.test/').catch(() => {});
+
+    expect(http.getStatus().geoserver.state).toBe('open');
+  });
+
+  test('lets a single trial request through while half-open', async () => {
+    let healthy = false;
+    const trial: { settle?: (response: Response) => void } = {};
+    let calls = 0;
+    const http = fetcherWith(async () => {
+      calls++;
+      if (!healthy) throw new TypeError('fetch failed');
+      // The first healthy call (the trial) hangs until the test settles it
+      return trial.settle ? respond(200) : new Promise<Response>(resolve => { trial.settle = resolve; });
+    }, { retries: 0, failureThreshold: 1, resetTimeout: 1000 });
+
+    await http.fetch('geoserver', 'https://example.test/').catch(() => {});
+    now += 1000;
+    healthy = true;
+
+    const first = http.fetch('geoserver', 'https://example.test/');
+    const second = await http.fetch('geoserver', 'https://example.test/').catch(err => err);
+    expect(second).toBeInstanceOf(CircuitOpenError);
+    expect(calls).toBe(2);
+
+    trial.settle!(respond(200));
+    expect((await first).status).toBe(200);
+    expect(http.getStatus().geoserver.state).toBe('closed');
+    expect((await http.fetch('geoserver', 'https://example.test/')).status).toBe(200);
+    expect(calls).toBe(3);
+  });
+
+  test('frees the trial slot when the trial is aborted by the caller', async () => {
+    let failing = true;
+    const http = fetcherWith((_url, init) => {
+      if (failing) return Promise.reject(new TypeError('fetch failed'));
+      return new Promise<Response>((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+      });
+    }, { retries: 0, failureThreshold: 1, resetTimeout: 1000 });
+
+    await http.fetch('geoserver', 'https://example.test/').catch(() => {});
+    now += 1000;
+    failing = false;
+
+    const controller = new AbortController();
+    const trial = http.fetch('geoserver', 'https://example.test/', { signal: controller.signal }).catch(err => err);
+    controller.abort();
+    expect((await trial).name).toBe('AbortError');
+
+    // No verdict yet, so the next request becomes the trial
+    expect(http.breaker('geoserver').canRequest()).toBe(true);
+  });
+});
@@ -0,0 +1,113 @@
+import { test, expect } from '@playwright/test';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import {
+  FileCacheBackend,
+  MemoryCacheBackend,
+  ResponseCache,
+  snapToGrid
+} from '../api/_lib/responseCache.js';
+
+const ok = (body: unknown) => ({ status: 200, contentType: 'application/json', body });
+
+test.describe('Coverage proxy response cache', () => {
+  let now: number;
+  const clock = () => now;
+
+  test.beforeEach(() => {
+    now = Date.UTC(2025, 0, 1);
+  });
+
+  test('snaps nearby points onto one key', () => {
+    const cache = new ResponseCache({ grid: 0.001 });
+
+    expect(snapToGrid(-26.20412, 0.001)).toBe(-26.204);
+    expect(cache.key({ technology: '4G', type: 'wms', lat: -26.20412, lng: 28.04731 }))
+      .toBe(cache.key({ technology: '4G', type: 'wms', lat: -26.20388, lng: 28.04689 }));
+    expect(cache.key({ technology: '4G', type: 'wms', lat: -26.2041, lng: 28.0473 }))
+      .not.toBe(cache.key({ technology: '5G', type: 'wms', lat: -26.2041, lng: 28.0473 }));
+  });
+
+  test('serves HIT while fresh, STALE while revalidating, then the new value', async () => {
+    const cache = new ResponseCache({ backend: new MemoryCacheBackend(), ttl: 60, staleTtl: 600, now: clock });
+    let calls = 0;
+    const fetcher = async () => ok({ call: ++calls });
+
+    expect(await cache.fetch('k', fetcher)).toMatchObject({ status: 'MISS', response: { body: { call: 1 } } });
+
+    now += 30 * 1000;
+    expect(await cache.fetch('k', fetcher)).toMatchObject({ status: 'HIT', age: 30, response: { body: { call: 1 } } });
+
+    now += 60 * 1000;
+    expect(await cache.fetch('k', fetcher)).toMatchObject({ status: 'STALE', response: { body: { call: 1 } } });
+    await cache.settle();
+
+    expect(await cache.fetch('k', fetcher)).toMatchObject({ status: 'HIT', age: 0, response: { body: { call: 2 } } });
+    expect(calls).toBe(2);
+  });
+
+  test('keeps the function alive until a stale refresh is stored', async () => {
+    const kept: Promise<unknown>[] = [];
+    const cache = new ResponseCache({ ttl: 60, staleTtl: 600, now: clock, keepAlive: (pending: Promise<unknown>) => { kept.push(pending); } });
+    let calls = 0;
+    const fetcher = async () => ok({ call: ++calls });
+
+    await cache.fetch('k', fetcher);
+    expect(kept).toHaveLength(0);
+
+    now += 90 * 1000;
+    expect(await cache.fetch('k', fetcher)).toMatchObject({ status: 'STALE', response: { body: { call: 1 } } });
+    expect(kept).toHaveLength(1);
+
+    await kept[0];
+    expect(await cache.fetch('k', fetcher)).toMatchObject({ status: 'HIT', age: 0, response: { body: { call: 2 } } });
+  });
+
+  test('refetches once the stale window has passed, and on bypass', async () => {
+    const cache = new ResponseCache({ ttl: 60, staleTtl: 60, now: clock });
+    let calls = 0;
+    const fetcher = async () => ok({ call: ++calls });
+
+    await cache.fetch('k', fetcher);
+    now += 121 * 1000;
+    expect(await cache.fetch('k', fetcher)).toMatchObject({ status: 'MISS', response: { body: { call: 2 } } });
+    expect(await cache.fetch('k', fetcher, { bypass: true })).toMatchObject({ status: 'BYPASS', response: { body: { call: 3 } } });
+    expect(await cache.fetch('k', fetcher)).toMatchObject({ status: 'HIT', response: { body: { call: 3 } } });
+  });
+
+  test('does not store upstream errors', async () => {
+    const cache = new ResponseCache({ now: clock });
+
+    await cache.fetch('k', async () => ({ status: 502, contentType: 'application/json', body: { error: 'bad gateway' } }));
+    expect(await cache.fetch('k', async () => ok('fresh'))).toMatchObject({ status: 'MISS', response: { body: 'fresh' } });
+  });
+
+  test('keeps the stale entry when revalidation fails', async () => {
+    const cache = new ResponseCache({ ttl: 1, staleTtl: 600, now: clock });
+
+    await cache.fetch('k', async () => ok('original'));
+    now += 5 * 1000;
+    await cache.fetch('k', async () => {
+      throw new Error('upstream down');
+    });
+    await cache.settle();
+
+    expect(await cache.fetch('k', async () => ok('unused'))).toMatchObject({ status: 'STALE', response: { body: 'original' } });
+  });
+
+  test('file backend persists entries across cache instances', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'coverage-cache-'));
+
+    try {
+      const first = new ResponseCache({ backend: new FileCacheBackend({ directory }), now: clock });
+      await first.fetch('wms:4G:-26.204:28.047:', async () => ok({ features: [] }));
+
+      const second = new ResponseCache({ backend: new FileCacheBackend({ directory }), now: clock });
+      expect(await second.fetch('wms:4G:-26.204:28.047:', async () => ok('refetched')))
+        .toMatchObject({ status: 'HIT', response: { body: { features: [] } } });
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,101 @@
+import { test, expect } from '@playwright/test';
+import { performance } from 'node:perf_hooks';
+import { LatLng, Neighbour, SpatialIndex, haversineDistance } from '../src/utils/spatialIndex';
+
+interface Tower extends LatLng {
+  id: number;
+}
+
+// Deterministic points so failures reproduce
+function random(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), seed | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Roughly South Africa's bounding box
+function towers(count: number, seed: number): Tower[] {
+  const next = random(seed);
+  return Array.from({ length: count }, (_, id) => ({ id, lat: -35 + next() * 13, lng: 16 + next() * 17 }));
+}
+
+// The linear scan the index replaces
+function bruteForce(items: Tower[], lat: number, lng: number): Neighbour<Tower>[] {
+  return items
+    .map(item => ({ item, distance: haversineDistance(lat, lng, item.lat, item.lng) }))
+    .sort((a, b) => a.distance - b.distance);
+}
+
+const ids = (neighbours: Neighbour<Tower>[]) => neighbours.map(neighbour => neighbour.item.id);
+
+test.describe('Spatial index', () => {
+  test('matches a linear scan for radius and k-nearest queries', () => {
+    const items = towers(3000, 1);
+    const index = new SpatialIndex(items);
+    const queries = towers(300, 2);
+
+    for (const { lat, lng } of queries) {
+      const all = bruteForce(items, lat, lng);
+
+      for (const radius of [0.5, 15, 80]) {
+        const expected = all.filter(neighbour => neighbour.distance <= radius);
+        const actual = index.withinRadius(lat, lng, radius);
+        expect(ids(actual)).toEqual(ids(expected));
+        expect(actual.map(neighbour => neighbour.distance)).toEqual(expected.map(neighbour => neighbour.distance));
+      }
+
+      expect(ids(index.nearest(lat, lng, 1))).toEqual(ids(all.slice(0, 1)));
+      expect(ids(index.nearest(lat, lng, 7))).toEqual(ids(all.slice(0, 7)));
+      expect(ids(index.nearest(lat, lng, 7, 30))).toEqual(ids(all.slice(0, 7).filter(neighbour => neighbour.distance <= 30)));
+    }
+  });
+
+  test('handles duplicates, empty input and queries across the antimeridian', () => {
+    const duplicates = [{ id: 0, lat: -26, lng: 28 }, { id: 1, lat: -26, lng: 28 }, { id: 2, lat: -26.01, lng: 28 }];
+    const index = new SpatialIndex(duplicates);
+    expect(ids(index.withinRadius(-26, 28, 0))).toEqual([0, 1]);
+    expect(ids(index.nearest(-26, 28, 2))).toEqual([0, 1]);
+    expect(index.nearest(-26, 28, 0)).toEqual([]);
+
+    expect(new SpatialIndex<Tower>([]).nearest(0, 0, 3)).toEqual([]);
+
+    const dateline = new SpatialIndex([{ id: 0, lat: 0, lng: 179.95 }, { id: 1, lat: 0, lng: 170 }]);
+    const [closest] = dateline.nearest(0, -179.95, 1);
+    expect(closest.item.id).toBe(0);
+    expect(closest.distance).toBeCloseTo(11.1, 1);
+    expect(ids(dateline.withinRadius(0, -179.95, 20))).toEqual([0]);
+  });
+
+  // Always checks the results; timing is only asserted for `npm run bench:tarana`,
+  // which sets TARANA_BENCHMARK, so a busy CI machine cannot fail the suite
+  test('benchmark: index matches a linear scan for a national tower list', () => {
+    const items = towers(20000, 3);
+    const queries = towers(2000, 4);
+    const radius = 15;
+
+    let start = performance.now();
+    const expected = queries.map(({ lat, lng }) => items
+      .map(item => ({ item, distance: haversineDistance(lat, lng, item.lat, item.lng) }))
+      .filter(neighbour => neighbour.distance <= radius)
+      .sort((a, b) => a.distance - b.distance));
+    const scanMs = performance.now() - start;
+
+    start = performance.now();
+    const index = new SpatialIndex(items);
+    const buildMs = performance.now() - start;
+
+    start = performance.now();
+    const actual = queries.map(({ lat, lng }) => index.withinRadius(lat, lng, radius));
+    const indexMs = performance.now() - start;
+
+    expect(actual.map(ids)).toEqual(expected.map(ids));
+
+    if (process.env.TARANA_BENCHMARK) {
+      expect(indexMs * 5, `${items.length} towers, ${queries.length} radius queries: linear scan ${scanMs.toFixed(0)} ms, ` +
+        `index build ${buildMs.toFixed(0)} ms + queries ${indexMs.toFixed(0)} ms`).toBeLessThan(scanMs);
+    }
+  });
+});
@@ -0,0 +1,82 @@
+// Local stand-in for the DFA ArcGIS REST MapServer query endpoints.
+// Serves fixture features and applies a simple envelope intersect filter.
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export interface StandInFeature {
+  attributes: Record<string, unknown>;
+  geometry: { x: number; y: number } | { paths: number[][][] };
+}
+
+export type StandInLayers = Record<string, StandInFeature[]>;
+
+const toMercator = (lat: number, lng: number): number[] => [
+  lng * Math.PI / 180 * 6378137,
+  Math.log(Math.tan((90 + lat) * Math.PI / 360)) * 6378137
+];
+
+export const point = (lat: number, lng: number) => {
+  const [x, y] = toMercator(lat, lng);
+  return { x, y };
+};
+
+export const path = (...coords: Array<[number, number]>) => ({
+  paths: [coords.map(([lat, lng]) => toMercator(lat, lng))]
+});
+
+function intersects(geometry: StandInFeature['geometry'], env: Record<string, number>): boolean {
+  const inside = (x: number, y: number) =>
+    x >= env.xmin && x <= env.xmax && y >= env.ymin && y <= env.ymax;
+
+  if ('x' in geometry) {
+    return inside(geometry.x, geometry.y);
+  }
+
+  // Bounding-box overlap per segment is close enough for a stand-in
+  return geometry.paths.some(p => p.slice(1).some((b, i) => {
+    const a = p[i];
+    return Math.max(a[0], b[0]) >= env.xmin && Math.min(a[0], b[0]) <= env.xmax &&
+      Math.max(a[1], b[1]) >= env.ymin && Math.min(a[1], b[1]) <= env.ymax;
+  }));
+}
+
+/**
+ * Start the stand-in on a random port. Layers are keyed by
+ * "<Service>/MapServer/<layerId>" as in the real service URLs.
+ */
+export async function startDFAStandIn(layers: StandInLayers) {
+  const requests: string[] = [];
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    requests.push(url.pathname);
+
+    const match = url.pathname.match(/^\/(.+\/MapServer\/\d+)\/query$/);
+    const features = match ? layers[match[1]] : undefined;
+
+    res.setHeader('Content-Type', 'application/json');
+    if (!features) {
+      res.end(JSON.stringify({ error: { code: 400, message: 'Invalid or missing input parameters.' } }));
+      return;
+    }
+
+    const envelope = JSON.parse(url.searchParams.get('geometry') || '{}');
+    const returnGeometry = url.searchParams.get('returnGeometry') === 'true';
+
+    res.end(JSON.stringify({
+      features: features
+        .filter(feature => intersects(feature.geometry, envelope))
+        .map(feature => returnGeometry ? feature : { attributes: feature.attributes }),
+      exceededTransferLimit: false
+    }));
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  };
+}
@@ -0,0 +1,61 @@
+// Stand-in for the Vercel request/response pair the api/ routes are called
+// with. Records the status, headers and body the route writes.
+
+export interface FakeRequest {
+  method: string;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+}
+
+export interface FakeResponse {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: unknown;
+  setHeader(name: string, value: string): void;
+  status(code: number): FakeResponse;
+  json(body: unknown): FakeResponse;
+  send(body: unknown): FakeResponse;
+  end(): FakeResponse;
+}
+
+export type RouteHandler = (req: FakeRequest, res: FakeResponse) => unknown;
+
+export function createFakeResponse(): FakeResponse {
+  const res: FakeResponse = {
+    statusCode: 0,
+    headers: {},
+    body: undefined,
+    setHeader(name, value) { res.headers[name] = value; },
+    status(code) { res.statusCode = code; return res; },
+    json(body) { res.body = body; return res; },
+    send(body) { res.body = body; return res; },
+    end() { return res; }
+  };
+  return res;
+}
+
+/**
+ * Call a route with a GET request and return what it wrote
+ */
+export async function callRoute(handler: RouteHandler, query: Record<string, string>): Promise<FakeResponse> {
+  const res = createFakeResponse();
+  await handler({ method: 'GET', query, headers: {} }, res);
+  return res;
+}
+
+/**
+ * Narrow a value to a JSON object, failing the test for anything else
+ */
+export function asRecord(value: unknown): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value) || value instanceof Uint8Array) {
+    throw new Error(`Expected a JSON object, got ${JSON.stringify(value)}`);
+  }
+  return value as Record<string, unknown>;
+}
+
+/**
+ * The JSON object a route answered with
+ */
+export function jsonBody(res: FakeResponse): Record<string, unknown> {
+  return asRecord(res.body);
+}
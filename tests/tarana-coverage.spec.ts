@@ -0,0 +1,96 @@
+import { test, expect } from '@playwright/test';
+import { DOMParser } from '@xmldom/xmldom';
+import { KMLParser } from '../src/utils/kmlParser';
+import { TaranaCoverageService, bearing, sectorAttenuation } from '../src/utils/taranaCoverage';
+
+const parseXml = (text: string) => new DOMParser().parseFromString(text, 'text/xml') as unknown as Document;
+
+// One degree of latitude is ~111.2 km
+const KM = 1 / 111.2;
+const ORIGIN = { lat: -26.1, lng: 28.05 };
+
+function placemark(name: string, lat: number, lng: number, heading?: number) {
+  const style = heading === undefined ? '' : `<Style><IconStyle><heading>${heading}</heading></IconStyle></Style>`;
+  return `<Placemark><name>ST: ${name}</name>${style}<Point><coordinates>${lng},${lat},1500</coordinates></Point></Placemark>`;
+}
+
+async function serviceWith(placemarks: string[], sector = {}) {
+  const service = new TaranaCoverageService(new KMLParser(parseXml), sector);
+  const kml = `<kml xmlns="http://www.opengis.net/kml/2.2"><Document>${placemarks.join('')}</Document></kml>`;
+  await service.loadDataset(new Blob([kml]), 'towers-2025-07-16.kml');
+  return service;
+}
+
+test.describe('Tarana sector model', () => {
+  test('computes bearings and the sector antenna pattern', () => {
+    expect(bearing(ORIGIN.lat, ORIGIN.lng, ORIGIN.lat + 0.1, ORIGIN.lng)).toBeCloseTo(0, 6);
+    expect(bearing(ORIGIN.lat, ORIGIN.lng, ORIGIN.lat, ORIGIN.lng + 0.1)).toBeCloseTo(90, 1);
+    expect(bearing(ORIGIN.lat, ORIGIN.lng, ORIGIN.lat - 0.1, ORIGIN.lng)).toBeCloseTo(180, 6);
+    expect(bearing(ORIGIN.lat, ORIGIN.lng, ORIGIN.lat, ORIGIN.lng - 0.1)).toBeCloseTo(270, 1);
+
+    expect(sectorAttenuation(0)).toBe(0);
+    expect(sectorAttenuation(45)).toBe(3); // half the default 90 degree beamwidth
+    expect(sectorAttenuation(180)).toBe(25);
+    expect(sectorAttenuation(180, { beamwidth: 120, frontToBack: 30, pathLossExponent: 3 })).toBe(27);
+  });
+
+  test('scores points behind a sector antenna as weaker or uncovered', async () => {
+    const service = await serviceWith([placemark('North facing', ORIGIN.lat, ORIGIN.lng, 0)]);
+
+    const front = await service.checkCoverage(ORIGIN.lat + 3 * KM, ORIGIN.lng);
+    expect(front).toMatchObject({ available: true, strength: 'high' });
+    expect(front.nearestTowers[0].offAxis).toBeCloseTo(0, 6);
+    expect(front.nearestTowers[0].effectiveDistance).toBeCloseTo(3, 1);
+
+    const side = await service.checkCoverage(ORIGIN.lat, ORIGIN.lng + 3 * KM);
+    expect(side.available).toBe(true);
+    expect(side.nearestTowers[0].attenuation).toBeCloseTo(12, 1);
+    expect(side.nearestTowers[0].signalStrength).toBeLessThan(front.nearestTowers[0].signalStrength);
+
+    const behind = await service.checkCoverage(ORIGIN.lat - 3 * KM, ORIGIN.lng);
+    expect(behind).toMatchObject({ available: false, nearestTowers: [] });
+
+    // The same tower without a heading is omnidirectional
+    const omni = await serviceWith([placemark('Omni', ORIGIN.lat, ORIGIN.lng)]);
+    const around = await omni.checkCoverage(ORIGIN.lat - 3 * KM, ORIGIN.lng);
+    expect(around).toMatchObject({ available: true, strength: 'high' });
+    expect(around.nearestTowers[0].offAxis).toBeUndefined();
+  });
+
+  test('reports the towers that serve the point, not the closest ones', async () => {
+    const service = await serviceWith([
+      placemark('Close but facing away', ORIGIN.lat + 2 * KM, ORIGIN.lng, 0),
+      placemark('Further and facing the point', ORIGIN.lat - 6 * KM, ORIGIN.lng, 0)
+    ]);
+
+    const point = await service.checkCoverage(ORIGIN.lat, ORIGIN.lng);
+    expect(point.available).toBe(true);
+    expect(point.nearestTowers.map(entry => entry.tower.name)).toEqual([
+      'Further and facing the point',
+      'Close but facing away'
+    ]);
+    expect(point.strength).toBe('medium');
+
+    const details = service.formatCoverageResult(ORIGIN.lat, ORIGIN.lng, 'Test', point).coverage.taranaStatic?.types[0].details;
+    expect(details).toMatchObject({ servingTower: 'Further and facing the point', servingDistance: '6.0km', offAxis: 0 });
+
+    const nearest = await service.findNearestTowers(ORIGIN.lat, ORIGIN.lng, 1);
+    expect(nearest[0].tower.name).toBe('Close but facing away');
+  });
+
+  test('uses the configured beamwidth and front-to-back ratio', async () => {
+    const tower = placemark('North facing', ORIGIN.lat, ORIGIN.lng, 0);
+    const behind = { lat: ORIGIN.lat - 3 * KM, lng: ORIGIN.lng };
+
+    const weakBack = await serviceWith([tower], { frontToBack: 10 });
+    const point = await weakBack.checkCoverage(behind.lat, behind.lng);
+    expect(point.available).toBe(true);
+    expect(point.nearestTowers[0].attenuation).toBe(10);
+
+    const narrow = await serviceWith([tower], { beamwidth: 30 });
+    expect((await narrow.checkCoverage(ORIGIN.lat + 8 * KM, ORIGIN.lng + 9 * KM)).available).toBe(false);
+
+    narrow.setSectorModel({ beamwidth: 180 });
+    expect((await narrow.checkCoverage(ORIGIN.lat + 8 * KM, ORIGIN.lng + 9 * KM)).available).toBe(true);
+  });
+});
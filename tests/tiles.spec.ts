@@ -0,0 +1,82 @@
+import { test, expect } from '@playwright/test';
+import { buildTileUrl, parseTile, tileIntersectsCoverage, tileToMercatorBBox } from '../src/shared/tiles.js';
+import handler from '../api/tiles/[technology]/[z]/[x]/[y].js';
+import { callRoute } from './support/fakeResponse';
+
+const HALF_WORLD = 20037508.342789244;
+
+const call = (query: Record<string, string>) => callRoute(handler, query);
+
+test.describe('XYZ tile helpers', () => {
+  test('converts tiles to spherical mercator bounding boxes', () => {
+    expect(tileToMercatorBBox(0, 0, 0)).toEqual([-HALF_WORLD, -HALF_WORLD, HALF_WORLD, HALF_WORLD]);
+
+    const [minX, minY, maxX, maxY] = tileToMercatorBBox(1, 1, 1);
+    expect([minX, minY, maxX, maxY]).toEqual([0, -HALF_WORLD, HALF_WORLD, 0]);
+  });
+
+  test('validates tile coordinates', () => {
+    expect(parseTile('10', '591', '589.png')).toEqual({ z: 10, x: 591, y: 589 });
+    expect(parseTile('2', '4', '0')).toBeNull();
+    expect(parseTile('21', '0', '0')).toBeNull();
+    expect(parseTile('3', '1.5', '2')).toBeNull();
+    expect(parseTile('3', '-1', '2')).toBeNull();
+  });
+
+  test('only considers tiles around South Africa', () => {
+    expect(tileIntersectsCoverage(10, 591, 589)).toBe(true); // Johannesburg
+    expect(tileIntersectsCoverage(10, 0, 0)).toBe(false);
+    expect(tileIntersectsCoverage(10, 301, 385)).toBe(false); // London
+  });
+
+  test('builds GetMap requests in EPSG:900913', () => {
+    const url = new URL(buildTileUrl('FIBRE', 10, 591, 589)!);
+
+    expect(url.searchParams.get('REQUEST')).toBe('GetMap');
+    expect(url.searchParams.get('SRS')).toBe('EPSG:900913');
+    expect(url.searchParams.get('LAYERS')).toBe('mtnsi:MTN-FTTB-Feasible');
+    expect(url.searchParams.get('BBOX')).toBe(tileToMercatorBBox(10, 591, 589).join(','));
+    expect(buildTileUrl('6G', 0, 0, 0)).toBeNull();
+  });
+});
+
+test.describe('Tile proxy route', () => {
+  const realFetch = globalThis.fetch;
+  let requested: string[];
+
+  test.beforeEach(() => {
+    requested = [];
+    globalThis.fetch = (async (url: string) => {
+      requested.push(url);
+      return new Response(new Uint8Array([137, 80, 78, 71]), { headers: { 'content-type': 'image/png' } });
+    }) as typeof fetch;
+  });
+
+  test.afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  test('proxies and caches tiles inside the coverage extent', async () => {
+    const first = await call({ technology: '4G', z: '12', x: '2366', y: '2358.png' });
+    const second = await call({ technology: '4G', z: '12', x: '2366', y: '2358.png' });
+
+    expect(first.statusCode).toBe(200);
+    expect(first.headers['Content-Type']).toBe('image/png');
+    expect(first.headers['X-Cache']).toBe('MISS');
+    expect(second.headers['X-Cache']).toBe('HIT');
+    expect(requested).toHaveLength(1);
+  });
+
+  test('answers empty tiles without calling upstream', async () => {
+    const res = await call({ technology: 'ALL', z: '10', x: '0', y: '0.png' });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.headers['X-Cache']).toBe('EMPTY');
+    expect(requested).toHaveLength(0);
+  });
+
+  test('rejects unknown layers and invalid tiles', async () => {
+    expect((await call({ technology: '6G', z: '1', x: '0', y: '0' })).statusCode).toBe(400);
+    expect((await call({ technology: '4G', z: '1', x: '5', y: '0' })).statusCode).toBe(400);
+  });
+});
@@ -0,0 +1,163 @@
+import { test, expect } from '@playwright/test';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { startMockMtnServer } from '../mock/mtn-server.js';
+import coverageHandler from '../api/coverage.js';
+import { createFileFixtureStore } from '../api/_lib/fixtureStore.js';
+import {
+  FixtureMissingError,
+  MemoryFixtureStore,
+  createRecordingFetch,
+  fixtureId,
+  fixtureKey
+} from '../src/shared/recording.js';
+import { ResilientFetcher } from '../src/shared/resilience.js';
+import { UpstreamRecorder } from '../src/utils/upstreamRecorder';
+import { callRoute } from './support/fakeResponse';
+
+const SANDTON = { lat: '-26.1076', lng: '28.0567' };
+
+function memoryStorage() {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); }
+  };
+}
+
+// Upstream stand-in that counts its calls
+function countingFetch(respond: (url: string) => Response) {
+  const calls: string[] = [];
+  const fetchImpl = async (url: string) => {
+    calls.push(url);
+    return respond(url);
+  };
+  return { calls, fetchImpl: fetchImpl as unknown as typeof fetch };
+}
+
+const callProxy = (query: Record<string, string>) => callRoute(coverageHandler, { refresh: '1', ...query });
+
+test.describe('Upstream recording', () => {
+  test('keys requests independently of parameter order and cache busting', () => {
+    const a = fixtureKey('https://mtnsi.mtn.co.za/wms?REQUEST=GetMap&LAYERS=x&refresh=1');
+    const b = fixtureKey('https://mtnsi.mtn.co.za/wms?LAYERS=x&REQUEST=GetMap');
+
+    expect(a).toBe('GET https://mtnsi.mtn.co.za/wms?LAYERS=x&REQUEST=GetMap');
+    expect(b).toBe(a);
+    expect(fixtureKey('/api/coverage?lng=1&lat=2')).toBe('GET /api/coverage?lat=2&lng=1');
+    expect(fixtureKey('https://api.mtn.co.za/check', { method: 'post', body: '{"a":1}' }))
+      .toBe('POST https://api.mtn.co.za/check {"a":1}');
+    expect(fixtureId(a)).toMatch(/^mtnsi\.mtn\.co\.za-[0-9a-f]{16}$/);
+    expect(fixtureId(a)).not.toBe(fixtureId(fixtureKey('https://mtnsi.mtn.co.za/wms?LAYERS=y&REQUEST=GetMap')));
+  });
+
+  test('replays recorded text and binary responses without calling upstream', async () => {
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff]);
+    const upstream = countingFetch(url => url.endsWith('.png')
+      ? new Response(png, { headers: { 'content-type': 'image/png' } })
+      : new Response('{"ok":true}', { status: 201, headers: { 'content-type': 'application/json' } }));
+    const store = new MemoryFixtureStore();
+
+    const record = createRecordingFetch({ mode: 'record', store, fetchImpl: upstream.fetchImpl });
+    const recorded = await record('https://mtnsi.mtn.co.za/info', { headers: { Authorization: 'Bearer secret' } });
+    expect(await recorded.json()).toEqual({ ok: true });
+    await record('https://mtnsi.mtn.co.za/tile.png');
+
+    const fixtures = store.list();
+    expect(fixtures).toHaveLength(2);
+    expect(fixtures[0].request.headers.authorization).toBe('[redacted]');
+    expect(fixtures[1].response.encoding).toBe('base64');
+
+    const replay = createRecordingFetch({ mode: 'replay', store, fetchImpl: upstream.fetchImpl });
+    const info = await replay('https://mtnsi.mtn.co.za/info');
+    expect(info.status).toBe(201);
+    expect(await info.json()).toEqual({ ok: true });
+    const tile = await replay('https://mtnsi.mtn.co.za/tile.png');
+    expect(tile.headers.get('content-type')).toBe('image/png');
+    expect(new Uint8Array(await tile.arrayBuffer())).toEqual(png);
+    expect(upstream.calls).toHaveLength(2);
+  });
+
+  test('fails a replay miss once, without retries', async () => {
+    const store = new MemoryFixtureStore();
+    const replay = createRecordingFetch({ mode: 'replay', store });
+    let attempts = 0;
+    const fetcher = new ResilientFetcher({
+      retries: 2,
+      fetchImpl: (url: string, init?: RequestInit) => { attempts++; return replay(url, init); },
+      sleep: async () => undefined
+    });
+
+    await expect(fetcher.fetch('test', 'https://mtnsi.mtn.co.za/missing')).rejects.toBeInstanceOf(FixtureMissingError);
+    expect(attempts).toBe(1);
+    expect(fetcher.breaker('test').failures).toBe(0);
+  });
+
+  test('records proxy calls to files and replays them with the upstream gone', async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), 'mtn-fixtures-'));
+    const savedEnv = { ...process.env };
+    const mock = await startMockMtnServer();
+
+    try {
+      process.env.MTN_GIS_BASE_URL = mock.baseUrl;
+      process.env.UPSTREAM_FIXTURES_DIR = dir;
+      process.env.UPSTREAM_MODE = 'record';
+
+      const live = await callProxy({ ...SANDTON, technology: 'FIBRE' });
+      expect(live.statusCode).toBe(200);
+
+      const files = await readdir(dir);
+      expect(files).toHaveLength(1);
+      const fixture = JSON.parse(await readFile(path.join(dir, files[0]), 'utf8'));
+      expect(fixture.request.url).toContain(`${mock.baseUrl}/cache/geoserver/wms`);
+      expect(await createFileFixtureStore(dir).get(fixture.id)).toEqual(fixture);
+
+      await mock.close();
+      process.env.UPSTREAM_MODE = 'replay';
+
+      const replayed = await callProxy({ ...SANDTON, technology: 'FIBRE' });
+      expect(replayed.statusCode).toBe(200);
+      expect(replayed.body).toEqual(live.body);
+
+      const missing = await callProxy({ ...SANDTON, technology: '4G' });
+      expect(missing.statusCode).toBe(502);
+      expect(missing.body).toMatchObject({ code: 'FIXTURE_MISSING' });
+    } finally {
+      process.env = savedEnv;
+      await mock.close().catch(() => undefined);
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('browser recorder persists fixtures and round-trips an exported bundle', async () => {
+    const storage = memoryStorage();
+    const upstream = countingFetch(() => new Response('{"coverage":[]}', { headers: { 'content-type': 'application/json' } }));
+
+    const recorder = new UpstreamRecorder({ storage, fetchImpl: upstream.fetchImpl, mode: 'record' });
+    await recorder.fetch('/api/coverage?lat=-26.1&lng=28.0');
+    expect(recorder.fixtureCount).toBe(1);
+
+    // A reload keeps the fixtures; only a mode chosen with setMode() is remembered
+    const reloaded = new UpstreamRecorder({ storage, fetchImpl: upstream.fetchImpl });
+    expect(reloaded.mode).toBe('live');
+    reloaded.setMode('replay');
+    expect(new UpstreamRecorder({ storage }).mode).toBe('replay');
+    expect(reloaded.fixtureCount).toBe(1);
+
+    const bundle = await recorder.exportFixtures(new Date('2026-01-01T00:00:00Z')).text();
+    expect(JSON.parse(bundle).exportedAt).toBe('2026-01-01T00:00:00.000Z');
+
+    const elsewhere = new UpstreamRecorder({ storage: memoryStorage(), fetchImpl: upstream.fetchImpl, mode: 'replay' });
+    await expect(elsewhere.fetch('/api/coverage?lat=-26.1&lng=28.0')).rejects.toBeInstanceOf(FixtureMissingError);
+    expect(elsewhere.importFixtures(bundle)).toBe(1);
+    const response = await elsewhere.fetch('/api/coverage?lng=28.0&lat=-26.1');
+    expect(await response.json()).toEqual({ coverage: [] });
+    expect(upstream.calls).toHaveLength(1);
+
+    expect(() => elsewhere.importFixtures('{"nope":true}')).toThrow('Not a recorded responses file');
+    elsewhere.clearFixtures();
+    expect(elsewhere.fixtureCount).toBe(0);
+  });
+});